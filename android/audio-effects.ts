@@ -0,0 +1,86 @@
+import { AudioEffectsSettings, EQUALIZER_FREQUENCIES } from '../audio-effects';
+
+/**
+ * Index of the `EQUALIZER_FREQUENCIES` band closest to a frequency, on a logarithmic scale.
+ */
+function nearestBand(frequency: number): number {
+    let nearest = 0;
+    EQUALIZER_FREQUENCIES.forEach((bandFrequency, index) => {
+        if (Math.abs(Math.log(frequency / bandFrequency)) < Math.abs(Math.log(frequency / EQUALIZER_FREQUENCIES[nearest]))) {
+            nearest = index;
+        }
+    });
+    return nearest;
+}
+
+/**
+ * Applies `AudioEffectsSettings` to the audio session of a MediaPlayer with the `android.media.audiofx`
+ * Equalizer, BassBoost and LoudnessEnhancer. The device equalizer bands take the gain of the closest band.
+ */
+export class AudioEffectsController {
+    private _sessionId = 0;
+    private _equalizer: android.media.audiofx.Equalizer | null = null;
+    private _bassBoost: android.media.audiofx.BassBoost | null = null;
+    private _loudness: android.media.audiofx.LoudnessEnhancer | null = null;
+
+    /**
+     * Creates the effects on an audio session, a new MediaPlayer has a new session.
+     */
+    attach(sessionId: number) {
+        if (sessionId === this._sessionId && this._equalizer) {
+            return;
+        }
+        this.release();
+        try {
+            this._sessionId = sessionId;
+            this._equalizer = new android.media.audiofx.Equalizer(0, sessionId);
+            this._bassBoost = new android.media.audiofx.BassBoost(0, sessionId);
+            this._loudness = new android.media.audiofx.LoudnessEnhancer(sessionId);
+        } catch (error) {
+            // the effects are optional on a device
+            console.error('[Code error AR51] Error creating audio effects:', error);
+        }
+    }
+
+    apply(settings: AudioEffectsSettings) {
+        try {
+            if (this._equalizer) {
+                const range = this._equalizer.getBandLevelRange();
+                for (let band = 0; band < this._equalizer.getNumberOfBands(); band++) {
+                    // center frequencies are in milliHertz, levels in millibels
+                    const gain = settings.bandGains[nearestBand(this._equalizer.getCenterFreq(band) / 1000)];
+                    this._equalizer.setBandLevel(band, Math.max(range[0], Math.min(range[1], Math.round(gain * 100))));
+                }
+                this._equalizer.setEnabled(settings.enabled);
+            }
+            if (this._bassBoost) {
+                if (this._bassBoost.getStrengthSupported()) {
+                    this._bassBoost.setStrength(Math.round(settings.bassBoost * 1000));
+                }
+                this._bassBoost.setEnabled(settings.enabled && settings.bassBoost > 0);
+            }
+            if (this._loudness) {
+                this._loudness.setTargetGain(Math.round(settings.loudness * 100));
+                this._loudness.setEnabled(settings.enabled && settings.loudness > 0);
+            }
+        } catch (error) {
+            console.error('[Code error AR52] Error applying audio effects:', error);
+        }
+    }
+
+    release() {
+        [this._equalizer, this._bassBoost, this._loudness].forEach(effect => {
+            try {
+                if (effect) {
+                    effect.release();
+                }
+            } catch (error) {
+                console.error('[Code error AR53] Error releasing audio effect:', error);
+            }
+        });
+        this._equalizer = null;
+        this._bassBoost = null;
+        this._loudness = null;
+        this._sessionId = 0;
+    }
+}
@@ -0,0 +1,279 @@
+import { AudioCache, CachedBytes } from '../cache';
+import { AudioPlayerError } from '../errors';
+
+/**
+ * Milliseconds between two polls of the sockets while MediaPlayer is connected, and while it is not.
+ */
+const POLL_INTERVAL = 20;
+const IDLE_POLL_INTERVAL = 250;
+const MAX_REQUEST_LENGTH = 8192;
+
+const STATUS_TEXTS: { [status: number]: string } = {
+    200: 'OK',
+    206: 'Partial Content',
+    400: 'Bad Request',
+    404: 'Not Found',
+    416: 'Range Not Satisfiable',
+    502: 'Bad Gateway'
+};
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+    mp3: 'audio/mpeg',
+    m4a: 'audio/mp4',
+    m4b: 'audio/mp4',
+    mp4: 'audio/mp4',
+    aac: 'audio/aac',
+    ogg: 'audio/ogg',
+    opus: 'audio/ogg',
+    wav: 'audio/wav'
+};
+
+/**
+ * A file served by the proxy.
+ */
+interface ProxyRoute {
+    cache: AudioCache;
+    url: string;
+}
+
+/**
+ * One connection of MediaPlayer: its request, then the answer, one chunk at a time.
+ */
+class ProxyConnection {
+    closed = false;
+    private _request = '';
+    private _buffer = java.nio.ByteBuffer.allocate(2048);
+    private _output: java.nio.ByteBuffer[] = [];
+    private _route: ProxyRoute | null = null;
+    private _answered = false;
+    private _reading = false;
+    private _position = 0;
+    private _end = -1;
+
+    constructor(private _channel: java.nio.channels.SocketChannel, private _routes: Map<string, ProxyRoute>) {
+        this._channel.configureBlocking(false);
+    }
+
+    /**
+     * Reads what came of the request and writes what is ready of the answer, without blocking.
+     */
+    poll() {
+        try {
+            if (!this._route && !this._answered) {
+                this._readRequest();
+            }
+            this._write();
+        } catch (error) {
+            // MediaPlayer dropped the connection, e.g. to seek
+            this.close();
+        }
+    }
+
+    close() {
+        if (this.closed) {
+            return;
+        }
+        this.closed = true;
+        this._output = [];
+        try {
+            this._channel.close();
+        } catch (error) {
+            console.error('[Code error AR90] Error closing a cache proxy connection:', error);
+        }
+    }
+
+    private _readRequest() {
+        this._buffer.clear();
+        const read = this._channel.read(this._buffer);
+        if (read < 0) {
+            this.close();
+            return;
+        }
+        if (read === 0) {
+            return;
+        }
+        this._request += String(new java.lang.String(this._buffer.array(), 0, read, 'ISO-8859-1'));
+        const headEnd = this._request.indexOf('\r\n\r\n');
+        if (headEnd !== -1) {
+            this._onRequest(this._request.slice(0, headEnd));
+        } else if (this._request.length > MAX_REQUEST_LENGTH) {
+            this._answer(400);
+        }
+    }
+
+    private _onRequest(head: string) {
+        const [method, path] = head.split('\r\n')[0].split(' ');
+        const route = this._routes.get(path);
+        if (!route || (method !== 'GET' && method !== 'HEAD')) {
+            this._answer(route ? 400 : 404);
+            return;
+        }
+        const range = /^range:\s*bytes=(\d+)-(\d*)\s*$/im.exec(head);
+        const start = range ? parseInt(range[1], 10) : 0;
+        this._route = route;
+        this._position = start;
+        this._read(cached => {
+            this._end = range && range[2] ? Math.min(parseInt(range[2], 10), cached.totalBytes - 1) : cached.totalBytes - 1;
+            const headers = [`Content-Type: ${contentTypeOf(route.url)}`, `Content-Length: ${this._end - start + 1}`, 'Accept-Ranges: bytes'];
+            if (range) {
+                headers.push(`Content-Range: bytes ${start}-${this._end}/${cached.totalBytes}`);
+            }
+            this._answer(range ? 206 : 200, headers);
+            if (method === 'HEAD') {
+                this._end = start - 1;
+            } else {
+                this._send(cached);
+            }
+        });
+    }
+
+    /**
+     * Reads the bytes at the position from the cache, the chunk is served before the next one is read.
+     */
+    private _read(then: (cached: CachedBytes) => void) {
+        this._reading = true;
+        this._route.cache.read(this._route.url, this._position).then(
+            cached => {
+                this._reading = false;
+                if (!this.closed) {
+                    then(cached);
+                }
+            },
+            error => {
+                this._reading = false;
+                this._fail(error);
+            }
+        );
+    }
+
+    private _send(cached: CachedBytes) {
+        const offset = this._position - cached.start;
+        const length = Math.min(cached.bytes.length - offset, this._end + 1 - this._position);
+        if (!(length > 0)) {
+            this._fail(new Error(`No bytes at ${this._position} in the cache`));
+            return;
+        }
+        this._output.push(java.nio.ByteBuffer.wrap(cached.bytes, offset, length));
+        this._position += length;
+    }
+
+    private _write() {
+        while (this._output.length) {
+            const buffer = this._output[0];
+            this._channel.write(buffer);
+            if (buffer.hasRemaining()) {
+                // the socket is full, carry on at the next poll
+                return;
+            }
+            this._output.shift();
+        }
+        if (!this._answered || this._reading) {
+            return;
+        }
+        if (this._route && this._position <= this._end) {
+            this._read(cached => this._send(cached));
+        } else {
+            this.close();
+        }
+    }
+
+    /**
+     * Queues the status line and the headers, the connection closes once the body is sent.
+     */
+    private _answer(status: number, headers: string[] = ['Content-Length: 0']) {
+        this._answered = true;
+        const head = [`HTTP/1.1 ${status} ${STATUS_TEXTS[status] || 'Error'}`].concat(headers, 'Connection: close', '', '').join('\r\n');
+        this._output.push(java.nio.ByteBuffer.wrap(new java.lang.String(head).getBytes('ISO-8859-1')));
+    }
+
+    /**
+     * Answers the status the server failed with, or ends the body early once the answer started.
+     */
+    private _fail(error: any) {
+        if (this.closed) {
+            return;
+        }
+        console.error('[Code error AR91] Error serving a cached stream:', this._route && this._route.url, error);
+        if (this._answered) {
+            this.close();
+            return;
+        }
+        this._route = null;
+        if (error instanceof RangeError) {
+            this._answer(416);
+        } else {
+            this._answer(error instanceof AudioPlayerError && typeof error.extra === 'number' ? error.extra : 502);
+        }
+    }
+}
+
+/**
+ * Local HTTP server MediaPlayer streams the files of an `AudioCache` from, so each chunk it plays
+ * is fetched once and cached as it is served. MediaPlayer reads it like any server: Range requests
+ * to seek, a new connection when it drops one. The proxy listens on 127.0.0.1 from the first
+ * cached stream on; its sockets do not block and are polled on the main thread.
+ */
+class CacheProxy {
+    private _server: java.nio.channels.ServerSocketChannel | null = null;
+    private _port = 0;
+    private _routes = new Map<string, ProxyRoute>();
+    private _connections: ProxyConnection[] = [];
+    private _lastRoute = 0;
+
+    /**
+     * The proxy url of a file opened with `AudioCache.openStream`.
+     */
+    urlFor(cache: AudioCache, url: string): string {
+        this._start();
+        let path: string;
+        this._routes.forEach((route, routePath) => {
+            if (route.cache === cache && route.url === url) {
+                path = routePath;
+            }
+        });
+        if (!path) {
+            // the extension of the file helps MediaPlayer tell the format
+            const extension = /\.([a-z0-9]{2,4})(?:[?#]|$)/i.exec(url);
+            path = `/${++this._lastRoute}${extension ? '.' + extension[1].toLowerCase() : ''}`;
+            this._routes.set(path, { cache, url });
+        }
+        return `http://127.0.0.1:${this._port}${path}`;
+    }
+
+    private _start() {
+        if (this._server) {
+            return;
+        }
+        const server = java.nio.channels.ServerSocketChannel.open();
+        server.socket().bind(new java.net.InetSocketAddress('127.0.0.1', 0));
+        server.configureBlocking(false);
+        this._server = server;
+        this._port = server.socket().getLocalPort();
+        this._poll();
+    }
+
+    private _poll() {
+        try {
+            let channel = this._server.accept();
+            while (channel) {
+                this._connections.push(new ProxyConnection(channel, this._routes));
+                channel = this._server.accept();
+            }
+            this._connections.forEach(connection => connection.poll());
+            this._connections = this._connections.filter(connection => !connection.closed);
+        } catch (error) {
+            console.error('[Code error AR92] Error with the cache proxy:', error);
+        }
+        setTimeout(() => this._poll(), this._connections.length ? POLL_INTERVAL : IDLE_POLL_INTERVAL);
+    }
+}
+
+function contentTypeOf(url: string): string {
+    const extension = /\.([a-z0-9]{2,4})(?:[?#]|$)/i.exec(url);
+    return (extension && CONTENT_TYPES[extension[1].toLowerCase()]) || 'application/octet-stream';
+}
+
+/**
+ * The proxy every `TNSPlayer` streams cached files through.
+ */
+export const cacheProxy = new CacheProxy();
@@ -0,0 +1,198 @@
+import { Utils } from '@nativescript/core';
+import { loadArtwork, MediaSessionHost, NowPlayingInfo, RemoteCommand, RemoteCommandEventData } from '../media-session';
+import { AudioPlayerEvents } from '../options';
+import { PlayerState, PREPARED_STATES } from '../player-state';
+
+// android.media.session is missing from the API 34 typings
+const nativeSession: any = (<any>android.media).session;
+
+function playbackStateOf(state: PlayerState): number {
+    const PlaybackState = nativeSession.PlaybackState;
+    switch (state) {
+        case PlayerState.Loading:
+            return PlaybackState.STATE_CONNECTING;
+        case PlayerState.Ready:
+        case PlayerState.Paused:
+            return PlaybackState.STATE_PAUSED;
+        case PlayerState.Playing:
+            return PlaybackState.STATE_PLAYING;
+        case PlayerState.Buffering:
+            return PlaybackState.STATE_BUFFERING;
+        case PlayerState.Completed:
+            return PlaybackState.STATE_STOPPED;
+        case PlayerState.Error:
+            return PlaybackState.STATE_ERROR;
+    }
+    return PlaybackState.STATE_NONE;
+}
+
+/**
+ * Publishes the now playing info and the playback position to a MediaSession, which feeds the
+ * lock screen, headphone and Bluetooth controls, and turns their commands into `RemoteCommand`s.
+ */
+export class MediaSessionController {
+    private _session: any; // android.media.session.MediaSession
+    private _info: NowPlayingInfo = {};
+    private _artwork: android.graphics.Bitmap | null = null;
+
+    /**
+     * Called after the title, artist, album, artwork or duration changed.
+     */
+    onMetadataChanged: () => void;
+
+    constructor(private _host: MediaSessionHost, private _onCommand: (data: RemoteCommandEventData) => void) {
+        try {
+            const MediaSession = nativeSession.MediaSession;
+            this._session = new MediaSession(Utils.android.getApplicationContext(), 'TNSPlayer');
+            // always on from API 26, needed before
+            this._session.setFlags(MediaSession.FLAG_HANDLES_MEDIA_BUTTONS | MediaSession.FLAG_HANDLES_TRANSPORT_CONTROLS);
+            this._session.setCallback(this._createCallback());
+            this._host.events.on(AudioPlayerEvents.prepared, this._onPrepared, this);
+            this._host.events.on(AudioPlayerEvents.stateChanged, this.update, this);
+            this._host.events.on(AudioPlayerEvents.seek, this.update, this);
+            this._host.events.on(AudioPlayerEvents.rateChanged, this.update, this);
+        } catch (error) {
+            console.error('[Code error AR27] Error creating media session:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * The `MediaSession.Token` a media notification attaches to.
+     */
+    get sessionToken(): any {
+        return this._session ? this._session.getSessionToken() : null;
+    }
+
+    get info(): NowPlayingInfo {
+        return this._info;
+    }
+
+    /**
+     * The loaded artwork, null until it is loaded or when there is none.
+     */
+    get artwork(): android.graphics.Bitmap | null {
+        return this._artwork;
+    }
+
+    /**
+     * Shows the given info for the audio file being loaded, the artwork follows once it is loaded.
+     */
+    setInfo(info: NowPlayingInfo) {
+        try {
+            this._info = info;
+            this._artwork = null;
+            this._publishMetadata();
+            this.update();
+            this._session.setActive(true);
+            loadArtwork(info.artwork).then(image => {
+                // skip artwork that arrives after the next file was loaded
+                if (image && this._session && this._info === info) {
+                    this._artwork = image.android;
+                    this._publishMetadata();
+                }
+            });
+        } catch (error) {
+            console.error('[Code error AR28] Error setting media session info:', error);
+        }
+    }
+
+    /**
+     * Publishes the playback state, position and speed. The system moves the position on
+     * by itself while playing, so this is only needed when one of them changes.
+     */
+    update() {
+        try {
+            if (!this._session) {
+                return;
+            }
+            const state = this._host.state;
+            const prepared = PREPARED_STATES.indexOf(state) !== -1;
+            const position = prepared ? Math.round(this._host.currentTime * 1000) : 0;
+            const PlaybackState = nativeSession.PlaybackState;
+            const actions = PlaybackState.ACTION_PLAY | PlaybackState.ACTION_PAUSE | PlaybackState.ACTION_PLAY_PAUSE |
+                PlaybackState.ACTION_STOP | PlaybackState.ACTION_SEEK_TO | PlaybackState.ACTION_FAST_FORWARD |
+                PlaybackState.ACTION_REWIND | PlaybackState.ACTION_SKIP_TO_NEXT | PlaybackState.ACTION_SKIP_TO_PREVIOUS;
+            this._session.setPlaybackState(new PlaybackState.Builder()
+                .setActions(actions)
+                .setState(playbackStateOf(state), position, this._host.playbackRate)
+                .build());
+        } catch (error) {
+            console.error('[Code error AR29] Error updating media session state:', error);
+        }
+    }
+
+    dispose() {
+        try {
+            this._host.events.off(AudioPlayerEvents.prepared, this._onPrepared, this);
+            this._host.events.off(AudioPlayerEvents.stateChanged, this.update, this);
+            this._host.events.off(AudioPlayerEvents.seek, this.update, this);
+            this._host.events.off(AudioPlayerEvents.rateChanged, this.update, this);
+            if (this._session) {
+                this._session.setActive(false);
+                this._session.release();
+                this._session = null;
+            }
+            this._artwork = null;
+            this.onMetadataChanged = undefined;
+        } catch (error) {
+            console.error('[Code error AR30] Error releasing media session:', error);
+        }
+    }
+
+    private _onPrepared() {
+        // the duration is known now
+        this._publishMetadata();
+        this.update();
+    }
+
+    private _publishMetadata() {
+        if (!this._session) {
+            return;
+        }
+        const MediaMetadata = android.media.MediaMetadata;
+        const builder = new MediaMetadata.Builder();
+        const info = this._info;
+        if (info.title) {
+            builder.putString(MediaMetadata.METADATA_KEY_TITLE, info.title);
+        }
+        if (info.artist) {
+            builder.putString(MediaMetadata.METADATA_KEY_ARTIST, info.artist);
+        }
+        if (info.album) {
+            builder.putString(MediaMetadata.METADATA_KEY_ALBUM, info.album);
+        }
+        if (this._artwork) {
+            builder.putBitmap(MediaMetadata.METADATA_KEY_ART, this._artwork);
+        }
+        if (PREPARED_STATES.indexOf(this._host.state) !== -1) {
+            builder.putLong(MediaMetadata.METADATA_KEY_DURATION, Math.round(this._host.duration * 1000));
+        }
+        this._session.setMetadata(builder.build());
+        if (this.onMetadataChanged) {
+            this.onMetadataChanged();
+        }
+    }
+
+    private _createCallback() {
+        const command = (data: RemoteCommandEventData) => {
+            try {
+                this._onCommand(data);
+            } catch (error) {
+                console.error('[Code error AR31] Error handling media session command:', error);
+            }
+        };
+        const Callback = nativeSession.MediaSession.Callback.extend({
+            onPlay: () => command({ command: RemoteCommand.Play }),
+            onPause: () => command({ command: RemoteCommand.Pause }),
+            onStop: () => command({ command: RemoteCommand.Stop }),
+            onSeekTo: (position: number) => command({ command: RemoteCommand.Seek, position: position / 1000 }),
+            onFastForward: () => command({ command: RemoteCommand.SkipForward }),
+            onRewind: () => command({ command: RemoteCommand.SkipBackward }),
+            onSkipToNext: () => command({ command: RemoteCommand.NextTrack }),
+            onSkipToPrevious: () => command({ command: RemoteCommand.PreviousTrack }),
+            onSetPlaybackSpeed: (speed: number) => command({ command: RemoteCommand.ChangeRate, rate: speed })
+        });
+        return new Callback();
+    }
+}
@@ -0,0 +1,315 @@
+import { Utils } from '@nativescript/core';
+import { MediaSessionHost, RemoteCommand, RemoteCommandEventData } from '../media-session';
+import { AudioPlayerEvents } from '../options';
+import { PlayerState } from '../player-state';
+import { MediaSessionController } from './media-session';
+
+const CHANNEL_ID = 'podcast-audio-playback';
+const NOTIFICATION_ID = 7301;
+const LOCK_TAG = 'podcast-audio:playback';
+
+const ACTION_SKIP_BACKWARD = 'org.nativescript.podcastaudio.SKIP_BACKWARD';
+const ACTION_TOGGLE = 'org.nativescript.podcastaudio.TOGGLE';
+const ACTION_SKIP_FORWARD = 'org.nativescript.podcastaudio.SKIP_FORWARD';
+const ACTION_STOP = 'org.nativescript.podcastaudio.STOP';
+
+/**
+ * Notification actions, in the order of their buttons.
+ */
+const NOTIFICATION_COMMANDS: { [action: string]: RemoteCommandEventData } = {
+    [ACTION_SKIP_BACKWARD]: { command: RemoteCommand.SkipBackward },
+    [ACTION_TOGGLE]: { command: RemoteCommand.TogglePlayPause },
+    [ACTION_SKIP_FORWARD]: { command: RemoteCommand.SkipForward },
+    [ACTION_STOP]: { command: RemoteCommand.Stop }
+};
+
+/**
+ * The one player running in the foreground service, there is a single service per app.
+ */
+let activeController: ForegroundServiceController | null = null;
+
+/**
+ * The Android service keeping the app process alive while audio plays in the background.
+ * Declared in the plugin AndroidManifest.xml, it only forwards to the active `ForegroundServiceController`.
+ */
+@NativeClass()
+@JavaProxy('org.nativescript.podcastaudio.PlaybackService')
+class PlaybackService extends android.app.Service {
+    onStartCommand(intent: android.content.Intent, flags: number, startId: number): number {
+        try {
+            if (activeController) {
+                activeController._onServiceStarted(this, intent ? intent.getAction() : null);
+            } else {
+                // started from a stale notification after the player was disposed
+                this.stopSelf();
+            }
+        } catch (error) {
+            console.error('[Code error AR33] Error starting playback service:', error);
+        }
+        return android.app.Service.START_NOT_STICKY;
+    }
+
+    onBind(intent: android.content.Intent): android.os.IBinder {
+        return null;
+    }
+
+    onDestroy() {
+        if (activeController) {
+            activeController._onServiceDestroyed(this);
+        }
+        super.onDestroy();
+    }
+}
+
+/**
+ * Runs a player in a foreground service so playback survives the app going to the background:
+ * a media-style notification with skip and play/pause buttons, and a partial wake lock plus
+ * a Wi-Fi lock while a remote file plays.
+ */
+export class ForegroundServiceController {
+    private _service: android.app.Service | null = null;
+    private _starting = false;
+    private _streaming = false;
+    private _wakeLock: android.os.PowerManager.WakeLock;
+    private _wifiLock: android.net.wifi.WifiManager.WifiLock;
+
+    constructor(
+        private _host: MediaSessionHost,
+        private _session: MediaSessionController,
+        private _onCommand: (data: RemoteCommandEventData) => void,
+        private _icon?: string
+    ) {
+        if (activeController && activeController !== this) {
+            activeController.dispose();
+        }
+        activeController = this;
+        this._session.onMetadataChanged = () => this._updateNotification();
+        this._host.events.on(AudioPlayerEvents.stateChanged, this._onStateChanged, this);
+    }
+
+    /**
+     * Set when the loading file streams from the network, the wake and Wi-Fi locks are only held then.
+     */
+    set streaming(value: boolean) {
+        this._streaming = value;
+        this._updateLocks();
+    }
+
+    dispose() {
+        try {
+            this._host.events.off(AudioPlayerEvents.stateChanged, this._onStateChanged, this);
+            this._session.onMetadataChanged = undefined;
+            this._streaming = false;
+            this._updateLocks();
+            if (this._service) {
+                this._stopForeground(true);
+                this._service.stopSelf();
+                this._service = null;
+            }
+            this._notificationManager().cancel(NOTIFICATION_ID);
+            if (activeController === this) {
+                activeController = null;
+            }
+        } catch (error) {
+            console.error('[Code error AR34] Error stopping playback service:', error);
+        }
+    }
+
+    _onServiceStarted(service: android.app.Service, action: string | null) {
+        const firstStart = !this._service;
+        this._service = service;
+        this._starting = false;
+        if (firstStart) {
+            // startForegroundService() expects startForeground() even when paused meanwhile
+            this._startForeground();
+            if (!this._isPlaying()) {
+                this._stopForeground(false);
+            }
+        }
+        const command = action && NOTIFICATION_COMMANDS[action];
+        if (command) {
+            this._onCommand(command);
+        }
+        if (action === ACTION_STOP && this._service) {
+            // the notification was dismissed, the service is started again on the next play
+            this._stopForeground(true);
+            this._service.stopSelf();
+            this._service = null;
+        }
+    }
+
+    _onServiceDestroyed(service: android.app.Service) {
+        if (this._service === service) {
+            this._service = null;
+        }
+    }
+
+    private _onStateChanged() {
+        try {
+            this._updateLocks();
+            if (this._isPlaying()) {
+                this._startForeground();
+            } else if (this._service) {
+                // keep the notification so playback can be resumed from it, but let it be swiped away
+                this._stopForeground(false);
+                this._updateNotification();
+            }
+        } catch (error) {
+            console.error('[Code error AR35] Error updating playback service:', error);
+        }
+    }
+
+    private _isPlaying(): boolean {
+        return this._host.state === PlayerState.Playing || this._host.state === PlayerState.Buffering;
+    }
+
+    private _startForeground() {
+        if (!this._service) {
+            if (!this._starting) {
+                this._starting = true;
+                const context = Utils.android.getApplicationContext();
+                const intent = new android.content.Intent(context, PlaybackService.class);
+                try {
+                    if (android.os.Build.VERSION.SDK_INT >= 26) {
+                        context.startForegroundService(intent);
+                    } else {
+                        context.startService(intent);
+                    }
+                } catch (error) {
+                    // e.g. not allowed to start a foreground service from the background (API 31+)
+                    this._starting = false;
+                    console.error('[Code error AR36] Error starting playback service:', error);
+                }
+            }
+            return;
+        }
+        const notification = this._buildNotification();
+        if (android.os.Build.VERSION.SDK_INT >= 29) {
+            this._service.startForeground(NOTIFICATION_ID, notification, android.content.pm.ServiceInfo.FOREGROUND_SERVICE_TYPE_MEDIA_PLAYBACK);
+        } else {
+            this._service.startForeground(NOTIFICATION_ID, notification);
+        }
+    }
+
+    private _stopForeground(removeNotification: boolean) {
+        if (android.os.Build.VERSION.SDK_INT >= 24) {
+            this._service.stopForeground(removeNotification ? android.app.Service.STOP_FOREGROUND_REMOVE : android.app.Service.STOP_FOREGROUND_DETACH);
+        } else {
+            this._service.stopForeground(removeNotification);
+        }
+    }
+
+    private _updateNotification() {
+        if (this._service) {
+            this._notificationManager().notify(NOTIFICATION_ID, this._buildNotification());
+        }
+    }
+
+    private _buildNotification(): android.app.Notification {
+        const context = Utils.android.getApplicationContext();
+        const Notification = android.app.Notification;
+        let builder: android.app.Notification.Builder;
+        if (android.os.Build.VERSION.SDK_INT >= 26) {
+            this._createChannel(context);
+            builder = new Notification.Builder(context, CHANNEL_ID);
+        } else {
+            builder = new Notification.Builder(context);
+        }
+        const info = this._session.info || {};
+        const playing = this._isPlaying();
+        const title = info.title || context.getApplicationInfo().loadLabel(context.getPackageManager()).toString();
+        builder
+            .setSmallIcon(this._iconId(context))
+            .setContentTitle(title)
+            .setContentText(info.artist || info.album || '')
+            .setVisibility(Notification.VISIBILITY_PUBLIC)
+            .setShowWhen(false)
+            .setOngoing(playing)
+            .setDeleteIntent(this._actionIntent(context, ACTION_STOP))
+            .addAction(android.R.drawable.ic_media_rew, 'Skip back', this._actionIntent(context, ACTION_SKIP_BACKWARD))
+            .addAction(playing ? android.R.drawable.ic_media_pause : android.R.drawable.ic_media_play, playing ? 'Pause' : 'Play', this._actionIntent(context, ACTION_TOGGLE))
+            .addAction(android.R.drawable.ic_media_ff, 'Skip forward', this._actionIntent(context, ACTION_SKIP_FORWARD));
+        if (this._session.artwork) {
+            builder.setLargeIcon(this._session.artwork);
+        }
+        const launchIntent = context.getPackageManager().getLaunchIntentForPackage(context.getPackageName());
+        if (launchIntent) {
+            builder.setContentIntent(android.app.PendingIntent.getActivity(context, 0, launchIntent, this._pendingIntentFlags()));
+        }
+        const compactActions = (<any>Array).create('int', 3);
+        [0, 1, 2].forEach(index => compactActions[index] = index);
+        builder.setStyle(new Notification.MediaStyle()
+            .setMediaSession(this._session.sessionToken)
+            .setShowActionsInCompactView(compactActions));
+        return builder.build();
+    }
+
+    private _createChannel(context: android.content.Context) {
+        const manager = this._notificationManager();
+        if (!manager.getNotificationChannel(CHANNEL_ID)) {
+            // low importance: no sound when the notification updates
+            const channel = new android.app.NotificationChannel(CHANNEL_ID, 'Playback', android.app.NotificationManager.IMPORTANCE_LOW);
+            channel.setShowBadge(false);
+            manager.createNotificationChannel(channel);
+        }
+    }
+
+    private _actionIntent(context: android.content.Context, action: string): android.app.PendingIntent {
+        const intent = new android.content.Intent(context, PlaybackService.class);
+        intent.setAction(action);
+        const requestCode = Object.keys(NOTIFICATION_COMMANDS).indexOf(action) + 1;
+        return android.app.PendingIntent.getService(context, requestCode, intent, this._pendingIntentFlags());
+    }
+
+    private _pendingIntentFlags(): number {
+        const PendingIntent = android.app.PendingIntent;
+        return android.os.Build.VERSION.SDK_INT >= 23 ? PendingIntent.FLAG_UPDATE_CURRENT | PendingIntent.FLAG_IMMUTABLE : PendingIntent.FLAG_UPDATE_CURRENT;
+    }
+
+    /**
+     * The `notificationIcon` drawable, the app icon when not set or not found.
+     */
+    private _iconId(context: android.content.Context): number {
+        if (this._icon) {
+            const id = context.getResources().getIdentifier(this._icon, 'drawable', context.getPackageName());
+            if (id) {
+                return id;
+            }
+            console.warn(`[Code warning AR37] Notification icon ${this._icon} not found, using the app icon`);
+        }
+        return context.getApplicationInfo().icon;
+    }
+
+    private _updateLocks() {
+        try {
+            const hold = this._streaming && this._isPlaying();
+            const context = Utils.android.getApplicationContext();
+            if (hold && !this._wakeLock) {
+                const powerManager = <android.os.PowerManager>context.getSystemService(android.content.Context.POWER_SERVICE);
+                this._wakeLock = powerManager.newWakeLock(android.os.PowerManager.PARTIAL_WAKE_LOCK, LOCK_TAG);
+                this._wakeLock.setReferenceCounted(false);
+                const wifiManager = <android.net.wifi.WifiManager>context.getSystemService(android.content.Context.WIFI_SERVICE);
+                this._wifiLock = wifiManager.createWifiLock(android.net.wifi.WifiManager.WIFI_MODE_FULL_HIGH_PERF, LOCK_TAG);
+                this._wifiLock.setReferenceCounted(false);
+            }
+            if (hold) {
+                this._wakeLock.acquire();
+                this._wifiLock.acquire();
+            } else if (this._wakeLock) {
+                if (this._wakeLock.isHeld()) {
+                    this._wakeLock.release();
+                }
+                if (this._wifiLock.isHeld()) {
+                    this._wifiLock.release();
+                }
+            }
+        } catch (error) {
+            console.error('[Code error AR38] Error updating wake locks:', error);
+        }
+    }
+
+    private _notificationManager(): android.app.NotificationManager {
+        const context = Utils.android.getApplicationContext();
+        return <android.app.NotificationManager>context.getSystemService(android.content.Context.NOTIFICATION_SERVICE);
+    }
+}
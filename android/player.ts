@@ -1,6 +1,27 @@
-import { Application, EventData, Observable, Utils } from '@nativescript/core';
-import { resolveAudioFilePath, TNSPlayerI } from '../common';
+import { Application, EventData, Http, Observable, Utils } from '@nativescript/core';
+import { AudioEffects, AudioEffectsSettings } from '../audio-effects';
+import { AudioCache } from '../cache';
+import { AudioChapter, ChapterChangedEventData, ChapterTracker, id3TagSize, parseId3Chapters, parseJsonChapters } from '../chapters';
+import { isStringUrl, resolveAudioFilePath, resolveLocalAudioFilePath, TNSPlayerI } from '../common';
+import { AudioPlayerError, AudioPlayerErrorCode } from '../errors';
+import { handleRemoteCommand, nowPlayingInfo, RemoteCommandEventData } from '../media-session';
+import { MeteringEmitter, MeteringEventData, MIN_POWER, powerFromMillibels } from '../metering';
 import { AudioPlayerEvents, AudioPlayerOptions } from '../options';
+import { PlaybackPolicy, playerRegistry } from '../player-registry';
+import { PlayerState, PlayerStateMachine, PREPARED_STATES, StateChangedEventData } from '../player-state';
+import { PlaybackProgressStore } from '../progress';
+import { GaveUpEventData, RecoveredEventData, RecoveringEventData, StreamRecovery } from '../recovery';
+import { isUnauthorized, RequestHeaders } from '../request-headers';
+import { SkipHandler, SkippedEventData } from '../skip';
+import { SleepTimer, SleepTimerEventData, SleepTimerOptions } from '../sleep-timer';
+import { resolveStreamSource, StreamSource, StreamSourceType } from '../stream-source';
+import { TimeUpdateEmitter, TimeUpdateEventData } from '../time-update';
+import { Crossfade, TransitionController, TransitionEventData, TransitionMode } from '../transitions';
+import { VolumeFader } from '../volume-fade';
+import { AudioEffectsController } from './audio-effects';
+import { cacheProxy } from './cache-proxy';
+import { MediaSessionController } from './media-session';
+import { ForegroundServiceController } from './playback-service';
 
 export enum AudioFocusDurationHint {
     AUDIOFOCUS_GAIN = android.media.AudioManager.AUDIOFOCUS_GAIN,
@@ -192,14 +213,86 @@ function getGlobalMixingManager(): AudioFocusManager {
     }
 }
 
+/**
+ * Error code for the `what`/`extra` pair of a MediaPlayer error.
+ */
+function mediaPlayerErrorCode(what: number, extra: number): AudioPlayerErrorCode {
+    switch (extra) {
+        case android.media.MediaPlayer.MEDIA_ERROR_IO:
+            return AudioPlayerErrorCode.NetworkFailure;
+        case android.media.MediaPlayer.MEDIA_ERROR_TIMED_OUT:
+            return AudioPlayerErrorCode.Timeout;
+        case android.media.MediaPlayer.MEDIA_ERROR_MALFORMED:
+            return AudioPlayerErrorCode.DecodeFailed;
+        case android.media.MediaPlayer.MEDIA_ERROR_UNSUPPORTED:
+            return AudioPlayerErrorCode.UnsupportedFormat;
+    }
+    return AudioPlayerErrorCode.PlaybackFailed;
+}
+
+/**
+ * Wraps an error thrown while loading a data source, using the java exception when there is one.
+ */
+function toLoadError(error: any): AudioPlayerError {
+    const exception = error && error.nativeException;
+    let code = AudioPlayerErrorCode.SourceUnavailable;
+    if (exception instanceof java.lang.SecurityException) {
+        code = AudioPlayerErrorCode.PermissionDenied;
+    } else if (exception instanceof java.lang.IllegalStateException) {
+        code = AudioPlayerErrorCode.NotInitialized;
+    } else if (exception instanceof java.lang.IllegalArgumentException) {
+        code = AudioPlayerErrorCode.InvalidArgument;
+    }
+    return AudioPlayerError.from(exception || error, code);
+}
+
 export class TNSPlayer implements TNSPlayerI {
+    /**
+     * What happens to the other players of the app when this one starts, see `playerRegistry`.
+     * Null for the registry `policy`.
+     */
+    playbackPolicy: PlaybackPolicy | null = null;
     private _mediaPlayer: android.media.MediaPlayer;
     private _lastPlayerVolume; // ref to the last volume setting so we can reset after ducking
+    private _volume = 1;
+    private _duckVolume = 1;
     private _wasPlaying = false;
     private _events: Observable;
     private _options: AudioPlayerOptions;
     private _audioFocusManager: AudioFocusManager | null;
-    _isPrepared: boolean;
+    private _playbackRate = 1;
+    private _chapterTracker: ChapterTracker;
+    private _progressStore: PlaybackProgressStore | null;
+    private _audioCache: AudioCache | null = null;
+    private _progressTimer: any;
+    private _sleepTimer: SleepTimer;
+    private _loopCount = 0;
+    private _timeUpdates: TimeUpdateEmitter;
+    private _metering: MeteringEmitter;
+    private _visualizer: android.media.audiofx.Visualizer | null = null;
+    private _audioEffects: AudioEffects;
+    private _effectsController: AudioEffectsController | null = null;
+    private _skipHandler: SkipHandler;
+    private _transitions: TransitionController;
+    private _crossfade: Crossfade;
+    private _nextOptions: AudioPlayerOptions | null = null;
+    private _nextPlayer: android.media.MediaPlayer | null = null;
+    private _nextPrepared = false;
+    private _rejectNext: (error: AudioPlayerError) => void;
+    private _fadingPlayer: android.media.MediaPlayer | null = null;
+    private _fader: VolumeFader;
+    private _sleepFader: VolumeFader;
+    private _pausing: Promise<any> | null = null;
+    private _recovery: StreamRecovery;
+    private _rejectRecovery: (error: AudioPlayerError) => void;
+    private _source: StreamSource | null = null;
+    private _authRetried = false;
+    private _live = false;
+    private _bufferedPercent = 0;
+    private _rejectLoad: (error: AudioPlayerError) => void;
+    private _stateMachine: PlayerStateMachine;
+    private _mediaSession: MediaSessionController | null = null;
+    private _foregroundService: ForegroundServiceController | null = null;
 
     constructor(
         durationHint:
@@ -208,7 +301,9 @@ export class TNSPlayer implements TNSPlayerI {
     ) {
         try {
             this._wasPlaying = false;
-            this._isPrepared = false;
+            this._stateMachine = new PlayerStateMachine(
+                (data: StateChangedEventData) => this._sendEvent(AudioPlayerEvents.stateChanged, data)
+            );
             if (!(durationHint instanceof AudioFocusManager)) {
                 this.setAudioFocusManager(new AudioFocusManager({
                     durationHint: durationHint
@@ -219,6 +314,52 @@ export class TNSPlayer implements TNSPlayerI {
             if (!this._events) {
                 this._events = new Observable();
             }
+            this._chapterTracker = new ChapterTracker(
+                () => this.currentTime,
+                () => this._playbackRate,
+                () => this.isAudioPlaying(),
+                (data: ChapterChangedEventData) => this._sendEvent(AudioPlayerEvents.chapterChanged, data)
+            );
+            this._sleepFader = new VolumeFader(() => this._applyVolume());
+            this._sleepTimer = new SleepTimer(
+                this,
+                this._sleepFader,
+                () => this._playbackRate,
+                (data: SleepTimerEventData) => this._sendEvent(AudioPlayerEvents.sleepTimerTick, data),
+                (data: SleepTimerEventData) => this._sendEvent(AudioPlayerEvents.sleepTimerFired, data)
+            );
+            this._timeUpdates = new TimeUpdateEmitter(
+                () => this._timeUpdateData(),
+                (data: TimeUpdateEventData) => this._sendEvent(AudioPlayerEvents.timeUpdate, data)
+            );
+            this._metering = new MeteringEmitter(
+                this,
+                () => this._meteringLevels(),
+                (data: MeteringEventData) => this._sendEvent(AudioPlayerEvents.metering, data)
+            );
+            this._audioEffects = new AudioEffects((settings: AudioEffectsSettings) => {
+                this._updateAudioEffects();
+                this._sendEvent(AudioPlayerEvents.effectsChanged, settings);
+            });
+            this._skipHandler = new SkipHandler(
+                this,
+                (data: SkippedEventData) => this._sendEvent(AudioPlayerEvents.skipped, data)
+            );
+            // gapless needs no timing, setNextMediaPlayer starts the next item on its own
+            this._transitions = new TransitionController(this, 0, (remaining: number) => this._onTransitionDue(remaining));
+            this._crossfade = new Crossfade();
+            this._fader = new VolumeFader(() => this._applyVolume());
+            this._recovery = new StreamRecovery(
+                this,
+                () => this._recoverStream(),
+                (data: RecoveringEventData) => this._sendEvent(AudioPlayerEvents.recovering, data),
+                (data: RecoveredEventData) => this._sendEvent(AudioPlayerEvents.recovered, data),
+                (data: GaveUpEventData) => {
+                    this._sendEvent(AudioPlayerEvents.gaveUp, data);
+                    this._failPlayback(this._mediaPlayer, data.error);
+                }
+            );
+            playerRegistry.register(this);
         } catch (error) {
             console.error('[Code error AR75] Error creating TNSPlayer:', error);
             throw error;
@@ -257,7 +398,9 @@ export class TNSPlayer implements TNSPlayerI {
     set volume(value: number) {
         try {
             if (this._player && value >= 0) {
-                this._player.setVolume(value, value);
+                this._volume = value;
+                this._applyVolume();
+                this._sendEvent(AudioPlayerEvents.volumeChanged, { volume: value });
             } else {
                 console.error('[Code error AR82] - Player is not initialized');
             }
@@ -269,7 +412,10 @@ export class TNSPlayer implements TNSPlayerI {
 
     public get duration(): number {
         try {
-            if (this._player) {
+            if (this._recovery.active) {
+                return this._recovery.duration;
+            }
+            if (this._player && !this._live) {
                 return this._player.getDuration() / 1000;
             }
             else {
@@ -283,7 +429,11 @@ export class TNSPlayer implements TNSPlayerI {
 
     get currentTime(): number {
         try {
-            if (!this._isPrepared || !this._player) {
+            if (this._recovery.active) {
+                // the stream is prepared again, the position is where it picks up
+                return this._recovery.position;
+            }
+            if (!this._stateMachine.isPrepared || !this._player) {
                 console.warn('[Code warning AR85] Player is not prepared or initialized');
                 return 0;
             }
@@ -294,6 +444,176 @@ export class TNSPlayer implements TNSPlayerI {
         }
     }
 
+    get state(): PlayerState {
+        return this._stateMachine.state;
+    }
+
+    /**
+     * Whether the current item is a live stream, known once it is prepared. Live streams have
+     * a `duration` of 0 and cannot seek.
+     */
+    get isLive(): boolean {
+        return this._live;
+    }
+
+    /**
+     * The speed set with `changePlayerSpeed`, 1 by default.
+     */
+    get playbackRate(): number {
+        return this._playbackRate;
+    }
+
+    get chapters(): AudioChapter[] {
+        return this._chapterTracker.chapters;
+    }
+
+    get currentChapter(): AudioChapter | null {
+        return this._chapterTracker.current;
+    }
+
+    get currentChapterIndex(): number {
+        return this._chapterTracker.currentIndex;
+    }
+
+    /**
+     * Milliseconds between two `timeUpdate` events while playing, 0 turns them off.
+     */
+    get timeUpdateInterval(): number {
+        return this._timeUpdates.interval;
+    }
+
+    set timeUpdateInterval(value: number) {
+        this._timeUpdates.interval = value;
+    }
+
+    /**
+     * Equalizer, bass boost and loudness, kept when another file is loaded.
+     */
+    get audioEffects(): AudioEffects {
+        return this._audioEffects;
+    }
+
+    /**
+     * Milliseconds between two `metering` events while playing with `metering` on, 0 turns them off.
+     */
+    get meteringInterval(): number {
+        return this._metering.interval;
+    }
+
+    set meteringInterval(value: number) {
+        this._metering.interval = value;
+    }
+
+    /**
+     * Seconds skipped by `skipForward()` and the remote skip forward buttons, 30 by default.
+     */
+    get skipForwardInterval(): number {
+        return this._skipHandler.forwardInterval;
+    }
+
+    set skipForwardInterval(value: number) {
+        this._skipHandler.forwardInterval = value;
+    }
+
+    /**
+     * Seconds skipped by `skipBackward()` and the remote skip back buttons, 15 by default.
+     */
+    get skipBackwardInterval(): number {
+        return this._skipHandler.backwardInterval;
+    }
+
+    set skipBackwardInterval(value: number) {
+        this._skipHandler.backwardInterval = value;
+    }
+
+    /**
+     * How the player moves on to the item set with `setNextItem`, `TransitionMode.None` by default.
+     */
+    get transitionMode(): TransitionMode {
+        return this._transitions.mode;
+    }
+
+    set transitionMode(value: TransitionMode) {
+        const wasOn = this._transitions.mode !== TransitionMode.None;
+        this._transitions.mode = value;
+        if (wasOn !== (this._transitions.mode !== TransitionMode.None)) {
+            this._prepareNext().catch(error => console.error('[Code error AR54] Error preparing the next item:', error));
+        } else {
+            this._chainNext();
+        }
+    }
+
+    /**
+     * Seconds over which two items are crossfaded, 6 by default.
+     */
+    get crossfadeDuration(): number {
+        return this._transitions.crossfadeDuration;
+    }
+
+    set crossfadeDuration(value: number) {
+        this._transitions.crossfadeDuration = value;
+    }
+
+    /**
+     * The item set with `setNextItem`, null when there is none.
+     */
+    get nextItem(): AudioPlayerOptions | null {
+        return this._nextOptions;
+    }
+
+    get sleepTimerActive(): boolean {
+        return this._sleepTimer.active;
+    }
+
+    /**
+     * Seconds left before the sleep timer pauses playback, -1 when no timer is set.
+     */
+    get sleepTimerRemaining(): number {
+        return this._sleepTimer.remaining;
+    }
+
+    get progressStore(): PlaybackProgressStore | null {
+        return this._progressStore;
+    }
+
+    /**
+     * Saves the playback position of each episode in the given store and resumes from it
+     * on the next `playFromUrl`/`initFromUrl` of the same episode. Pass null to turn it off.
+     */
+    public setProgressStore(store: PlaybackProgressStore | null) {
+        try {
+            this._stopProgressTimer();
+            this._progressStore = store;
+            if (this.isAudioPlaying()) {
+                this._startProgressTimer();
+            }
+        } catch (error) {
+            console.error('[Code error AR22] Error setting progress store:', error);
+            throw error;
+        }
+    }
+
+    get audioCache(): AudioCache | null {
+        return this._audioCache;
+    }
+
+    /**
+     * Caches the remote files this player streams, see `AudioCache`. Pass null to stop caching,
+     * files cached already are still played from disk until the cache is disposed.
+     */
+    public setAudioCache(cache: AudioCache | null) {
+        this._audioCache = cache;
+    }
+
+    /**
+     * Scales the volume while another player ducks this one, set by `playerRegistry`.
+     * @param factor - From 0 to 1, 1 for the volume set by the user.
+     */
+    public setDuckVolume(factor: number) {
+        this._duckVolume = Math.min(Math.max(factor, 0), 1);
+        this._applyVolume();
+    }
+
     public setAudioFocusManager(manager: AudioFocusManager) {
         try {
             var _a, _b, _c;
@@ -310,6 +630,35 @@ export class TNSPlayer implements TNSPlayerI {
         }
     }
 
+    /**
+     * Initializes the player with a local file, will not start playing audio.
+     * @param options
+     */
+    public initFromFile(options: AudioPlayerOptions): Promise<any> {
+        options.autoPlay = false;
+        return this.playFromFile(options);
+    }
+
+    /**
+     * Starts playing a local file: `~/` paths are in the app folder, relative paths in the
+     * documents folder, absolute paths and `file://` urls are used as they are.
+     * @param options
+     */
+    public playFromFile(options: AudioPlayerOptions): Promise<any> {
+        try {
+            const path = resolveLocalAudioFilePath(options.audioFile);
+            const fileError = this._localFileError(options.audioFile, path);
+            if (fileError) {
+                console.error('[Code error AR25] Cannot play audio file:', fileError.message);
+                return Promise.reject(fileError);
+            }
+            return this.playFromUrl(options);
+        } catch (error) {
+            console.error('[Code error AR26] Error playing audio from file:', error);
+            return Promise.reject(toLoadError(error));
+        }
+    }
+
     /**
      * Initializes the player with options, will not start playing audio.
      * @param options
@@ -321,7 +670,7 @@ export class TNSPlayer implements TNSPlayerI {
                 this.playFromUrl(options).then(resolve, reject);
             } catch (error) {
                 console.error('[Code error AR89] Error initializing audio from URL:', error);
-                reject(error);
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.SourceUnavailable));
                 throw error;
             }
         });
@@ -330,7 +679,26 @@ export class TNSPlayer implements TNSPlayerI {
     public playFromUrl(options: AudioPlayerOptions): Promise<any> {
         return new Promise((resolve, reject) => {
             try {
-                this._options = options;
+                this._crossfade.finish();
+                this._fader.cancel();
+                this._recovery.cancel();
+                this._rejectRecovery = undefined;
+                this._saveProgress();
+                this._stopProgressTimer();
+                this._timeUpdates.stop();
+                this._skipHandler.cancel('Another audio file was loaded');
+                // the next item followed the previous one
+                this._nextOptions = null;
+                this._releaseNext();
+                if (this._rejectLoad) {
+                    // the previous file never prepares once the player is reset
+                    this._rejectLoad(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'Another audio file was loaded'));
+                    this._rejectLoad = undefined;
+                }
+                this._releaseVisualizer();
+                // registered again after a dispose
+                playerRegistry.register(this);
+                this._useItemOptions(options);
                 if (options.autoPlay !== false) {
                     options.autoPlay = true;
                 }
@@ -338,55 +706,131 @@ export class TNSPlayer implements TNSPlayerI {
 
                 const player = this._player;
                 if (!player) {
-                    reject(new Error('MediaPlayer not initialized'));
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.NotInitialized, 'MediaPlayer not initialized'));
                     return;
                 }
+                // MediaPlayer reports asynchronous load failures through its error listener
+                this._rejectLoad = reject;
+                this._stateMachine.transition(PlayerState.Loading);
 
                 player.reset();
                 player.setAudioStreamType(android.media.AudioManager.STREAM_MUSIC);
-                player.setDataSource(audioPath);
 
-                this._isPrepared = false;
-
-                if (Utils.isFileOrResourcePath(audioPath)) {
-                    player.prepare();
-                } else {
-                    player.prepareAsync();
-                }
+                this._loopCount = 0;
+                this._bufferedPercent = 0;
+                this._live = false;
+                this._source = null;
+                const isLocalFile = Utils.isFileOrResourcePath(audioPath);
 
                 player.setOnPreparedListener(new android.media.MediaPlayer.OnPreparedListener({
                     onPrepared: mp => {
                         console.log("MediaPlayer is prepared.");
-                        this._isPrepared = true;
+                        this._rejectLoad = undefined;
+                        this._authRetried = false;
+                        // MediaPlayer has no duration for live streams
+                        this._live = !isLocalFile && mp.getDuration() <= 0;
+                        this._stateMachine.transition(PlayerState.Ready);
+                        this._sendEvent(AudioPlayerEvents.prepared, { duration: this.duration, live: this._live });
+                        if (options.metering) {
+                            this._createVisualizer(mp);
+                        }
+                        this._updateAudioEffects();
+                        // a next item set while loading
+                        this._chainNext();
+                        if (isLocalFile) {
+                            // local files are never buffered, report them as fully loaded
+                            this._bufferedPercent = 100;
+                            this._sendEvent(AudioPlayerEvents.progress, { bufferedPercent: 100, bufferedRanges: [{ start: 0, end: this.duration }] });
+                        }
+                        this._chapterTracker.update();
+                        this._resumeSavedPosition();
+                        this._cacheItem(options);
+                        this._skipHandler.onPrepared();
                         if (options.autoPlay) {
                             this.play();
                         }
                         resolve(null);
                     }
                 }));
+                this._listenToBuffering(player, options);
 
-                if (options.infoCallback) {
-                    player.setOnInfoListener(new android.media.MediaPlayer.OnInfoListener({
-                        onInfo: (player, info, extra) => {
-                            options.infoCallback({ player, info, extra });
-                            return true;
+                if (isLocalFile) {
+                    player.setDataSource(audioPath);
+                    player.prepare();
+                } else {
+                    this._authRetried = false;
+                    this._prepareRemote(player, options).catch(error => {
+                        if (options !== this._options) {
+                            return;
                         }
-                    }));
+                        console.error('[Code error AR70] Error resolving the stream:', error);
+                        this._failPlayback(player, AudioPlayerError.from(error, AudioPlayerErrorCode.SourceUnavailable));
+                    });
                 }
             } catch (error) {
                 console.error('[Code error AR88] Error playing audio from URL:', error);
                 this._abandonAudioFocus();
-                reject(error);
+                this._rejectLoad = undefined;
+                this._stateMachine.transition(PlayerState.Error);
+                this._skipHandler.cancel('The audio file could not be loaded');
+                const loadError = toLoadError(error);
+                this._notifyError(loadError);
+                reject(loadError);
             }
         });
     }
 
+    /**
+     * Pauses playback, after ramping the volume down when `fadeOutDuration` is set.
+     * @returns true once paused, false when `play()` was called during the fade and playback went on
+     */
     public pause(): Promise<any> {
+        if (this._pausing) {
+            return this._pausing;
+        }
+        // carry on with the incoming item alone
+        this._crossfade.finish();
+        const fadeOutDuration = this._options ? this._options.fadeOutDuration : 0;
+        if (!(fadeOutDuration > 0) || !this.isAudioPlaying()) {
+            return this._pause();
+        }
+        const pausing = this._fader.fadeTo(0, fadeOutDuration).then(faded => {
+            if (this._pausing === pausing) {
+                this._pausing = null;
+            }
+            return faded ? this._pause() : false;
+        });
+        this._pausing = pausing;
+        return pausing;
+    }
+
+    private _pause(): Promise<any> {
         return new Promise((resolve, reject) => {
             try {
+                // stays silent, play() sets the volume again
+                this._fader.cancel(this._fader.factor);
+                const stateError = this._stateMachine.check('pause', PREPARED_STATES);
+                if (stateError) {
+                    reject(stateError);
+                    return;
+                }
+                if (this._recovery.active) {
+                    // picks up paused once recovered
+                    this._recovery.resume = false;
+                    if (this._stateMachine.transition(PlayerState.Paused)) {
+                        this._sendEvent(AudioPlayerEvents.paused);
+                    }
+                    resolve(true);
+                    return;
+                }
                 if (this._player && this._player.isPlaying()) {
                     this._player.pause();
+                    this._stateMachine.transition(PlayerState.Paused);
                     this._abandonAudioFocus(true);
+                    this._chapterTracker.update();
+                    this._saveProgress();
+                    this._stopProgressTimer();
+                    this._timeUpdates.stop();
                     this._sendEvent(AudioPlayerEvents.paused);
                 } else {
                     console.error('[Code error AR61] - Player is not initialized or not playing');
@@ -394,7 +838,7 @@ export class TNSPlayer implements TNSPlayerI {
                 resolve(true);
             } catch (ex) {
                 console.error('[Code error AR63] Error pausing audio:', ex);
-                reject(ex);
+                reject(AudioPlayerError.from(ex, AudioPlayerErrorCode.PlaybackFailed));
             }
         });
     }
@@ -403,8 +847,29 @@ export class TNSPlayer implements TNSPlayerI {
         return new Promise((resolve, reject) => {
             try {
                 const player = this._player;
-                if (!player || !this._isPrepared) {
-                    reject(new Error('[Code error AR64] - MediaPlayer is not initialized or not prepared'));
+                if (this._pausing) {
+                    // a fading pause is called off, ramp back up from where it got to
+                    this._pausing = null;
+                    this._fader.fadeTo(1, this._options.fadeInDuration);
+                    resolve(true);
+                    return;
+                }
+                if (this._stateMachine.is(PlayerState.Playing, PlayerState.Buffering)) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.AlreadyPlaying, 'MediaPlayer is already playing'));
+                    return;
+                }
+                const stateError = this._stateMachine.check('play', [PlayerState.Ready, PlayerState.Paused, PlayerState.Completed]);
+                if (!player || stateError) {
+                    console.error('[Code error AR64] - MediaPlayer is not initialized or not prepared');
+                    reject(stateError || new AudioPlayerError(AudioPlayerErrorCode.NotInitialized, 'MediaPlayer is not initialized'));
+                    return;
+                }
+                if (this._recovery.active) {
+                    // starts once recovered, waiting for the stream like any stall
+                    this._recovery.resume = true;
+                    this._stateMachine.transition(PlayerState.Playing);
+                    this._stateMachine.transition(PlayerState.Buffering);
+                    resolve(true);
                     return;
                 }
 
@@ -414,13 +879,15 @@ export class TNSPlayer implements TNSPlayerI {
                     }
                     const audioFocusGranted = this._requestAudioFocus();
                     if (!audioFocusGranted) {
-                        reject(new Error('Could not request audio focus'));
+                        reject(new AudioPlayerError(AudioPlayerErrorCode.FocusDenied, 'Could not request audio focus'));
                         return;
                     }
 
                     Application.android.foregroundActivity.setVolumeControlStream(android.media.AudioManager.STREAM_MUSIC);
                     Application.android.registerBroadcastReceiver(android.media.AudioManager.ACTION_AUDIO_BECOMING_NOISY, (context, intent) => {
-                        this.pause();
+                        // no fade out through the speaker once the headphones are unplugged
+                        this._fader.cancel(0);
+                        this._pause();
                     });
 
                     if (this._options?.pitch) {
@@ -429,25 +896,42 @@ export class TNSPlayer implements TNSPlayerI {
                         player.setPlaybackParams(playbackParams);
                     }
 
+                    const fadeInDuration = this._options.fadeInDuration;
+                    this._fader.cancel(fadeInDuration > 0 ? 0 : 1);
                     player.start();
+                    this._fader.fadeTo(1, fadeInDuration);
+                    this._stateMachine.transition(PlayerState.Playing);
+                    this._chapterTracker.update();
+                    this._startProgressTimer();
+                    this._timeUpdates.start();
                     this._sendEvent(AudioPlayerEvents.started);
                 }
 
                 resolve(true);
             } catch (error) {
                 console.error('[Code error AR65] Error playing audio:', error);
-                reject(error);
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.PlaybackFailed));
             }
         });
     }
 
     public resume(): void {
         try {
-            if (this._player) {
+            if (this._recovery.active) {
+                this._recovery.resume = true;
+                return;
+            }
+            if (this._player && this._stateMachine.is(PlayerState.Ready, PlayerState.Paused, PlayerState.Completed)) {
                 this._requestAudioFocus();
+                this._fader.cancel();
+                this._player.start();
+                this._stateMachine.transition(PlayerState.Playing);
+                this._chapterTracker.update();
+                this._startProgressTimer();
+                this._timeUpdates.start();
                 this._sendEvent(AudioPlayerEvents.started);
             } else {
-                console.error('[Code error AR01] - Player is not initialized');
+                console.error(`[Code error AR01] - Player is not initialized or cannot resume while ${this.state}`);
             }
         } catch (error) {
             console.error('[Code error AR02] Error resuming audio:', error);
@@ -455,12 +939,53 @@ export class TNSPlayer implements TNSPlayerI {
         }
     }
 
+    /**
+     * Moves the playback position. While playing with `seekFadeDuration` set, the volume dips
+     * around the seek, which happens once it is silent.
+     * @param time - Position in seconds, it was milliseconds in earlier versions.
+     */
     public seekTo(time: number): Promise<any> {
+        this._crossfade.finish();
+        const seekFadeDuration = this._options ? this._options.seekFadeDuration : 0;
+        if (!(seekFadeDuration > 0) || this._pausing || !this.isAudioPlaying()) {
+            return this._seekTo(time);
+        }
+        return this._fader.fadeTo(0, seekFadeDuration / 2).then(faded => {
+            const seeked = this._seekTo(time);
+            if (faded) {
+                // another play, pause or seek took over the volume otherwise
+                this._fader.fadeTo(1, seekFadeDuration / 2);
+            }
+            return seeked;
+        });
+    }
+
+    private _seekTo(time: number): Promise<any> {
         return new Promise((resolve, reject) => {
             try {
+                const stateError = this._stateMachine.check('seek', PREPARED_STATES);
+                if (stateError) {
+                    reject(stateError);
+                    return;
+                }
+                if (this._live) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'Live streams cannot seek'));
+                    return;
+                }
+                if (this._recovery.active) {
+                    // sought to once recovered
+                    this._recovery.position = time;
+                    this._chapterTracker.update(time);
+                    this._sendEvent(AudioPlayerEvents.seek, { time });
+                    resolve(true);
+                    return;
+                }
                 if (this._player) {
-                    this._player.seekTo(time);
-                    this._sendEvent(AudioPlayerEvents.seek);
+                    // MediaPlayer seeks in milliseconds
+                    this._player.seekTo(Math.round(time * 1000));
+                    this._chapterTracker.update(time);
+                    this._sendEvent(AudioPlayerEvents.seek, { time });
+                    this._timeUpdates.emit();
                 } else {
                     console.error('[Code error AR03] - Player is not initialized');
                 }
@@ -468,12 +993,51 @@ export class TNSPlayer implements TNSPlayerI {
             }
             catch (error) {
                 console.error('[Code error AR04] Error seeking audio:', error);
-                reject(error);
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.PlaybackFailed));
                 throw error;
             }
         });
     }
 
+    /**
+     * Moves the playback position forward, up to the end of the file. While the file is still
+     * loading, the skip is applied once it is prepared.
+     * @param seconds - Defaults to `skipForwardInterval`.
+     * @returns the new position in seconds
+     */
+    public skipForward(seconds?: number): Promise<number> {
+        return this._skipHandler.forward(seconds);
+    }
+
+    /**
+     * Moves the playback position back, down to the start of the file.
+     * @param seconds - Defaults to `skipBackwardInterval`.
+     * @returns the new position in seconds
+     */
+    public skipBackward(seconds?: number): Promise<number> {
+        return this._skipHandler.backward(seconds);
+    }
+
+    /**
+     * Average power in dBFS, from -160 (silence) to 0. Needs the `metering` option, -160 without it.
+     * The Visualizer measures the mixed output, so every channel has the same level.
+     * @param channel - Defaults to 0, the first channel.
+     */
+    public getAveragePower(channel: number = 0): number {
+        const levels = channel >= 0 ? this._meteringLevels() : null;
+        return levels ? levels.averagePower[0] : MIN_POWER;
+    }
+
+    /**
+     * Peak power in dBFS, from -160 (silence) to 0. Needs the `metering` option, -160 without it.
+     * The Visualizer measures the mixed output, so every channel has the same level.
+     * @param channel - Defaults to 0, the first channel.
+     */
+    public getPeakPower(channel: number = 0): number {
+        const levels = channel >= 0 ? this._meteringLevels() : null;
+        return levels ? levels.peakPower[0] : MIN_POWER;
+    }
+
     public changePlayerSpeed(speed) {
         try {
             var _a, _b;
@@ -485,6 +1049,9 @@ export class TNSPlayer implements TNSPlayerI {
                     this._player.setPlaybackParams(this._player.getPlaybackParams().setSpeed(speed));
                     (_b = this._player) === null || _b === void 0 ? void 0 : _b.pause();
                 }
+                this._playbackRate = speed;
+                this._chapterTracker.update();
+                this._sendEvent(AudioPlayerEvents.rateChanged, { rate: speed });
             }
             else {
                 console.warn('Android device API is not 23+. Cannot set the playbackRate on lower Android APIs.');
@@ -498,6 +1065,21 @@ export class TNSPlayer implements TNSPlayerI {
     public dispose(): Promise<any> {
         return new Promise((resolve, reject) => {
             try {
+                this._saveProgress();
+                this._stopProgressTimer();
+                this._timeUpdates.stop();
+                this._sleepTimer.cancel();
+                this._skipHandler.cancel('The player was disposed');
+                this._crossfade.finish();
+                this._fader.cancel();
+                this._recovery.cancel();
+                this._rejectRecovery = undefined;
+                this._nextOptions = null;
+                this._releaseNext();
+                this._chapterTracker.reset();
+                this._stateMachine.transition(PlayerState.Disposed);
+                playerRegistry.unregister(this);
+                this._releaseMediaSession();
                 if (this._player) {
                     this._player.stop();
                     this._player.reset();
@@ -505,6 +1087,7 @@ export class TNSPlayer implements TNSPlayerI {
                     Application.android.unregisterBroadcastReceiver(android.media.AudioManager.ACTION_AUDIO_BECOMING_NOISY);
                     this._abandonAudioFocus();
                     this.setAudioFocusManager(null);
+                    this._sendEvent(AudioPlayerEvents.disposed);
                 } else {
                     console.error('[Code error AR05] - Player is not initialized');
                 }
@@ -512,12 +1095,113 @@ export class TNSPlayer implements TNSPlayerI {
             }
             catch (error) {
                 console.error('[Code error AR06] Error disposing audio:', error);
-                reject(error);
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.NotInitialized));
                 throw error;
             }
         });
     }
 
+    /**
+     * Pauses playback after a number of minutes, or at the end of the current episode or chapter.
+     * Replaces any running sleep timer.
+     */
+    public startSleepTimer(options: SleepTimerOptions) {
+        this._sleepTimer.start(options);
+    }
+
+    /**
+     * Adds minutes to the running sleep timer.
+     */
+    public extendSleepTimer(minutes: number) {
+        this._sleepTimer.extend(minutes);
+    }
+
+    /**
+     * Cancels the sleep timer, restoring the volume if it was fading out.
+     */
+    public cancelSleepTimer() {
+        this._sleepTimer.cancel();
+    }
+
+    /**
+     * Sets the chapters of the current audio file.
+     * @param chapters - A list of chapters or a Podcasting 2.0 JSON chapters document.
+     */
+    public setChapters(chapters: AudioChapter[] | string | any) {
+        try {
+            this._chapterTracker.setChapters(Array.isArray(chapters) ? chapters : parseJsonChapters(chapters));
+            if (this._stateMachine.isPrepared) {
+                this._chapterTracker.update();
+            }
+        } catch (error) {
+            console.error('[Code error AR18] Error setting chapters:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Downloads Podcasting 2.0 JSON chapters and uses them for the current audio file.
+     */
+    public loadChaptersFromUrl(url: string): Promise<AudioChapter[]> {
+        return Http.getJSON(url).then(
+            json => {
+                this.setChapters(parseJsonChapters(json));
+                return this.chapters;
+            },
+            error => Promise.reject(AudioPlayerError.from(error, AudioPlayerErrorCode.NetworkFailure))
+        );
+    }
+
+    /**
+     * Reads the ID3v2 CHAP/CTOC frames of a local file and uses them as chapters.
+     * @param path - The local file, defaults to the current audio file.
+     */
+    public loadChaptersFromFile(path?: string): Promise<AudioChapter[]> {
+        return new Promise((resolve, reject) => {
+            try {
+                const filePath = resolveAudioFilePath(path || (this._options && this._options.audioFile));
+                if (!filePath || !Utils.isFileOrResourcePath(filePath)) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, '[Code error AR19] - Chapters can only be read from a local file'));
+                    return;
+                }
+                this.setChapters(parseId3Chapters(this._readId3Tag(filePath)));
+                resolve(this.chapters);
+            } catch (error) {
+                console.error('[Code error AR20] Error reading chapters from file:', error);
+                reject(toLoadError(error));
+            }
+        });
+    }
+
+    public nextChapter(): Promise<any> {
+        const index = this._chapterTracker.nextIndexAt(this.currentTime);
+        return this.seekToChapter(index !== -1 ? index : this._chapterTracker.chapters.length);
+    }
+
+    public previousChapter(): Promise<any> {
+        return this.seekToChapter(Math.max(0, this._chapterTracker.previousIndexAt(this.currentTime)));
+    }
+
+    public seekToChapter(index: number): Promise<any> {
+        const chapter = this._chapterTracker.chapters[index];
+        if (!chapter) {
+            return Promise.reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `[Code error AR21] - No chapter at index ${index}`));
+        }
+        return this.seekTo(chapter.startTime);
+    }
+
+    /**
+     * Prepares the item to play after the current one on a second MediaPlayer, so that it starts
+     * without a gap or fades in when the current one ends, see `transitionMode`. The player then
+     * fires `transitioned` and keeps playing. Loading another file drops the next item.
+     * @param options - The next item, null to drop it.
+     * @returns resolves once the next item is prepared, right away without a transition mode
+     */
+    public setNextItem(options: AudioPlayerOptions | null): Promise<any> {
+        this._nextOptions = options || null;
+        return this._prepareNext();
+    }
+
     public isAudioPlaying(): boolean {
         try {
             if (this._player) {
@@ -532,15 +1216,17 @@ export class TNSPlayer implements TNSPlayerI {
         }
     }
 
+    /**
+     * Duration in seconds, like `duration` and the position taken by `seekTo`.
+     */
     public getAudioTrackDuration(): Promise<string> {
         return new Promise((resolve, reject) => {
             try {
-                const duration = this._player ? this._player.getDuration() : 0;
-                resolve(duration.toString());
+                resolve(this.duration.toString());
             }
             catch (error) {
                 console.error('[Code error AR08] Error getting audio track duration:', error);
-                reject(error);
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.NotInitialized));
                 throw error;
             }
         });
@@ -584,6 +1270,9 @@ export class TNSPlayer implements TNSPlayerI {
             var _a;
             (_a = this._audioFocusManager) === null || _a === void 0 ? void 0 : _a.abandonAudioFocus(this);
             if (this._mediaPlayer && !preserveMP) {
+                // the Visualizer and the effects are attached to the audio session of the player
+                this._releaseVisualizer();
+                this._releaseAudioEffects();
                 this._mediaPlayer.release();
                 this._mediaPlayer = undefined;
             } else {
@@ -595,34 +1284,551 @@ export class TNSPlayer implements TNSPlayerI {
         }
     }
 
-    private _getAndroidContext() {
+    private _progressKey(options: AudioPlayerOptions = this._options): string | undefined {
+        return options ? options.episodeId || options.audioFile : undefined;
+    }
+
+    /**
+     * Seeks to the position saved for the episode, once the player is prepared.
+     */
+    private _resumeSavedPosition() {
         try {
-            let ctx = Application.android.context;
-            if (!ctx) {
-                ctx = Application.getNativeApplication().getApplicationContext();
+            if (!this._progressStore || !this._options || this._options.resumePosition === false || this._live) {
+                return;
             }
-            if (ctx === null) {
-                setTimeout(() => {
-                    this._getAndroidContext();
-                }, 200);
-                return null;
+            const position = this._progressStore.getResumePosition(this._progressKey());
+            if (position > 0) {
+                this.seekTo(position).catch(error => console.error('[Code error AR23] Error resuming saved position:', error));
             }
-            return ctx || null;
         } catch (error) {
-            console.error('[Code error AR14] Error getting Android context:', error);
-            throw error;
+            console.error('[Code error AR23] Error resuming saved position:', error);
         }
     }
-    /**
-     * This getter will instantiate the MediaPlayer if needed
-     * and register the listeners. This is done here to avoid
-     * code duplication. This is also the reason why we have
-     * a `_options`
-     */
-    private get _player() {
+
+    private _saveProgress() {
         try {
-            if (this._mediaPlayer) {
-                return this._mediaPlayer;  // Return the player if it's already initialized
+            const key = this._progressKey();
+            if (this._progressStore && key && this._stateMachine.isPrepared && this._mediaPlayer && !this._live) {
+                this._progressStore.save(key, this.currentTime, this.duration);
+            }
+        } catch (error) {
+            console.error('[Code error AR24] Error saving playback progress:', error);
+        }
+    }
+
+    private _localFileError(audioFile: string, path: string | null): AudioPlayerError | null {
+        if (!path) {
+            return new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `${audioFile} is not a local file, use playFromUrl`);
+        }
+        const file = new java.io.File(path);
+        if (!file.exists() || file.isDirectory()) {
+            return new AudioPlayerError(AudioPlayerErrorCode.SourceUnavailable, `Audio file not found: ${path}`);
+        }
+        if (!file.canRead()) {
+            return new AudioPlayerError(AudioPlayerErrorCode.PermissionDenied, `Audio file is not readable: ${path}`);
+        }
+        return null;
+    }
+
+    private _cacheItem(options: AudioPlayerOptions) {
+        if (this._audioCache && options.cache !== false && !this._live && isStringUrl(options.audioFile)) {
+            this._audioCache.onPrepared(options);
+        }
+    }
+
+    /**
+     * Reports a playback failure through the `error` event and the `errorCallback`.
+     */
+    private _notifyError(error: AudioPlayerError) {
+        this._sendEvent(AudioPlayerEvents.error, { error });
+        if (this._options && this._options.errorCallback) {
+            this._options.errorCallback({ player: this._player, error });
+        }
+    }
+
+    /**
+     * Takes over the settings of an item that is loaded or transitioned to.
+     */
+    private _useItemOptions(options: AudioPlayerOptions) {
+        this._options = options;
+        if (typeof options.timeUpdateInterval === 'number') {
+            this._timeUpdates.interval = options.timeUpdateInterval;
+        }
+        if (typeof options.meteringInterval === 'number') {
+            this._metering.interval = options.meteringInterval;
+        }
+        this._skipHandler.forwardInterval = options.skipForwardInterval;
+        this._skipHandler.backwardInterval = options.skipBackwardInterval;
+        this._updateMediaSession(options);
+        this._chapterTracker.setChapters(options.chapters);
+    }
+
+    /**
+     * Reports the buffering of a player while it is the current one.
+     */
+    private _listenToBuffering(player: android.media.MediaPlayer, options: AudioPlayerOptions) {
+        player.setOnInfoListener(new android.media.MediaPlayer.OnInfoListener({
+            onInfo: (mp, info, extra) => {
+                if (mp !== this._mediaPlayer) {
+                    return true;
+                }
+                if (info === android.media.MediaPlayer.MEDIA_INFO_BUFFERING_START) {
+                    if (this._stateMachine.is(PlayerState.Playing)) {
+                        this._stateMachine.transition(PlayerState.Buffering);
+                    }
+                    this._sendEvent(AudioPlayerEvents.bufferingStart);
+                } else if (info === android.media.MediaPlayer.MEDIA_INFO_BUFFERING_END) {
+                    // while recovering, playback only goes on once prepared again
+                    if (this._stateMachine.is(PlayerState.Buffering) && !this._recovery.active) {
+                        this._stateMachine.transition(PlayerState.Playing);
+                    }
+                    this._sendEvent(AudioPlayerEvents.bufferingEnd);
+                }
+                if (options.infoCallback) {
+                    options.infoCallback({ player: mp, info, extra });
+                }
+                return true;
+            }
+        }));
+
+        player.setOnBufferingUpdateListener(new android.media.MediaPlayer.OnBufferingUpdateListener({
+            onBufferingUpdate: (mp, percent) => {
+                if (mp !== this._mediaPlayer) {
+                    return;
+                }
+                this._bufferedPercent = percent;
+                // MediaPlayer only reports how far it loaded from the start
+                const duration = this._stateMachine.isPrepared ? this.duration : 0;
+                this._sendEvent(AudioPlayerEvents.progress, { bufferedPercent: percent, bufferedRanges: [{ start: 0, end: (duration * percent) / 100 }] });
+            }
+        }));
+    }
+
+    /**
+     * Prepares `_nextOptions` on a second MediaPlayer while a transition mode is set.
+     */
+    private _prepareNext(): Promise<any> {
+        return new Promise((resolve, reject) => {
+            try {
+                this._releaseNext();
+                const options = this._nextOptions;
+                if (!options || this._transitions.mode === TransitionMode.None) {
+                    resolve(null);
+                    return;
+                }
+                const next = new android.media.MediaPlayer();
+                this._nextPlayer = next;
+                this._rejectNext = reject;
+                this._addPlayerListeners(next);
+                next.setAudioStreamType(android.media.AudioManager.STREAM_MUSIC);
+                next.setVolume(this._volume, this._volume);
+                next.setOnPreparedListener(new android.media.MediaPlayer.OnPreparedListener({
+                    onPrepared: () => {
+                        if (next !== this._nextPlayer) {
+                            return;
+                        }
+                        this._rejectNext = undefined;
+                        this._nextPrepared = true;
+                        this._chainNext();
+                        resolve(null);
+                    }
+                }));
+                const path = resolveAudioFilePath(options.audioFile);
+                const source: Promise<StreamSource> = Utils.isFileOrResourcePath(path)
+                    ? Promise.resolve({ url: path, type: StreamSourceType.Audio, headers: null })
+                    : resolveStreamSource(path, options);
+                source.then(stream => this._cachedSource(options, stream)).then(({ url, headers }) => {
+                    if (next === this._nextPlayer) {
+                        this._setDataSource(next, url, headers);
+                        next.prepareAsync();
+                    }
+                }).catch(error => {
+                    if (next === this._nextPlayer) {
+                        console.error('[Code error AR72] Error preparing the next item:', error);
+                        this._rejectNext = undefined;
+                        this._releaseNext();
+                        reject(toLoadError(error));
+                    }
+                });
+            } catch (error) {
+                console.error('[Code error AR55] Error preparing the next item:', error);
+                this._rejectNext = undefined;
+                this._releaseNext();
+                reject(toLoadError(error));
+            }
+        });
+    }
+
+    /**
+     * Lets MediaPlayer start the prepared next item on its own when gapless, and waits for the
+     * crossfade otherwise. A looping item never moves on.
+     */
+    private _chainNext() {
+        try {
+            const next = this._nextPrepared ? this._nextPlayer : null;
+            if (this._mediaPlayer && this._stateMachine.isPrepared) {
+                const gapless = this._transitions.mode === TransitionMode.Gapless && !(this._options && this._options.loop);
+                this._mediaPlayer.setNextMediaPlayer(gapless ? next : null);
+            }
+            if (next) {
+                this._transitions.arm();
+            } else {
+                this._transitions.disarm();
+            }
+        } catch (error) {
+            console.error('[Code error AR56] Error chaining the next item:', error);
+        }
+    }
+
+    private _releaseNext() {
+        this._transitions.disarm();
+        this._nextPrepared = false;
+        if (this._rejectNext) {
+            this._rejectNext(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The next item was replaced'));
+            this._rejectNext = undefined;
+        }
+        const next = this._nextPlayer;
+        this._nextPlayer = null;
+        if (!next) {
+            return;
+        }
+        try {
+            if (this._mediaPlayer && this._stateMachine.isPrepared) {
+                this._mediaPlayer.setNextMediaPlayer(null);
+            }
+            next.release();
+        } catch (error) {
+            console.error('[Code error AR57] Error releasing the next item:', error);
+        }
+    }
+
+    /**
+     * Starts the crossfade to the prepared next item. Not while the sleep timer waits for the end
+     * of the episode, which then completes as usual.
+     */
+    private _onTransitionDue(remaining: number) {
+        try {
+            const next = this._nextPrepared ? this._nextPlayer : null;
+            if (!next || this._transitions.mode !== TransitionMode.Crossfade || this._options.loop || this._sleepTimer.endsWithEpisode) {
+                return;
+            }
+            if (!this._requestAudioFocus()) {
+                return;
+            }
+            next.setVolume(0, 0);
+            next.start();
+            this._handOff(TransitionMode.Crossfade, Math.min(this._transitions.crossfadeDuration, remaining));
+        } catch (error) {
+            console.error('[Code error AR59] Error starting crossfade:', error);
+        }
+    }
+
+    /**
+     * Carries on with the next item, which already plays: it becomes the current item and the
+     * previous one completes, right away when gapless or once faded out. This player keeps the
+     * audio focus all along, so other apps see a single playback.
+     */
+    private _handOff(mode: TransitionMode, fadeDuration: number = 0) {
+        const previous = this._mediaPlayer;
+        const previousOptions = this._options;
+        const previousDuration = this.duration;
+        const next = this._nextPlayer;
+        const options = this._nextOptions;
+        this._nextPlayer = null;
+        this._nextOptions = null;
+        this._nextPrepared = false;
+        this._transitions.disarm();
+
+        // the Visualizer measured the previous audio session
+        this._releaseVisualizer();
+        this._mediaPlayer = next;
+        this._useItemOptions(options);
+        this._loopCount = 0;
+        this._live = !Utils.isFileOrResourcePath(resolveAudioFilePath(options.audioFile)) && next.getDuration() <= 0;
+        this._listenToBuffering(next, options);
+        if (this._playbackRate !== 1 && android.os.Build.VERSION.SDK_INT >= 23) {
+            next.setPlaybackParams(next.getPlaybackParams().setSpeed(this._playbackRate));
+        }
+        if (options.metering) {
+            this._createVisualizer(next);
+        }
+        this._updateAudioEffects();
+        this._chapterTracker.update(0);
+        this._cacheItem(options);
+        this._sendEvent(AudioPlayerEvents.transitioned, <TransitionEventData>{ mode, previousItem: previousOptions, item: options });
+        if (Utils.isFileOrResourcePath(resolveAudioFilePath(options.audioFile))) {
+            this._bufferedPercent = 100;
+            this._sendEvent(AudioPlayerEvents.progress, { bufferedPercent: 100, bufferedRanges: [{ start: 0, end: this.duration }] });
+        } else {
+            this._bufferedPercent = 0;
+        }
+        this._timeUpdates.emit();
+
+        const complete = () => {
+            this._fadingPlayer = null;
+            this._completeItem(previousOptions, previous, previousDuration);
+            previous.release();
+        };
+        if (mode !== TransitionMode.Crossfade) {
+            this._applyVolume();
+            complete();
+            return;
+        }
+        this._fadingPlayer = previous;
+        const volume = this._volume;
+        this._crossfade.start(fadeDuration, (fadeOut, fadeIn) => {
+            fadeOut *= this._duckVolume * this._sleepFader.factor;
+            fadeIn *= this._duckVolume * this._sleepFader.factor;
+            previous.setVolume(volume * fadeOut, volume * fadeOut);
+            if (next === this._mediaPlayer) {
+                next.setVolume(volume * fadeIn, volume * fadeIn);
+            }
+        }, complete);
+    }
+
+    /**
+     * The only completion of an item left through a transition. The player keeps playing the
+     * next item, so there is no `completed` event, `transitioned` was fired instead.
+     */
+    private _completeItem(options: AudioPlayerOptions, player: android.media.MediaPlayer, duration: number) {
+        try {
+            const key = this._progressKey(options);
+            if (this._progressStore && key) {
+                this._progressStore.markFinished(key, duration);
+            }
+            this._sleepTimer.onPlaybackCompleted();
+            if (options.completeCallback) {
+                options.completeCallback({ player });
+            }
+        } catch (error) {
+            console.error('[Code error AR62] Error completing the previous item:', error);
+        }
+    }
+
+    /**
+     * An error of the prepared next player or of the one fading out, the current item plays on.
+     */
+    private _onSecondaryPlayerError(player: android.media.MediaPlayer, what: number, extra: number) {
+        console.error('[Code error AR68] MediaPlayer error of the next or previous item', what, extra);
+        if (player === this._fadingPlayer) {
+            this._crossfade.finish();
+            return;
+        }
+        if (player === this._nextPlayer) {
+            const reject = this._rejectNext;
+            this._rejectNext = undefined;
+            this._releaseNext();
+            if (reject) {
+                reject(new AudioPlayerError(mediaPlayerErrorCode(what, extra), `MediaPlayer error ${what} (${extra})`, what, extra));
+            }
+        }
+    }
+
+    /**
+     * Shows the metadata of the loading file in the media session, or releases the session
+     * when the file has none. The foreground service always needs a session for its notification.
+     */
+    private _updateMediaSession(options: AudioPlayerOptions) {
+        try {
+            const info = nowPlayingInfo(options) || (options.foregroundService ? {} : null);
+            if (!info) {
+                this._releaseMediaSession();
+                return;
+            }
+            const onCommand = (data: RemoteCommandEventData) => this._onRemoteCommand(data);
+            if (!this._mediaSession) {
+                this._mediaSession = new MediaSessionController(this, onCommand);
+            }
+            this._mediaSession.setInfo(info);
+            if (options.foregroundService) {
+                if (!this._foregroundService) {
+                    this._foregroundService = new ForegroundServiceController(this, this._mediaSession, onCommand, options.notificationIcon);
+                }
+                this._foregroundService.streaming = !Utils.isFileOrResourcePath(resolveAudioFilePath(options.audioFile));
+            } else {
+                this._releaseForegroundService();
+            }
+        } catch (error) {
+            console.error('[Code error AR32] Error updating media session:', error);
+        }
+    }
+
+    private _releaseForegroundService() {
+        if (this._foregroundService) {
+            this._foregroundService.dispose();
+            this._foregroundService = null;
+        }
+    }
+
+    private _releaseMediaSession() {
+        this._releaseForegroundService();
+        if (this._mediaSession) {
+            this._mediaSession.dispose();
+            this._mediaSession = null;
+        }
+    }
+
+    /**
+     * A command from the lock screen, headphones or a media notification.
+     */
+    private _onRemoteCommand(data: RemoteCommandEventData) {
+        this._sendEvent(AudioPlayerEvents.remoteCommand, data);
+        handleRemoteCommand(this, data);
+    }
+
+    /**
+     * Measures the output of the player for metering. The Visualizer needs the RECORD_AUDIO
+     * permission, without it metering stays off and the levels stay at -160.
+     */
+    private _createVisualizer(player: android.media.MediaPlayer) {
+        try {
+            const Visualizer = android.media.audiofx.Visualizer;
+            this._visualizer = new Visualizer(player.getAudioSessionId());
+            this._visualizer.setMeasurementMode(Visualizer.MEASUREMENT_MODE_PEAK_RMS);
+            this._visualizer.setEnabled(true);
+        } catch (error) {
+            console.error('[Code error AR39] Error creating Visualizer for metering, is the RECORD_AUDIO permission granted?', error);
+            this._releaseVisualizer();
+        }
+    }
+
+    /**
+     * Attaches the audio effects to the prepared player while they are on, and releases them when they are off.
+     */
+    private _updateAudioEffects() {
+        if (!this._audioEffects.enabled) {
+            this._releaseAudioEffects();
+            return;
+        }
+        if (this._mediaPlayer && this._stateMachine.isPrepared) {
+            if (!this._effectsController) {
+                this._effectsController = new AudioEffectsController();
+            }
+            this._effectsController.attach(this._mediaPlayer.getAudioSessionId());
+            this._effectsController.apply(this._audioEffects.settings);
+        }
+    }
+
+    private _releaseAudioEffects() {
+        if (this._effectsController) {
+            this._effectsController.release();
+            this._effectsController = null;
+        }
+    }
+
+    /**
+     * Sets the user volume on the current player, scaled by the running fades and the ducking.
+     */
+    private _applyVolume() {
+        if (this._mediaPlayer) {
+            const volume = this._volume * this._fader.factor * this._sleepFader.factor * this._duckVolume;
+            this._mediaPlayer.setVolume(volume, volume);
+        }
+    }
+
+    private _releaseVisualizer() {
+        try {
+            if (this._visualizer) {
+                this._visualizer.release();
+            }
+        } catch (error) {
+            console.error('[Code error AR40] Error releasing Visualizer:', error);
+        }
+        this._visualizer = null;
+    }
+
+    /**
+     * The current levels, one channel as the Visualizer measures the mixed output. Null when metering is off.
+     */
+    private _meteringLevels(): MeteringEventData | null {
+        try {
+            if (!this._visualizer) {
+                return null;
+            }
+            const measurement = new android.media.audiofx.Visualizer.MeasurementPeakRms();
+            if (this._visualizer.getMeasurementPeakRms(measurement) !== android.media.audiofx.Visualizer.SUCCESS) {
+                return null;
+            }
+            return {
+                averagePower: [powerFromMillibels(measurement.mRms)],
+                peakPower: [powerFromMillibels(measurement.mPeak)]
+            };
+        } catch (error) {
+            console.error('[Code error AR41] Error measuring audio levels:', error);
+            return null;
+        }
+    }
+
+    private _timeUpdateData(): TimeUpdateEventData {
+        const duration = this._stateMachine.isPrepared ? this.duration : 0;
+        return {
+            currentTime: this.currentTime,
+            duration,
+            bufferedPosition: (duration * this._bufferedPercent) / 100
+        };
+    }
+
+    private _startProgressTimer() {
+        this._stopProgressTimer();
+        if (this._progressStore) {
+            this._progressTimer = setInterval(() => this._saveProgress(), this._progressStore.saveInterval);
+        }
+    }
+
+    private _stopProgressTimer() {
+        if (this._progressTimer) {
+            clearInterval(this._progressTimer);
+            this._progressTimer = undefined;
+        }
+    }
+
+    /**
+     * Reads the ID3v2 tag at the start of a file, empty when there is none.
+     */
+    private _readId3Tag(path: string): Uint8Array {
+        const file = new java.io.RandomAccessFile(path, 'r');
+        try {
+            const channel = file.getChannel();
+            const read = (size: number) => {
+                const buffer = java.nio.ByteBuffer.allocateDirect(size);
+                while (buffer.hasRemaining() && channel.read(buffer, buffer.position()) > 0) { }
+                return new Uint8Array((<any>ArrayBuffer).from(buffer));
+            };
+            const size = id3TagSize(read(10));
+            return size ? read(size) : new Uint8Array(0);
+        } finally {
+            file.close();
+        }
+    }
+
+    private _getAndroidContext() {
+        try {
+            let ctx = Application.android.context;
+            if (!ctx) {
+                ctx = Application.getNativeApplication().getApplicationContext();
+            }
+            if (ctx === null) {
+                setTimeout(() => {
+                    this._getAndroidContext();
+                }, 200);
+                return null;
+            }
+            return ctx || null;
+        } catch (error) {
+            console.error('[Code error AR14] Error getting Android context:', error);
+            throw error;
+        }
+    }
+    /**
+     * This getter will instantiate the MediaPlayer if needed
+     * and register the listeners. This is done here to avoid
+     * code duplication. This is also the reason why we have
+     * a `_options`
+     */
+    private get _player() {
+        try {
+            if (this._mediaPlayer) {
+                return this._mediaPlayer;  // Return the player if it's already initialized
             }
 
             if (!this._options) {
@@ -635,40 +1841,280 @@ export class TNSPlayer implements TNSPlayerI {
             // Initialize the MediaPlayer
             this._mediaPlayer = new android.media.MediaPlayer();
 
-            // Handle MediaPlayer completion
-            this._mediaPlayer.setOnCompletionListener(new android.media.MediaPlayer.OnCompletionListener({
-                onCompletion: mp => {
-                    if (this._options && this._options.completeCallback) {
-                        if (this._options.loop === true) {
-                            mp.seekTo(5);  // Looping logic
-                            mp.start();
-                        }
-                        this._options.completeCallback({ player: mp });
-                    }
-                    if (!this._options.loop) {
-                        this._abandonAudioFocus(true);  // Abandon focus if not looping
+            this._addPlayerListeners(this._mediaPlayer);
+
+            return this._mediaPlayer;
+
+        } catch (error) {
+            console.error("[Code error AR16] Error getting player:", error);
+            throw error;
+        }
+    }
+
+    /**
+     * Completion and error handling, for the current player as well as the next one.
+     */
+    private _addPlayerListeners(mediaPlayer: android.media.MediaPlayer) {
+        // Handle MediaPlayer completion
+        mediaPlayer.setOnCompletionListener(new android.media.MediaPlayer.OnCompletionListener({
+            onCompletion: mp => {
+                if (mp === this._fadingPlayer) {
+                    // the previous item ran out before the end of the crossfade
+                    this._crossfade.finish();
+                    return;
+                }
+                const options = this._options;
+                if (!options || mp !== this._mediaPlayer) {
+                    return;
+                }
+                if (options.loop === true) {
+                    mp.seekTo(5);  // Looping logic
+                    mp.start();
+                    this._loopCount++;
+                    this._chapterTracker.update(0);
+                    this._sendEvent(AudioPlayerEvents.loopRestarted, { loopCount: this._loopCount });
+                    if (options.completeCallback) {
+                        options.completeCallback({ player: mp });
                     }
+                    return;
+                }
+                if (this._nextPrepared && this._transitions.mode === TransitionMode.Gapless) {
+                    // setNextMediaPlayer already started the next item
+                    this._handOff(TransitionMode.Gapless);
+                    return;
+                }
+                this._stateMachine.transition(PlayerState.Completed);
+                // before the callback, which may load the next episode
+                this._sleepTimer.onPlaybackCompleted();
+                this._stopProgressTimer();
+                this._timeUpdates.stop();
+                if (this._progressStore && this._progressKey()) {
+                    this._progressStore.markFinished(this._progressKey(), this.duration);
+                }
+                this._abandonAudioFocus(true);  // Abandon focus if not looping
+                this._chapterTracker.update();
+                this._sendEvent(AudioPlayerEvents.completed);
+                if (options.completeCallback) {
+                    options.completeCallback({ player: mp });
                 }
-            }));
+            }
+        }));
 
-            // Handle MediaPlayer errors
-            this._mediaPlayer.setOnErrorListener(new android.media.MediaPlayer.OnErrorListener({
-                onError: (player, error, extra) => {
-                    console.error("[Code error AR16] MediaPlayer error occurred", error, extra);
-                    if (this._options && this._options.errorCallback) {
-                        this._options.errorCallback({ player, error, extra });
-                    }
-                    this.dispose();  // Dispose player on error
+        // Handle MediaPlayer errors
+        mediaPlayer.setOnErrorListener(new android.media.MediaPlayer.OnErrorListener({
+            onError: (player, error, extra) => {
+                if (player !== this._mediaPlayer) {
+                    this._onSecondaryPlayerError(player, error, extra);
                     return true;
                 }
-            }));
+                console.error("[Code error AR16] MediaPlayer error occurred", error, extra);
+                const playerError = new AudioPlayerError(mediaPlayerErrorCode(error, extra), `MediaPlayer error ${error} (${extra})`, error, extra);
+                const isRemote = this._options && !Utils.isFileOrResourcePath(resolveAudioFilePath(this._options.audioFile));
+                if (isRemote && this._options.tokenProvider && !this._authRetried && (this._rejectLoad || this._recovery.active)) {
+                    this._authRetried = true;
+                    player.reset();
+                    this._retryAuthorized(player, playerError);
+                    return true;
+                }
+                this._onPlayerError(player, playerError);
+                return true;
+            }
+        }));
+    }
+
+    /**
+     * Error handling of the current player: a failed recovery attempt, a stream that broke off or
+     * a failure of the item.
+     */
+    private _onPlayerError(player: android.media.MediaPlayer, playerError: AudioPlayerError) {
+        if (this._recovery.active) {
+            // the recovery attempt failed, StreamRecovery makes the next one
+            player.reset();
+            const reject = this._rejectRecovery;
+            this._rejectRecovery = undefined;
+            if (reject) {
+                reject(playerError);
+            }
+            return;
+        }
+        const isRemote = this._options && !Utils.isFileOrResourcePath(resolveAudioFilePath(this._options.audioFile));
+        if (isRemote && !this._rejectLoad && this._recovery.canRecover(playerError, this._options.recovery)) {
+            const wasPlaying = this._stateMachine.is(PlayerState.Playing, PlayerState.Buffering);
+            this._suspendForRecovery(player);
+            this._recovery.recover(playerError, this._options.recovery, wasPlaying);
+            return;
+        }
+        this._failPlayback(player, playerError);
+    }
+
+    /**
+     * MediaPlayer does not report the HTTP status, an expired token shows up as an IO error.
+     * When the server turns the token down with 401, the stream is prepared once more with a new one.
+     */
+    private _retryAuthorized(player: android.media.MediaPlayer, playerError: AudioPlayerError) {
+        const options = this._options;
+        isUnauthorized(this._source.url, this._source.headers)
+            .then(unauthorized => {
+                if (player !== this._mediaPlayer || options !== this._options) {
+                    return null;
+                }
+                if (!unauthorized) {
+                    this._onPlayerError(player, playerError);
+                    return null;
+                }
+                return this._prepareRemote(player, options, true);
+            })
+            .catch(error => {
+                console.error('[Code error AR74] Error refreshing the auth token:', error);
+                if (player === this._mediaPlayer && options === this._options) {
+                    this._onPlayerError(player, playerError);
+                }
+            });
+    }
 
-            return this._mediaPlayer;
+    /**
+     * Sets the remote source with its request headers and prepares it, once the token provider answered
+     * and the stream of an m3u or pls playlist is picked. HLS is played by MediaPlayer itself.
+     * @param refresh - Asks the token provider for a new token.
+     */
+    private _prepareRemote(player: android.media.MediaPlayer, options: AudioPlayerOptions, refresh: boolean = false): Promise<void> {
+        return resolveStreamSource(resolveAudioFilePath(options.audioFile), options, refresh).then(source =>
+            this._cachedSource(options, source).then(played => {
+                if (player !== this._mediaPlayer || options !== this._options) {
+                    // another file was loaded meanwhile
+                    return;
+                }
+                this._source = source;
+                this._setDataSource(player, played.url, played.headers);
+                player.prepareAsync();
+            })
+        );
+    }
 
-        } catch (error) {
-            console.error("[Code error AR16] Error getting player:", error);
-            throw error;
+    /**
+     * The source MediaPlayer reads a remote file from: the cache proxy when `audioCache` can cache the
+     * file, so each chunk is fetched once, or the source itself for live streams, HLS and items kept
+     * out of the cache. The proxy sends the request headers itself.
+     */
+    private _cachedSource(options: AudioPlayerOptions, source: StreamSource): Promise<StreamSource> {
+        const cache = this._audioCache;
+        if (!cache || options.cache === false || source.type !== StreamSourceType.Audio || !isStringUrl(source.url) || source.url !== options.audioFile) {
+            return Promise.resolve(source);
+        }
+        return cache.openStream(source.url, source.headers).then(opened =>
+            opened ? { url: cacheProxy.urlFor(cache, source.url), type: source.type, headers: null } : source
+        );
+    }
+
+    /**
+     * @param headers - Sent with the requests for a remote file, null or empty for none.
+     */
+    private _setDataSource(player: android.media.MediaPlayer, path: string, headers: RequestHeaders | null) {
+        const names = headers ? Object.keys(headers) : [];
+        if (!names.length) {
+            player.setDataSource(path);
+            return;
+        }
+        const map = new java.util.HashMap<string, string>();
+        names.forEach(name => map.put(name, headers[name]));
+        player.setDataSource(Utils.android.getApplicationContext(), android.net.Uri.parse(path), map);
+    }
+
+    /**
+     * Moves to the error state and reports the error, until another file is loaded.
+     */
+    private _failPlayback(player: android.media.MediaPlayer, playerError: AudioPlayerError) {
+        this._stateMachine.transition(PlayerState.Error);
+        this._notifyError(playerError);
+        if (this._rejectLoad) {
+            // the audio failed to prepare
+            this._rejectLoad(playerError);
+            this._rejectLoad = undefined;
+            this._skipHandler.cancel('The audio file could not be loaded');
+        }
+        // release the player but stay in the error state until another file is loaded
+        this._stopProgressTimer();
+        this._timeUpdates.stop();
+        this._chapterTracker.stop();
+        if (player) {
+            player.reset();
         }
+        this._abandonAudioFocus();
+    }
+
+    /**
+     * Stops what runs with playback while the stream is prepared again. The player looks like
+     * it is buffering meanwhile, and keeps the audio focus.
+     */
+    private _suspendForRecovery(player: android.media.MediaPlayer) {
+        const wasPlaying = this._stateMachine.is(PlayerState.Playing, PlayerState.Buffering);
+        this._crossfade.finish();
+        this._fader.cancel();
+        this._stopProgressTimer();
+        this._timeUpdates.stop();
+        this._releaseVisualizer();
+        player.reset();
+        if (wasPlaying) {
+            this._stateMachine.transition(PlayerState.Buffering);
+        }
+    }
+
+    /**
+     * Prepares the current item again for `StreamRecovery`, then seeks back to where it broke off
+     * and resumes if it was playing. Rejects through the error listener when the stream is still down.
+     */
+    private _recoverStream(): Promise<any> {
+        return new Promise((resolve, reject) => {
+            try {
+                const player = this._player;
+                const options = this._options;
+                this._rejectRecovery = reject;
+                player.reset();
+                player.setAudioStreamType(android.media.AudioManager.STREAM_MUSIC);
+                player.setOnPreparedListener(new android.media.MediaPlayer.OnPreparedListener({
+                    onPrepared: mp => {
+                        if (this._rejectRecovery !== reject) {
+                            return;
+                        }
+                        this._rejectRecovery = undefined;
+                        this._authRetried = false;
+                        const position = this._recovery.position;
+                        if (!this._live) {
+                            // a live stream picks up where it is now
+                            mp.seekTo(Math.round(position * 1000));
+                        }
+                        if (options.metering) {
+                            this._createVisualizer(mp);
+                        }
+                        this._updateAudioEffects();
+                        this._applyVolume();
+                        this._chainNext();
+                        this._chapterTracker.update(position);
+                        if (this._recovery.resume) {
+                            mp.start();
+                            if (this._playbackRate !== 1 && android.os.Build.VERSION.SDK_INT >= 23) {
+                                mp.setPlaybackParams(mp.getPlaybackParams().setSpeed(this._playbackRate));
+                            }
+                            this._stateMachine.transition(PlayerState.Playing);
+                            this._startProgressTimer();
+                            this._timeUpdates.start();
+                        }
+                        resolve(null);
+                    }
+                }));
+                this._listenToBuffering(player, options);
+                this._prepareRemote(player, options).catch(error => {
+                    if (this._rejectRecovery === reject) {
+                        this._rejectRecovery = undefined;
+                        reject(AudioPlayerError.from(error, AudioPlayerErrorCode.SourceUnavailable));
+                    }
+                });
+            } catch (error) {
+                console.error('[Code error AR69] Error preparing the stream again:', error);
+                this._rejectRecovery = undefined;
+                reject(toLoadError(error));
+            }
+        });
     }
 
     private _onAudioFocusChange(data: AudioFocusChangeEventData) {
@@ -677,11 +2123,9 @@ export class TNSPlayer implements TNSPlayerI {
             const focusChange = data.focusChange;
             switch (focusChange) {
                 case android.media.AudioManager.AUDIOFOCUS_GAIN:
-                    if (this._lastPlayerVolume && this._lastPlayerVolume >= 10) {
-                        this.volume = 1.0;
-                    }
-                    else if (this._lastPlayerVolume) {
-                        this.volume = parseFloat('0.' + this._lastPlayerVolume.toString());
+                    if (this._lastPlayerVolume !== undefined) {
+                        this.volume = this._lastPlayerVolume;
+                        this._lastPlayerVolume = undefined;
                     }
                     if (this._wasPlaying) {
                         this.resume();
@@ -690,21 +2134,48 @@ export class TNSPlayer implements TNSPlayerI {
                 case android.media.AudioManager.AUDIOFOCUS_GAIN_TRANSIENT:
                     break;
                 case android.media.AudioManager.AUDIOFOCUS_LOSS:
+                    if (this._lostFocusInApp()) {
+                        break;
+                    }
                     this._wasPlaying = (_b = (_a = this._player) === null || _a === void 0 ? void 0 : _a.isPlaying()) !== null && _b !== void 0 ? _b : false;
-                    this.pause();
+                    this._pauseForFocus();
                     break;
                 case android.media.AudioManager.AUDIOFOCUS_LOSS_TRANSIENT:
+                    if (this._lostFocusInApp()) {
+                        break;
+                    }
                     this._wasPlaying = (_d = (_c = this._player) === null || _c === void 0 ? void 0 : _c.isPlaying()) !== null && _d !== void 0 ? _d : false;
-                    this.pause();
+                    this._pauseForFocus();
                     break;
                 case android.media.AudioManager.AUDIOFOCUS_LOSS_TRANSIENT_CAN_DUCK:
+                    if (this._lostFocusInApp()) {
+                        break;
+                    }
                     this._lastPlayerVolume = this.volume;
-                    this.volume = 0.2;
+                    this.volume = 0.2 * this._lastPlayerVolume;
                     break;
             }
         } catch (error) {
             console.error('[Code error AR17] Error handling audio focus change:', error);
-            throw error;
         }
     }
+
+    /**
+     * Pauses a prepared player, idle and loading players have nothing to pause.
+     */
+    private _pauseForFocus() {
+        if (!this._stateMachine.isPrepared) {
+            return;
+        }
+        this.pause().catch(error => console.error('[Code error AR76] Error pausing on audio focus loss:', error));
+    }
+
+    /**
+     * Whether the focus went to another player of the app, which `playerRegistry` already paused,
+     * ducked or mixed this one with.
+     */
+    private _lostFocusInApp(): boolean {
+        const active = playerRegistry.activePlayer;
+        return !!active && active !== this;
+    }
 }
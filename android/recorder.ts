@@ -0,0 +1,342 @@
+import { Application, AndroidActivityRequestPermissionsEventData, Observable, Utils } from '@nativescript/core';
+import { resolveLocalAudioFilePath, TNSRecordI } from '../common';
+import { AudioPlayerError, AudioPlayerErrorCode } from '../errors';
+import { MeteringEventData, MIN_POWER, powerFromAmplitude } from '../metering';
+import { AudioRecorderEvents, AudioRecorderOptions } from '../options';
+import { TimeUpdateEmitter } from '../time-update';
+
+const RECORD_PERMISSION_REQUEST = 7302;
+
+export class TNSRecorder extends Observable implements TNSRecordI {
+    private _recorder: android.media.MediaRecorder | null = null;
+    private _events: Observable;
+    private _options: AudioRecorderOptions;
+    private _path: string;
+    private _recording = false;
+    private _paused = false;
+    private _metering: TimeUpdateEmitter<MeteringEventData>;
+
+    /**
+     * Whether the device has a microphone.
+     */
+    static CAN_RECORD(): boolean {
+        const packageManager = Utils.android.getApplicationContext().getPackageManager();
+        return packageManager.hasSystemFeature(android.content.pm.PackageManager.FEATURE_MICROPHONE);
+    }
+
+    constructor() {
+        super();
+        this._events = new Observable();
+        this._metering = new TimeUpdateEmitter<MeteringEventData>(
+            () => this._meteringLevels(),
+            (data: MeteringEventData) => this._sendEvent(AudioRecorderEvents.metering, data),
+            0
+        );
+    }
+
+    get events(): Observable {
+        return this._events;
+    }
+
+    get android(): android.media.MediaRecorder | null {
+        return this._recorder;
+    }
+
+    /**
+     * Milliseconds between two `metering` events while recording with `metering` on, 0 turns them off.
+     */
+    get meteringInterval(): number {
+        return this._metering.interval;
+    }
+
+    set meteringInterval(value: number) {
+        this._metering.interval = value;
+    }
+
+    hasRecordPermission(): boolean {
+        try {
+            if (android.os.Build.VERSION.SDK_INT < 23) {
+                // granted at install time
+                return true;
+            }
+            const context = Utils.android.getApplicationContext();
+            return context.checkSelfPermission(android.Manifest.permission.RECORD_AUDIO) === android.content.pm.PackageManager.PERMISSION_GRANTED;
+        } catch (error) {
+            console.error('[Code error AR42] Error checking record permission:', error);
+            return false;
+        }
+    }
+
+    /**
+     * Asks the user for the RECORD_AUDIO permission, which the app manifest must declare.
+     * @returns true when granted, rejects with `permissionDenied` otherwise
+     */
+    requestRecordPermission(): Promise<boolean> {
+        return new Promise((resolve, reject) => {
+            try {
+                if (this.hasRecordPermission()) {
+                    resolve(true);
+                    return;
+                }
+                const activity: android.app.Activity = Application.android.foregroundActivity || Application.android.startActivity;
+                if (!activity) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.PermissionDenied, 'No activity to ask for the record permission'));
+                    return;
+                }
+                const onResult = (args: AndroidActivityRequestPermissionsEventData) => {
+                    if (args.requestCode !== RECORD_PERMISSION_REQUEST) {
+                        return;
+                    }
+                    Application.android.off(Application.android.activityRequestPermissionsEvent, onResult);
+                    const granted = args.grantResults.length > 0 && args.grantResults[0] === android.content.pm.PackageManager.PERMISSION_GRANTED;
+                    if (granted) {
+                        resolve(true);
+                    } else {
+                        reject(new AudioPlayerError(AudioPlayerErrorCode.PermissionDenied, 'The record permission was denied'));
+                    }
+                };
+                Application.android.on(Application.android.activityRequestPermissionsEvent, onResult);
+                activity.requestPermissions([android.Manifest.permission.RECORD_AUDIO], RECORD_PERMISSION_REQUEST);
+            } catch (error) {
+                console.error('[Code error AR43] Error requesting record permission:', error);
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.PermissionDenied));
+            }
+        });
+    }
+
+    start(options: AudioRecorderOptions): Promise<any> {
+        return new Promise((resolve, reject) => {
+            try {
+                if (this._recording) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The recorder is already recording'));
+                    return;
+                }
+                if (!this.hasRecordPermission()) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.PermissionDenied, 'The RECORD_AUDIO permission is not granted, see requestRecordPermission'));
+                    return;
+                }
+                const path = options && resolveLocalAudioFilePath(options.filename);
+                if (!path) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `Cannot record to ${options && options.filename}`));
+                    return;
+                }
+                this._options = options;
+                this._path = path;
+                this._releaseRecorder();
+
+                const MediaRecorder = android.media.MediaRecorder;
+                const recorder = android.os.Build.VERSION.SDK_INT >= 31 ? new MediaRecorder(Utils.android.getApplicationContext()) : new MediaRecorder();
+                this._recorder = recorder;
+                recorder.setAudioSource(options.source !== undefined ? options.source : MediaRecorder.AudioSource.MIC);
+                recorder.setOutputFormat(options.format !== undefined ? options.format : MediaRecorder.OutputFormat.MPEG_4);
+                recorder.setAudioEncoder(options.encoder !== undefined ? options.encoder : MediaRecorder.AudioEncoder.AAC);
+                recorder.setAudioChannels(options.channels || 1);
+                recorder.setAudioSamplingRate(options.sampleRate || 44100);
+                if (options.bitRate) {
+                    recorder.setAudioEncodingBitRate(options.bitRate);
+                }
+                if (options.maxDuration > 0) {
+                    recorder.setMaxDuration(options.maxDuration);
+                }
+                recorder.setOutputFile(path);
+                recorder.setOnErrorListener(new MediaRecorder.OnErrorListener({
+                    onError: (mr, what, extra) => {
+                        this._notifyError(new AudioPlayerError(AudioPlayerErrorCode.RecordingFailed, `MediaRecorder error ${what}`, what, extra));
+                        this._stopRecording();
+                    }
+                }));
+                recorder.setOnInfoListener(new MediaRecorder.OnInfoListener({
+                    onInfo: (mr, what, extra) => {
+                        if (what === MediaRecorder.MEDIA_RECORDER_INFO_MAX_DURATION_REACHED) {
+                            // MediaRecorder stopped by itself, the file is complete
+                            this._recording = false;
+                            this._finish(true);
+                        }
+                        if (this._options && this._options.infoCallback) {
+                            this._options.infoCallback({ recorder: mr, info: what, extra });
+                        }
+                    }
+                }));
+                recorder.prepare();
+                recorder.start();
+                this._recording = true;
+                this._paused = false;
+                if (typeof options.meteringInterval === 'number') {
+                    this._metering.interval = options.meteringInterval;
+                }
+                this._metering.start();
+                this._sendEvent(AudioRecorderEvents.started);
+                resolve(null);
+            } catch (error) {
+                console.error('[Code error AR44] Error starting recording:', error);
+                this._releaseRecorder();
+                const recordError = AudioPlayerError.from(error, AudioPlayerErrorCode.RecordingFailed);
+                this._notifyError(recordError);
+                reject(recordError);
+            }
+        });
+    }
+
+    /**
+     * Needs Android 7 (API 24).
+     */
+    pause(): Promise<any> {
+        return new Promise((resolve, reject) => {
+            try {
+                if (!this._recording || this._paused) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The recorder is not recording'));
+                    return;
+                }
+                if (android.os.Build.VERSION.SDK_INT < 24) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'Pausing a recording needs Android API 24+'));
+                    return;
+                }
+                this._recorder.pause();
+                this._paused = true;
+                this._metering.stop();
+                this._sendEvent(AudioRecorderEvents.paused);
+                resolve(null);
+            } catch (error) {
+                console.error('[Code error AR45] Error pausing recording:', error);
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.RecordingFailed));
+            }
+        });
+    }
+
+    /**
+     * Needs Android 7 (API 24).
+     */
+    resume(): Promise<any> {
+        return new Promise((resolve, reject) => {
+            try {
+                if (!this._recording || !this._paused) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The recorder is not paused'));
+                    return;
+                }
+                this._recorder.resume();
+                this._paused = false;
+                this._metering.start();
+                this._sendEvent(AudioRecorderEvents.resumed);
+                resolve(null);
+            } catch (error) {
+                console.error('[Code error AR46] Error resuming recording:', error);
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.RecordingFailed));
+            }
+        });
+    }
+
+    stop(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            try {
+                if (!this._recording) {
+                    reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The recorder is not recording'));
+                    return;
+                }
+                const path = this._path;
+                this._finish(false);
+                resolve(path);
+            } catch (error) {
+                console.error('[Code error AR47] Error stopping recording:', error);
+                this._releaseRecorder();
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.RecordingFailed));
+            }
+        });
+    }
+
+    dispose(): Promise<any> {
+        return new Promise((resolve, reject) => {
+            try {
+                this._stopRecording();
+                this._options = undefined;
+                resolve(null);
+            } catch (error) {
+                console.error('[Code error AR48] Error disposing recorder:', error);
+                reject(AudioPlayerError.from(error, AudioPlayerErrorCode.NotInitialized));
+            }
+        });
+    }
+
+    isRecording(): boolean {
+        return this._recording && !this._paused;
+    }
+
+    /**
+     * Level in dBFS, from -160 (silence) to 0. MediaRecorder only reports the highest amplitude
+     * since the previous reading, so the average and the peak are the same and every channel has that level.
+     * Needs the `metering` option, -160 without it.
+     */
+    getAveragePower(channel: number = 0): number {
+        const levels = channel >= 0 ? this._meteringLevels() : null;
+        return levels ? levels.averagePower[0] : MIN_POWER;
+    }
+
+    /**
+     * See `getAveragePower`.
+     */
+    getPeakPower(channel: number = 0): number {
+        const levels = channel >= 0 ? this._meteringLevels() : null;
+        return levels ? levels.peakPower[0] : MIN_POWER;
+    }
+
+    /**
+     * Ends the recording and reports it, by `stop()` or when the max duration was reached.
+     */
+    private _finish(maxDurationReached: boolean) {
+        const path = this._path;
+        this._stopRecording();
+        this._sendEvent(AudioRecorderEvents.stopped, { path, maxDurationReached });
+    }
+
+    private _stopRecording() {
+        this._metering.stop();
+        if (this._recorder && this._recording) {
+            try {
+                this._recorder.stop();
+            } catch (error) {
+                // stop() throws when nothing was recorded yet
+                console.warn('[Code warning AR49] MediaRecorder stopped without audio:', error);
+            }
+        }
+        this._recording = false;
+        this._paused = false;
+        this._releaseRecorder();
+    }
+
+    private _releaseRecorder() {
+        if (this._recorder) {
+            this._recorder.release();
+            this._recorder = null;
+        }
+    }
+
+    private _meteringLevels(): MeteringEventData | null {
+        try {
+            if (!this._recorder || !this._recording || !this._options || !this._options.metering) {
+                return null;
+            }
+            const power = powerFromAmplitude(this._recorder.getMaxAmplitude());
+            return { averagePower: [power], peakPower: [power] };
+        } catch (error) {
+            console.error('[Code error AR50] Error measuring recording levels:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Reports a recording failure through the `error` event and the `errorCallback`.
+     */
+    private _notifyError(error: AudioPlayerError) {
+        this._sendEvent(AudioRecorderEvents.error, { error });
+        if (this._options && this._options.errorCallback) {
+            this._options.errorCallback({ recorder: this._recorder, error });
+        }
+    }
+
+    private _sendEvent(eventName: string, data?: any) {
+        this._events.notify({
+            eventName,
+            object: this._events,
+            data
+        });
+    }
+}
@@ -0,0 +1,239 @@
+import { AudioPlayerError, AudioPlayerErrorCode } from './errors';
+import { ApplicationSettingsProgressStorage, PlaybackProgressStorage } from './progress';
+
+/**
+ * Center frequencies of the equalizer bands in Hz, the same on both platforms.
+ */
+export const EQUALIZER_FREQUENCIES = [60, 230, 910, 3600, 14000];
+
+/**
+ * Largest boost or cut of an equalizer band, in dB.
+ */
+export const MAX_BAND_GAIN = 12;
+
+/**
+ * Largest extra gain of `loudness`, in dB.
+ */
+export const MAX_LOUDNESS = 12;
+
+export interface AudioEffectsPreset {
+  name: string;
+  /**
+   * Gain of each `EQUALIZER_FREQUENCIES` band in dB, from -12 to 12.
+   */
+  bandGains: number[];
+  /**
+   * Strength of the bass boost, from 0 (off) to 1.
+   */
+  bassBoost?: number;
+  /**
+   * Extra gain in dB, from 0 to 12, for quiet recordings.
+   */
+  loudness?: number;
+}
+
+export interface AudioEffectsSettings {
+  enabled: boolean;
+  bandGains: number[];
+  bassBoost: number;
+  loudness: number;
+  /**
+   * Name of the last applied preset, null once a setting was changed by hand.
+   */
+  preset: string | null;
+}
+
+export const AudioEffectsPresets = {
+  Flat: <AudioEffectsPreset>{ name: 'flat', bandGains: [0, 0, 0, 0, 0], bassBoost: 0, loudness: 0 },
+  /**
+   * Lifts the speech frequencies and the overall level, and cuts the rumble below them.
+   */
+  VoiceBoost: <AudioEffectsPreset>{ name: 'voiceBoost', bandGains: [-6, -2, 3, 5, 1], bassBoost: 0, loudness: 6 },
+  BassBoost: <AudioEffectsPreset>{ name: 'bassBoost', bandGains: [5, 3, 0, 0, 0], bassBoost: 0.6, loudness: 0 }
+};
+
+const BUILT_IN_PRESETS: AudioEffectsPreset[] = [AudioEffectsPresets.Flat, AudioEffectsPresets.VoiceBoost, AudioEffectsPresets.BassBoost];
+
+function clamp(value: number, min: number, max: number): number {
+  return typeof value === 'number' && isFinite(value) ? Math.max(min, Math.min(max, value)) : 0;
+}
+
+function copyPreset(preset: AudioEffectsPreset): AudioEffectsPreset {
+  return {
+    name: preset.name,
+    bandGains: EQUALIZER_FREQUENCIES.map((frequency, index) => clamp(preset.bandGains && preset.bandGains[index], -MAX_BAND_GAIN, MAX_BAND_GAIN)),
+    bassBoost: clamp(preset.bassBoost || 0, 0, 1),
+    loudness: clamp(preset.loudness || 0, 0, MAX_LOUDNESS)
+  };
+}
+
+/**
+ * The equalizer, bass boost and loudness of a player. They belong to the player rather than
+ * the audio file, so they carry over when another file is loaded. Off until enabled or a preset is applied.
+ */
+export class AudioEffects {
+  private _enabled = false;
+  private _bandGains = AudioEffectsPresets.Flat.bandGains.slice();
+  private _bassBoost = 0;
+  private _loudness = 0;
+  private _preset: string | null = AudioEffectsPresets.Flat.name;
+
+  constructor(private _onChange: (settings: AudioEffectsSettings) => void) { }
+
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  set enabled(value: boolean) {
+    if (this._enabled !== !!value) {
+      this._enabled = !!value;
+      this._changed();
+    }
+  }
+
+  /**
+   * Gain of each `EQUALIZER_FREQUENCIES` band in dB.
+   */
+  get bandGains(): number[] {
+    return this._bandGains.slice();
+  }
+
+  /**
+   * Strength of the bass boost, from 0 (off) to 1.
+   */
+  get bassBoost(): number {
+    return this._bassBoost;
+  }
+
+  set bassBoost(value: number) {
+    this._bassBoost = clamp(value, 0, 1);
+    this._preset = null;
+    this._changed();
+  }
+
+  /**
+   * Extra gain in dB, from 0 to 12.
+   */
+  get loudness(): number {
+    return this._loudness;
+  }
+
+  set loudness(value: number) {
+    this._loudness = clamp(value, 0, MAX_LOUDNESS);
+    this._preset = null;
+    this._changed();
+  }
+
+  get preset(): string | null {
+    return this._preset;
+  }
+
+  get settings(): AudioEffectsSettings {
+    return {
+      enabled: this._enabled,
+      bandGains: this.bandGains,
+      bassBoost: this._bassBoost,
+      loudness: this._loudness,
+      preset: this._preset
+    };
+  }
+
+  /**
+   * @param index - Index in `EQUALIZER_FREQUENCIES`.
+   * @param gain - In dB, clamped to -12..12.
+   */
+  setBandGain(index: number, gain: number) {
+    if (!(index >= 0 && index < EQUALIZER_FREQUENCIES.length)) {
+      throw new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `No equalizer band at index ${index}`);
+    }
+    this._bandGains[index] = clamp(gain, -MAX_BAND_GAIN, MAX_BAND_GAIN);
+    this._preset = null;
+    this._changed();
+  }
+
+  /**
+   * Takes over all the settings of the preset and turns the effects on.
+   */
+  applyPreset(preset: AudioEffectsPreset) {
+    if (!preset || !preset.name) {
+      throw new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, 'A preset needs a name');
+    }
+    const values = copyPreset(preset);
+    this._bandGains = values.bandGains;
+    this._bassBoost = values.bassBoost;
+    this._loudness = values.loudness;
+    this._preset = values.name;
+    this._enabled = true;
+    this._changed();
+  }
+
+  /**
+   * The current settings as a preset, e.g. to save them in an `AudioEffectsPresetStore`.
+   */
+  toPreset(name: string): AudioEffectsPreset {
+    return { name, bandGains: this.bandGains, bassBoost: this._bassBoost, loudness: this._loudness };
+  }
+
+  private _changed() {
+    try {
+      this._onChange(this.settings);
+    } catch (error) {
+      console.error('[Code error AE01] Error applying audio effects:', error);
+    }
+  }
+}
+
+/**
+ * Keeps custom presets next to the built-in `AudioEffectsPresets`, by default in ApplicationSettings.
+ */
+export class AudioEffectsPresetStore {
+  constructor(private _storage: PlaybackProgressStorage = new ApplicationSettingsProgressStorage('podcast-audio.effects.')) { }
+
+  /**
+   * Adds or replaces a custom preset. Built-in presets cannot be replaced.
+   */
+  save(preset: AudioEffectsPreset) {
+    if (!preset || !preset.name) {
+      throw new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, 'A preset needs a name');
+    }
+    if (BUILT_IN_PRESETS.some(builtIn => builtIn.name === preset.name)) {
+      throw new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `${preset.name} is a built-in preset`);
+    }
+    this._storage.setItem(preset.name, JSON.stringify(copyPreset(preset)));
+  }
+
+  remove(name: string) {
+    this._storage.removeItem(name);
+  }
+
+  /**
+   * A built-in or custom preset, undefined when there is none of that name.
+   */
+  get(name: string): AudioEffectsPreset | undefined {
+    const builtIn = BUILT_IN_PRESETS.find(preset => preset.name === name);
+    if (builtIn) {
+      return copyPreset(builtIn);
+    }
+    const value = this._storage.getItem(name);
+    if (!value) {
+      return undefined;
+    }
+    try {
+      return copyPreset(JSON.parse(value));
+    } catch (error) {
+      console.error(`[Code error AE02] Invalid audio effects preset ${name}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * The built-in presets followed by the custom ones, by name.
+   */
+  list(): AudioEffectsPreset[] {
+    const custom = this._storage.keys()
+      .sort()
+      .map(name => this.get(name))
+      .filter(preset => !!preset);
+    return BUILT_IN_PRESETS.map(copyPreset).concat(custom);
+  }
+}
@@ -1,2 +1,23 @@
 export * from './android/player';
+export * from './android/recorder';
 export * from './options';
+export * from './errors';
+export * from './player-state';
+export * from './playlist';
+export * from './feed';
+export * from './chapters';
+export * from './progress';
+export * from './downloads';
+export * from './sleep-timer';
+export * from './time-update';
+export * from './media-session';
+export * from './skip';
+export * from './metering';
+export * from './audio-effects';
+export * from './transitions';
+export * from './volume-fade';
+export * from './recovery';
+export * from './request-headers';
+export * from './stream-source';
+export * from './cache';
+export * from './player-registry';
\ No newline at end of file
@@ -0,0 +1,633 @@
+import { ApplicationSettings, EventData, File, Folder, Http, HttpResponse, isAndroid, knownFolders, Observable, path as nsFilePath } from '@nativescript/core';
+import { isStringUrl, registerLocalAudioSource, resolveAudioFilePath, unregisterLocalAudioSource } from './common';
+import { fileNameFor, headerOf } from './downloads';
+import { AudioPlayerError, AudioPlayerErrorCode } from './errors';
+import { AudioPlayerOptions } from './options';
+import { RequestHeaders } from './request-headers';
+import { streamSourceType, StreamSourceType } from './stream-source';
+
+export interface AudioCacheOptions {
+  /**
+   * Subfolder of the temporary folder (the caches folder on iOS) the files are kept in. Defaults to `podcast-audio-cache`.
+   */
+  folder?: string;
+  /**
+   * Maximum bytes kept on disk, the least recently played files are evicted first. Defaults to 500 MB.
+   */
+  maxBytes?: number;
+  /**
+   * Bytes requested per HTTP Range request. Defaults to 512 KB.
+   */
+  chunkSize?: number;
+  /**
+   * Request timeout in milliseconds.
+   */
+  timeout?: number;
+}
+
+export interface CacheEntry {
+  url: string;
+  /**
+   * Where the file is once completely cached, the chunks cached so far are in the `<path>.part` folder.
+   */
+  path: string;
+  bytesCached: number;
+  /**
+   * Size of the file, 0 until the server reported it.
+   */
+  totalBytes: number;
+  complete: boolean;
+  /**
+   * Pinned files are never evicted.
+   */
+  pinned: boolean;
+  /**
+   * When the file was last played, in milliseconds since the epoch.
+   */
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  usedBytes: number;
+  maxBytes: number;
+  entries: number;
+  completeEntries: number;
+  pinnedEntries: number;
+  /**
+   * Plays served from disk since the cache was created.
+   */
+  hits: number;
+  /**
+   * Plays streamed because the file was not completely cached yet.
+   */
+  misses: number;
+  /**
+   * Files evicted to stay under `maxBytes` since the cache was created.
+   */
+  evictions: number;
+}
+
+export const CacheEvents = {
+  progress: 'cacheProgress',
+  completed: 'cacheCompleted',
+  evicted: 'cacheEvicted'
+};
+
+export interface CacheEventData extends EventData {
+  entry: CacheEntry;
+}
+
+/**
+ * Bytes of a file streamed through the cache, see `AudioCache.read`.
+ */
+export interface CachedBytes {
+  /**
+   * Position of the first byte in the file.
+   */
+  start: number;
+  /**
+   * A `byte[]` on Android, an `NSData` on iOS.
+   */
+  bytes: any;
+  totalBytes: number;
+}
+
+/**
+ * A file opened with `openStream`.
+ */
+interface CacheStream {
+  headers: RequestHeaders;
+  totalBytes: number;
+}
+
+const defaultOptions: AudioCacheOptions = {
+  folder: 'podcast-audio-cache',
+  maxBytes: 500 * 1024 * 1024,
+  chunkSize: 512 * 1024
+};
+
+/**
+ * Keeps the remote files the players stream on disk, so later plays and seeks are served locally.
+ * The players read the files through the cache (a local proxy on Android, a resource loader on
+ * iOS), which fetches each chunk the player asks for once with an HTTP Range request and keeps it
+ * as it hands it over. Once every chunk of a file is cached, they are joined into one file, which
+ * `playFromUrl` plays instead of the url. A file left half way keeps its chunks for the next play.
+ * Set the cache on a player with `TNSPlayer.setAudioCache`.
+ */
+export class AudioCache extends Observable {
+  private _options: AudioCacheOptions;
+  private _folder: Folder;
+  private _entries: CacheEntry[] = [];
+  private _settingsKey: string;
+  private _streams = new Map<string, CacheStream>();
+  /**
+   * Chunk requests in flight, by start and url, so a chunk read twice meanwhile is fetched once.
+   */
+  private _fetches = new Map<string, Promise<CachedBytes>>();
+  private _joining = new Set<CacheEntry>();
+  /**
+   * Urls of files larger than the cache, streamed without keeping them.
+   */
+  private _oversized = new Set<string>();
+  private _disposed = false;
+  private _hits = 0;
+  private _misses = 0;
+  private _evictions = 0;
+  private _localSource = (url: string) => this.getLocalPath(url);
+
+  constructor(options?: AudioCacheOptions) {
+    super();
+    try {
+      this._options = Object.assign({}, defaultOptions, options || {});
+      this._folder = knownFolders.temp().getFolder(this._options.folder);
+      this._settingsKey = `podcast-audio.cache.${this._options.folder}`;
+      this._restore();
+      registerLocalAudioSource(this._localSource);
+    } catch (error) {
+      console.error('[Code error AC01] Error creating AudioCache:', error);
+      throw error;
+    }
+  }
+
+  get folderPath(): string {
+    return this._folder.path;
+  }
+
+  /**
+   * Bytes used on disk by all the cached files, complete or not.
+   */
+  get usedBytes(): number {
+    return this._entries.reduce((total, entry) => total + entry.bytesCached, 0);
+  }
+
+  get stats(): CacheStats {
+    return {
+      usedBytes: this.usedBytes,
+      maxBytes: this._options.maxBytes,
+      entries: this._entries.length,
+      completeEntries: this._entries.filter(entry => entry.complete).length,
+      pinnedEntries: this._entries.filter(entry => entry.pinned).length,
+      hits: this._hits,
+      misses: this._misses,
+      evictions: this._evictions
+    };
+  }
+
+  public get(url: string): CacheEntry | undefined {
+    const entry = this._find(url);
+    return entry ? Object.assign({}, entry) : undefined;
+  }
+
+  public list(): CacheEntry[] {
+    return this._entries.map(entry => Object.assign({}, entry));
+  }
+
+  /**
+   * The cached file of an url, null until it is completely cached.
+   */
+  public getLocalPath(url: string): string | null {
+    const entry = this._find(url);
+    return entry && entry.complete && File.exists(entry.path) ? entry.path : null;
+  }
+
+  /**
+   * Keeps the file of an url out of the eviction, e.g. for a favourite episode. An url not cached
+   * yet is cached the next time it is played.
+   */
+  public pin(url: string): void {
+    const entry = this._find(url) || this._add(url);
+    entry.pinned = true;
+    this._save();
+  }
+
+  public unpin(url: string): void {
+    const entry = this._find(url);
+    if (!entry) {
+      return;
+    }
+    entry.pinned = false;
+    if (!entry.bytesCached) {
+      this._entries.splice(this._entries.indexOf(entry), 1);
+    }
+    this._save();
+    this._fitIn(null, 0);
+  }
+
+  /**
+   * Deletes the cached file of an url, pinned or not.
+   */
+  public remove(url: string): void {
+    const entry = this._find(url);
+    if (entry) {
+      this._delete(entry);
+      this._save();
+    }
+  }
+
+  /**
+   * Deletes the cached files, pinned files are kept unless `includePinned` is set.
+   */
+  public clearCache(includePinned: boolean = false): void {
+    try {
+      this._entries.filter(entry => includePinned || !entry.pinned).forEach(entry => this._delete(entry));
+      this._save();
+    } catch (error) {
+      console.error('[Code error AC02] Error clearing the cache:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Called by the player before it streams a remote audio file, which it then reads with `read`.
+   * The size of a file played for the first time is asked for with a HEAD request.
+   * @returns false when the file cannot be streamed through the cache, e.g. a live stream of no
+   * known size, the player then streams the url itself
+   */
+  public openStream(url: string, headers: RequestHeaders | null): Promise<boolean> {
+    if (this._disposed) {
+      return Promise.resolve(false);
+    }
+    const entry = this._find(url);
+    const size = entry && entry.totalBytes ? Promise.resolve(entry.totalBytes) : this._fetchSize(url, headers || {});
+    return size
+      .then(totalBytes => {
+        if (!totalBytes) {
+          return false;
+        }
+        this._streams.set(url, { headers: headers || {}, totalBytes });
+        const current = this._find(url) || this._add(url);
+        current.totalBytes = totalBytes;
+        this._save();
+        return true;
+      })
+      .catch(error => {
+        console.warn(`[Code warning AC08] Streaming ${url} without the cache:`, error && error.message ? error.message : error);
+        return false;
+      });
+  }
+
+  /**
+   * Bytes of a file opened with `openStream`, from the chunk holding `position` on. A chunk not
+   * cached yet is fetched with a Range request and kept, a chunk asked for again meanwhile is
+   * fetched once. Once the file is complete, the whole file is read.
+   */
+  public read(url: string, position: number): Promise<CachedBytes> {
+    const stream = this._streams.get(url);
+    if (!stream) {
+      return Promise.reject(new Error(`Not opened with openStream: ${url}`));
+    }
+    if (!(position >= 0 && position < stream.totalBytes)) {
+      return Promise.reject(new RangeError(`Position ${position} is out of the ${stream.totalBytes} bytes of ${url}`));
+    }
+    const entry = this._find(url);
+    if (entry) {
+      entry.lastAccess = Date.now();
+    }
+    if (this.getLocalPath(url)) {
+      return File.fromPath(entry.path).read().then(bytes => ({ start: 0, bytes, totalBytes: stream.totalBytes }));
+    }
+    const start = position - (position % this._options.chunkSize);
+    const key = `${start} ${url}`;
+    let fetch = this._fetches.get(key);
+    if (fetch) {
+      return fetch;
+    }
+    const chunkPath = entry && this._chunkPath(entry, start);
+    if (chunkPath && File.exists(chunkPath)) {
+      return File.fromPath(chunkPath).read().then(bytes => ({ start, bytes, totalBytes: stream.totalBytes }));
+    }
+    fetch = this._fetchChunk(url, stream, start);
+    this._fetches.set(key, fetch);
+    const done = () => this._fetches.delete(key);
+    fetch.then(done, done);
+    return fetch;
+  }
+
+  /**
+   * Caches a file the player downloaded whole, e.g. on iOS to play it with `AVAudioPlayer`.
+   * @param bytes - A `byte[]` on Android, an `NSData` on iOS.
+   */
+  public put(url: string, bytes: any): Promise<void> {
+    return this._storeFile(url, bytes).catch(error => console.error('[Code error AC09] Error caching the file:', url, error));
+  }
+
+  /**
+   * Called by the player once an item is prepared, except live streams. A completely cached file
+   * counts as a hit, any other remote file as a miss. HLS and playlists are not cached.
+   */
+  public onPrepared(options: AudioPlayerOptions): void {
+    try {
+      const url = options.audioFile;
+      if (!isStringUrl(url) || streamSourceType(url) !== StreamSourceType.Audio) {
+        return;
+      }
+      const playedPath = resolveAudioFilePath(url);
+      if (!isStringUrl(playedPath) && playedPath !== this.getLocalPath(url)) {
+        // played from another local copy, e.g. a download
+        return;
+      }
+      const entry = this._find(url) || this._add(url);
+      entry.lastAccess = Date.now();
+      if (this.getLocalPath(url)) {
+        this._hits++;
+      } else {
+        this._misses++;
+      }
+      this._save();
+    } catch (error) {
+      console.error('[Code error AC03] Error caching the item:', error);
+    }
+  }
+
+  /**
+   * Stops caching and serving cached files to the players. Files streaming through the cache go on
+   * streaming from the network, what was cached stays on disk.
+   */
+  public dispose(): void {
+    unregisterLocalAudioSource(this._localSource);
+    this._disposed = true;
+  }
+
+  private _find(url: string): CacheEntry | undefined {
+    return this._entries.find(entry => entry.url === url);
+  }
+
+  private _add(url: string): CacheEntry {
+    const entry: CacheEntry = {
+      url,
+      path: nsFilePath.join(this._folder.path, fileNameFor(url)),
+      bytesCached: 0,
+      totalBytes: 0,
+      complete: false,
+      pinned: false,
+      lastAccess: Date.now()
+    };
+    this._entries.push(entry);
+    return entry;
+  }
+
+  private _chunkPath(entry: CacheEntry, start: number): string {
+    return nsFilePath.join(entry.path + '.part', String(start));
+  }
+
+  /**
+   * Starts of the chunks of a file, in order.
+   */
+  private _chunkStarts(entry: CacheEntry): number[] {
+    const starts: number[] = [];
+    for (let start = 0; start < entry.totalBytes; start += this._options.chunkSize) {
+      starts.push(start);
+    }
+    return starts;
+  }
+
+  private _fetchSize(url: string, headers: RequestHeaders): Promise<number> {
+    return Http.request({ url, method: 'HEAD', headers, timeout: this._options.timeout }).then(response => {
+      if (response.statusCode >= 400) {
+        throw new Error(`HTTP ${response.statusCode}`);
+      }
+      return parseInt(headerOf(response, 'Content-Length'), 10) || 0;
+    });
+  }
+
+  private _fetchChunk(url: string, stream: CacheStream, start: number): Promise<CachedBytes> {
+    const end = Math.min(start + this._options.chunkSize, stream.totalBytes) - 1;
+    const headers = Object.assign({}, stream.headers, { Range: `bytes=${start}-${end}` });
+    return Http.request({ url, method: 'GET', headers, timeout: this._options.timeout }).then(response => {
+      const status = response.statusCode;
+      if (status !== 200 && status !== 206) {
+        throw new AudioPlayerError(AudioPlayerErrorCode.SourceUnavailable, `HTTP error ${status}`, null, status);
+      }
+      const bytes = this._bytesOf(response);
+      if (status === 200) {
+        // the server ignored the Range header and sent the whole file
+        stream.totalBytes = bytes.length;
+        return this._storeFile(url, bytes)
+          .catch(error => console.error('[Code error AC09] Error caching the file:', url, error))
+          .then(() => ({ start: 0, bytes, totalBytes: stream.totalBytes }));
+      }
+      const range = /\/(\d+)\s*$/.exec(headerOf(response, 'Content-Range') || '');
+      if (range) {
+        stream.totalBytes = parseInt(range[1], 10);
+      }
+      const chunk = { start, bytes, totalBytes: stream.totalBytes };
+      if (bytes.length !== Math.min(this._options.chunkSize, stream.totalBytes - start)) {
+        // not the chunk asked for, handed over without keeping it
+        return chunk;
+      }
+      return this._storeChunk(url, stream, start, bytes)
+        .catch(error => console.error('[Code error AC10] Error caching a chunk:', url, error))
+        .then(() => chunk);
+    });
+  }
+
+  private _bytesOf(response: HttpResponse): any {
+    return isAndroid ? response.content.raw.toByteArray() : response.content.raw;
+  }
+
+  private _storeChunk(url: string, stream: CacheStream, start: number, bytes: any): Promise<void> {
+    if (this._disposed || this._oversized.has(url)) {
+      return Promise.resolve();
+    }
+    // cached again when it was removed while playing
+    const entry = this._find(url) || this._add(url);
+    entry.totalBytes = stream.totalBytes;
+    const chunkPath = this._chunkPath(entry, start);
+    if (entry.complete || File.exists(chunkPath)) {
+      return Promise.resolve();
+    }
+    if (!this._fitIn(entry, entry.bytesCached + bytes.length)) {
+      this._tooLarge(entry);
+      return Promise.resolve();
+    }
+    // creates the folder of the chunks
+    Folder.fromPath(entry.path + '.part');
+    return File.fromPath(chunkPath).write(bytes).then(
+      () => {
+        if (this._entries.indexOf(entry) === -1) {
+          // removed while writing
+          this._deleteFile(chunkPath);
+          return Promise.resolve();
+        }
+        entry.bytesCached += bytes.length;
+        this._notify(CacheEvents.progress, entry);
+        this._save();
+        return entry.bytesCached >= entry.totalBytes ? this._join(entry) : Promise.resolve();
+      },
+      error => {
+        this._deleteFile(chunkPath);
+        throw error;
+      }
+    );
+  }
+
+  private _storeFile(url: string, bytes: any): Promise<void> {
+    if (this._disposed || this.getLocalPath(url)) {
+      return Promise.resolve();
+    }
+    const entry = this._find(url) || this._add(url);
+    this._deleteChunks(entry);
+    entry.bytesCached = 0;
+    entry.totalBytes = bytes.length;
+    if (!this._fitIn(entry, bytes.length)) {
+      this._tooLarge(entry);
+      return Promise.resolve();
+    }
+    return File.fromPath(entry.path).write(bytes).then(() => {
+      if (this._entries.indexOf(entry) === -1) {
+        this._deleteFile(entry.path);
+        return;
+      }
+      this._complete(entry);
+    });
+  }
+
+  /**
+   * Joins the chunks of a file cached from start to end into its file.
+   */
+  private _join(entry: CacheEntry): Promise<void> {
+    const starts = this._chunkStarts(entry);
+    if (this._joining.has(entry) || starts.some(start => !File.exists(this._chunkPath(entry, start)))) {
+      return Promise.resolve();
+    }
+    this._joining.add(entry);
+    this._deleteFile(entry.path);
+    const file = File.fromPath(entry.path);
+    return starts
+      .reduce((joined, start) => joined.then(() => File.fromPath(this._chunkPath(entry, start)).read()).then(bytes => file.append(bytes)), Promise.resolve())
+      .then(() => {
+        this._joining.delete(entry);
+        if (this._entries.indexOf(entry) === -1) {
+          this._deleteFile(entry.path);
+          return;
+        }
+        this._deleteChunks(entry);
+        this._complete(entry);
+      })
+      .catch(error => {
+        this._joining.delete(entry);
+        console.error('[Code error AC04] Error completing the cached file:', entry.url, error);
+        this._deleteFile(entry.path);
+      });
+  }
+
+  private _complete(entry: CacheEntry) {
+    entry.bytesCached = File.fromPath(entry.path).size;
+    entry.totalBytes = entry.bytesCached;
+    entry.complete = true;
+    this._save();
+    this._notify(CacheEvents.completed, entry);
+  }
+
+  /**
+   * Gives up caching a file that does not fit, even with every other unpinned file evicted.
+   */
+  private _tooLarge(entry: CacheEntry) {
+    console.warn(`[Code warning AC05] Not caching ${entry.url}, it does not fit in the cache of ${this._options.maxBytes} bytes`);
+    this._oversized.add(entry.url);
+    if (!entry.pinned) {
+      this._delete(entry);
+    }
+    this._save();
+  }
+
+  /**
+   * Evicts the least recently played files that are not pinned until the cache holds `bytes` for
+   * the file caching, its whole size once known.
+   * @returns false when the file does not fit, even with every other unpinned file evicted
+   */
+  private _fitIn(entry: CacheEntry | null, bytes: number): boolean {
+    const limit = this._options.maxBytes;
+    const needed = entry ? Math.max(bytes, entry.totalBytes) : 0;
+    let used = this.usedBytes - (entry ? entry.bytesCached : 0) + needed;
+    const candidates = this._entries
+      .filter(candidate => candidate !== entry && !candidate.pinned && candidate.bytesCached > 0)
+      .sort((a, b) => a.lastAccess - b.lastAccess);
+    while (used > limit && candidates.length) {
+      const victim = candidates.shift();
+      used -= victim.bytesCached;
+      this._delete(victim);
+      this._evictions++;
+      this._notify(CacheEvents.evicted, victim);
+    }
+    this._save();
+    return used <= limit;
+  }
+
+  private _delete(entry: CacheEntry) {
+    const index = this._entries.indexOf(entry);
+    if (index !== -1) {
+      this._entries.splice(index, 1);
+    }
+    this._deleteFile(entry.path);
+    this._deleteChunks(entry);
+  }
+
+  private _deleteChunks(entry: CacheEntry) {
+    const partPath = entry.path + '.part';
+    if (Folder.exists(partPath)) {
+      Folder.fromPath(partPath).removeSync();
+    }
+  }
+
+  private _deleteFile(filePath: string) {
+    if (File.exists(filePath)) {
+      File.fromPath(filePath).removeSync();
+    }
+  }
+
+  private _notify(eventName: string, entry: CacheEntry) {
+    this.notify(<CacheEventData>{ eventName, object: this, entry: Object.assign({}, entry) });
+  }
+
+  private _save() {
+    try {
+      ApplicationSettings.setString(this._settingsKey, JSON.stringify(this._entries));
+    } catch (error) {
+      console.error('[Code error AC06] Error saving the cache index:', error);
+    }
+  }
+
+  /**
+   * Reloads the index of a previous session. Files the system cleared from the temporary folder
+   * are dropped, pinned urls are kept to be cached again. A file whose chunks were all cached
+   * but not joined yet, e.g. when the app was stopped meanwhile, is joined.
+   */
+  private _restore() {
+    try {
+      const saved: CacheEntry[] = JSON.parse(ApplicationSettings.getString(this._settingsKey, '[]'));
+      this._entries = saved.filter(entry => {
+        entry.complete = entry.complete && File.exists(entry.path);
+        entry.bytesCached = entry.complete ? File.fromPath(entry.path).size : this._restoreChunks(entry);
+        return entry.bytesCached > 0 || entry.pinned;
+      });
+      this._entries.filter(entry => !entry.complete && entry.totalBytes && entry.bytesCached >= entry.totalBytes).forEach(entry => this._join(entry));
+    } catch (error) {
+      console.error('[Code error AC07] Error restoring the cache index:', error);
+      this._entries = [];
+    }
+  }
+
+  /**
+   * Bytes of the chunks of a file left by a previous session. Chunks cut short while they were
+   * written, or of another `chunkSize`, are deleted.
+   */
+  private _restoreChunks(entry: CacheEntry): number {
+    const partPath = entry.path + '.part';
+    if (!Folder.exists(partPath)) {
+      return 0;
+    }
+    const chunkSize = this._options.chunkSize;
+    return Folder.fromPath(partPath)
+      .getEntitiesSync()
+      .reduce((total, chunk) => {
+        const start = Number(chunk.name);
+        const size = (<File>chunk).size;
+        if (entry.totalBytes && start % chunkSize === 0 && size === Math.min(chunkSize, entry.totalBytes - start)) {
+          return total + size;
+        }
+        chunk.removeSync();
+        return total;
+      }, 0);
+  }
+}
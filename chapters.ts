@@ -0,0 +1,395 @@
+export interface AudioChapter {
+  /**
+   * Start of the chapter in seconds.
+   */
+  startTime: number;
+  /**
+   * End of the chapter in seconds. When missing the chapter lasts until the next one starts.
+   */
+  endTime?: number;
+  title: string;
+  url?: string;
+  img?: string;
+  /**
+   * Podcasting 2.0 `toc` flag, false for chapters that should not be listed in a table of contents.
+   */
+  toc?: boolean;
+}
+
+export interface ChapterChangedEventData {
+  chapter: AudioChapter | null;
+  index: number;
+  previousIndex: number;
+}
+
+/**
+ * Reads Podcasting 2.0 JSON chapters (https://github.com/Podcastindex-org/podcast-namespace/blob/main/chapters/jsonChapters.md).
+ * @param json - The chapters document, as a string or already parsed.
+ */
+export function parseJsonChapters(json: string | any): AudioChapter[] {
+  try {
+    const document = typeof json === 'string' ? JSON.parse(json) : json;
+    const list = Array.isArray(document) ? document : document && document.chapters;
+    if (!Array.isArray(list)) {
+      return [];
+    }
+    return sortChapters(
+      list
+        .filter(item => item && typeof item.startTime === 'number' && item.startTime >= 0)
+        .map(item => {
+          const chapter: AudioChapter = { startTime: item.startTime, title: item.title || '' };
+          if (typeof item.endTime === 'number' && item.endTime > item.startTime) {
+            chapter.endTime = item.endTime;
+          }
+          if (item.url) {
+            chapter.url = item.url;
+          }
+          if (item.img) {
+            chapter.img = item.img;
+          }
+          if (item.toc === false) {
+            chapter.toc = false;
+          }
+          return chapter;
+        })
+    );
+  } catch (error) {
+    console.error('[Code error CH01] Error parsing JSON chapters:', error);
+    throw error;
+  }
+}
+
+/**
+ * Returns the full size (header included) of the ID3v2 tag starting a file,
+ * or 0 when the header does not belong to an ID3v2 tag.
+ * @param header - At least the first 10 bytes of the file.
+ */
+export function id3TagSize(header: Uint8Array): number {
+  if (header.length < 10 || header[0] !== 0x49 || header[1] !== 0x44 || header[2] !== 0x33) {
+    return 0;
+  }
+  const hasFooter = (header[5] & 0x10) !== 0;
+  return 10 + synchsafe(header, 6) + (hasFooter ? 10 : 0);
+}
+
+/**
+ * Reads ID3v2.3 / ID3v2.4 CHAP frames, ordered by the top level CTOC frame when there is one.
+ * @param tag - The ID3v2 tag bytes, starting with the "ID3" header.
+ */
+export function parseId3Chapters(tag: Uint8Array): AudioChapter[] {
+  try {
+    const size = id3TagSize(tag);
+    if (!size) {
+      return [];
+    }
+    const version = tag[3];
+    const flags = tag[5];
+    const end = Math.min(size, tag.length);
+    let offset = 10;
+    if (flags & 0x40) {
+      // skip the extended header, its size field includes itself in v2.4 only
+      offset += version === 4 ? synchsafe(tag, offset) : uint32(tag, offset) + 4;
+    }
+
+    const chapters: { [id: string]: AudioChapter } = {};
+    let order: string[] = null;
+    for (const frame of readFrames(tag, offset, end, version)) {
+      if (frame.id === 'CHAP') {
+        const idEnd = indexOfZero(tag, frame.start, frame.end);
+        const id = latin1(tag, frame.start, idEnd);
+        const times = idEnd + 1;
+        if (times + 16 > frame.end) {
+          continue;
+        }
+        const chapter: AudioChapter = {
+          startTime: uint32(tag, times) / 1000,
+          title: ''
+        };
+        const endTime = uint32(tag, times + 4);
+        if (endTime !== 0xffffffff && endTime / 1000 > chapter.startTime) {
+          chapter.endTime = endTime / 1000;
+        }
+        for (const sub of readFrames(tag, times + 16, frame.end, version)) {
+          if (sub.id === 'TIT2') {
+            chapter.title = decodeText(tag, sub.start + 1, sub.end, tag[sub.start]);
+          } else if (sub.id === 'WXXX') {
+            // encoding, description, then a latin1 url
+            const encoding = tag[sub.start];
+            const descriptionEnd = indexOfTerminator(tag, sub.start + 1, sub.end, encoding);
+            const urlStart = descriptionEnd + (encoding === 1 || encoding === 2 ? 2 : 1);
+            chapter.url = latin1(tag, urlStart, indexOfZero(tag, urlStart, sub.end));
+          }
+        }
+        chapters[id] = chapter;
+      } else if (frame.id === 'CTOC' && !order) {
+        const idEnd = indexOfZero(tag, frame.start, frame.end);
+        const tocFlags = tag[idEnd + 1];
+        const isTopLevel = (tocFlags & 0x02) !== 0;
+        if (!isTopLevel) {
+          continue;
+        }
+        const count = tag[idEnd + 2];
+        let position = idEnd + 3;
+        order = [];
+        for (let i = 0; i < count && position < frame.end; i++) {
+          const childEnd = indexOfZero(tag, position, frame.end);
+          order.push(latin1(tag, position, childEnd));
+          position = childEnd + 1;
+        }
+      }
+    }
+
+    if (order && order.length) {
+      const ordered = order.map(id => chapters[id]).filter(chapter => !!chapter);
+      if (ordered.length) {
+        return ordered;
+      }
+    }
+    return sortChapters(Object.keys(chapters).map(id => chapters[id]));
+  } catch (error) {
+    console.error('[Code error CH02] Error parsing ID3 chapters:', error);
+    throw error;
+  }
+}
+
+/**
+ * Keeps track of the chapter under the playback position. Instead of polling,
+ * it schedules a single timer for the next chapter boundary, in wall clock time
+ * at the current playback rate, so the players call `update()` whenever the
+ * position or the rate changes (prepare, play, pause, seek, speed change).
+ */
+export class ChapterTracker {
+  private _chapters: AudioChapter[] = [];
+  private _index = -1;
+  private _timer: any;
+
+  constructor(
+    private _getPosition: () => number,
+    private _getRate: () => number,
+    private _isPlaying: () => boolean,
+    private _onChange: (data: ChapterChangedEventData) => void
+  ) { }
+
+  get chapters(): AudioChapter[] {
+    return this._chapters.slice();
+  }
+
+  get currentIndex(): number {
+    return this._index;
+  }
+
+  get current(): AudioChapter | null {
+    return this._chapters[this._index] || null;
+  }
+
+  setChapters(chapters: AudioChapter[]) {
+    this._chapters = sortChapters((chapters || []).slice());
+    this._index = -1;
+  }
+
+  /**
+   * Index of the chapter playing at the given time, -1 before the first
+   * chapter or in a gap between chapters.
+   */
+  indexAt(time: number): number {
+    let index = -1;
+    for (let i = 0; i < this._chapters.length; i++) {
+      if (this._chapters[i].startTime <= time) {
+        index = i;
+      } else {
+        break;
+      }
+    }
+    const chapter = this._chapters[index];
+    if (chapter && chapter.endTime !== undefined && time >= chapter.endTime) {
+      return -1;
+    }
+    return index;
+  }
+
+  /**
+   * Index of the first chapter starting after the given time, -1 when there is none.
+   */
+  nextIndexAt(time: number): number {
+    for (let i = 0; i < this._chapters.length; i++) {
+      if (this._chapters[i].startTime > time) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  /**
+   * Index of the chapter before the one playing at the given time or, in a gap between
+   * chapters, of the last chapter starting before it. -1 when there is none.
+   */
+  previousIndexAt(time: number): number {
+    const index = this.indexAt(time);
+    if (index !== -1) {
+      return index - 1;
+    }
+    let previous = -1;
+    for (let i = 0; i < this._chapters.length && this._chapters[i].startTime < time; i++) {
+      previous = i;
+    }
+    return previous;
+  }
+
+  /**
+   * Re-evaluates the current chapter and reschedules the boundary timer.
+   * @param position - The known position in seconds, when the player may not report it yet (after a seek).
+   */
+  update(position?: number) {
+    try {
+      this._clearTimer();
+      if (!this._chapters.length) {
+        return;
+      }
+      const time = typeof position === 'number' ? position : this._getPosition();
+      const index = this.indexAt(time);
+      if (index !== this._index) {
+        const previousIndex = this._index;
+        this._index = index;
+        this._onChange({ chapter: this.current, index, previousIndex });
+      }
+      if (this._isPlaying()) {
+        this._schedule(time);
+      }
+    } catch (error) {
+      console.error('[Code error CH03] Error updating current chapter:', error);
+    }
+  }
+
+  stop() {
+    this._clearTimer();
+  }
+
+  reset() {
+    this._clearTimer();
+    this._chapters = [];
+    this._index = -1;
+  }
+
+  private _schedule(time: number) {
+    const boundary = this._nextBoundary(time);
+    if (boundary === undefined) {
+      return;
+    }
+    const rate = this._getRate() || 1;
+    // land slightly after the boundary so the position is past it when we check
+    const delay = Math.max(0, ((boundary - time) / rate) * 1000) + 50;
+    this._timer = setTimeout(() => {
+      this._timer = undefined;
+      this.update();
+    }, delay);
+  }
+
+  private _nextBoundary(time: number): number | undefined {
+    const current = this._chapters[this._index];
+    if (current && current.endTime !== undefined && current.endTime > time) {
+      const next = this._chapters[this._index + 1];
+      return next && next.startTime < current.endTime ? next.startTime : current.endTime;
+    }
+    const next = this._chapters.find(chapter => chapter.startTime > time);
+    return next ? next.startTime : undefined;
+  }
+
+  private _clearTimer() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+}
+
+function sortChapters(chapters: AudioChapter[]): AudioChapter[] {
+  return chapters.sort((a, b) => a.startTime - b.startTime);
+}
+
+interface Id3Frame {
+  id: string;
+  start: number;
+  end: number;
+}
+
+function readFrames(tag: Uint8Array, offset: number, end: number, version: number): Id3Frame[] {
+  const frames: Id3Frame[] = [];
+  while (offset + 10 <= end) {
+    const id = latin1(tag, offset, offset + 4);
+    if (!/^[A-Z0-9]{4}$/.test(id)) {
+      // reached the padding
+      break;
+    }
+    const size = version === 4 ? synchsafe(tag, offset + 4) : uint32(tag, offset + 4);
+    const start = offset + 10;
+    frames.push({ id, start, end: Math.min(start + size, end) });
+    offset = start + size;
+  }
+  return frames;
+}
+
+function synchsafe(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] & 0x7f) << 21) | ((bytes[offset + 1] & 0x7f) << 14) | ((bytes[offset + 2] & 0x7f) << 7) | (bytes[offset + 3] & 0x7f);
+}
+
+function uint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) >>> 0) + (bytes[offset + 1] << 16) + (bytes[offset + 2] << 8) + bytes[offset + 3];
+}
+
+function indexOfZero(bytes: Uint8Array, start: number, end: number): number {
+  for (let i = start; i < end; i++) {
+    if (bytes[i] === 0) {
+      return i;
+    }
+  }
+  return end;
+}
+
+function indexOfTerminator(bytes: Uint8Array, start: number, end: number, encoding: number): number {
+  if (encoding !== 1 && encoding !== 2) {
+    return indexOfZero(bytes, start, end);
+  }
+  for (let i = start; i + 1 < end; i += 2) {
+    if (bytes[i] === 0 && bytes[i + 1] === 0) {
+      return i;
+    }
+  }
+  return end;
+}
+
+function latin1(bytes: Uint8Array, start: number, end: number): string {
+  let text = '';
+  for (let i = start; i < end; i++) {
+    text += String.fromCharCode(bytes[i]);
+  }
+  return text;
+}
+
+/**
+ * Decodes an ID3 text field: 0 = ISO-8859-1, 1 = UTF-16 with BOM, 2 = UTF-16BE, 3 = UTF-8.
+ */
+function decodeText(bytes: Uint8Array, start: number, end: number, encoding: number): string {
+  end = indexOfTerminator(bytes, start, end, encoding);
+  if (encoding === 1 || encoding === 2) {
+    let littleEndian = false;
+    if (encoding === 1 && end - start >= 2) {
+      littleEndian = bytes[start] === 0xff && bytes[start + 1] === 0xfe;
+      if (littleEndian || (bytes[start] === 0xfe && bytes[start + 1] === 0xff)) {
+        start += 2;
+      }
+    }
+    let text = '';
+    for (let i = start; i + 1 < end; i += 2) {
+      text += String.fromCharCode(littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]);
+    }
+    return text;
+  }
+  if (encoding === 3) {
+    try {
+      return decodeURIComponent(escape(latin1(bytes, start, end)));
+    } catch (error) {
+      return latin1(bytes, start, end);
+    }
+  }
+  return latin1(bytes, start, end);
+}
@@ -1,5 +1,5 @@
-import { knownFolders, path as nsFilePath, Utils } from '@nativescript/core';
-import { AudioPlayerOptions } from './options';
+import { knownFolders, Observable, path as nsFilePath, Utils } from '@nativescript/core';
+import { AudioPlayerOptions, AudioRecorderOptions } from './options';
 
 export interface TNSPlayerI {
   /**
@@ -8,6 +8,11 @@ export interface TNSPlayerI {
   readonly ios?: any;
   readonly android?: any;
 
+  /**
+   * Player events, see `AudioPlayerEvents`.
+   */
+  readonly events?: Observable;
+
   /**
    * Volume getter/setter
    */
@@ -52,6 +57,43 @@ export interface TNSPlayerI {
    * current time
    */
   readonly currentTime: number;
+
+  /**
+   * Prepares the item to play after the current one, for a gapless or crossfaded transition.
+   */
+  setNextItem?(options: AudioPlayerOptions | null): Promise<any>;
+}
+
+export interface TNSRecordI {
+  /**
+   * Recorder events, see `AudioRecorderEvents`.
+   */
+  readonly events: Observable;
+
+  /**
+   * Starts recording to `options.filename`.
+   */
+  start(options: AudioRecorderOptions): Promise<any>;
+
+  pause(): Promise<any>;
+
+  resume(): Promise<any>;
+
+  /**
+   * Stops recording, resolves the path of the recorded file.
+   */
+  stop(): Promise<string>;
+
+  /**
+   * Releases the recorder.
+   */
+  dispose(): Promise<any>;
+
+  isRecording(): boolean;
+
+  hasRecordPermission(): boolean;
+
+  requestRecordPermission(): Promise<boolean>;
 }
 
 /**
@@ -73,16 +115,45 @@ export function isStringUrl(value: string): boolean {
   }
 }
 
+const localAudioSources: Array<(url: string) => string | null> = [];
+
+/**
+ * Registers a lookup returning a local file to play instead of an url (e.g. a downloaded episode).
+ * @param source [function] - Returns the local path for an url, or null.
+ */
+export function registerLocalAudioSource(source: (url: string) => string | null) {
+  if (localAudioSources.indexOf(source) === -1) {
+    localAudioSources.push(source);
+  }
+}
+
+export function unregisterLocalAudioSource(source: (url: string) => string | null) {
+  const index = localAudioSources.indexOf(source);
+  if (index !== -1) {
+    localAudioSources.splice(index, 1);
+  }
+}
+
 /**
- * Will determine if a string is a url or a local path. If the string is a url it will return the url.
+ * Will determine if a string is a url or a local path. If the string is a url it will return the url,
+ * or the local copy of it when a registered local audio source has one.
  * If it is a local path, then the file-system module will return the file system path.
  * @param path [string]
  */
 export function resolveAudioFilePath(path: string) {
   if (path) {
+    if (path.indexOf('file://') === 0) {
+      return decodeURIComponent(path.slice('file://'.length));
+    }
     const isUrl = isStringUrl(path);
     // if it's a url just return the audio file url
     if (isUrl === true) {
+      for (const source of localAudioSources) {
+        const localPath = source(path);
+        if (localPath) {
+          return localPath;
+        }
+      }
       return path;
     } else {
       let audioPath;
@@ -93,10 +164,23 @@ export function resolveAudioFilePath(path: string) {
           fileName.replace('~/', '')
         );
         audioPath = fileName;
+      } else if (fileName && fileName.indexOf('/') !== 0 && fileName.indexOf('res://') !== 0) {
+        // relative paths are in the documents folder
+        audioPath = nsFilePath.join(knownFolders.documents().path, fileName);
       } else {
         audioPath = fileName;
       }
       return audioPath;
     }
   }
+}
+
+/**
+ * File system path of a local audio file, for `playFromFile`, resolved like `resolveAudioFilePath` does.
+ * Returns null for a remote url without a local copy.
+ * @param path [string]
+ */
+export function resolveLocalAudioFilePath(path: string): string | null {
+  const audioPath = resolveAudioFilePath(path);
+  return audioPath && !isStringUrl(audioPath) ? audioPath : null;
 }
\ No newline at end of file
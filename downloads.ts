@@ -0,0 +1,469 @@
+import { ApplicationSettings, EventData, File, Folder, Http, HttpResponse, isAndroid, knownFolders, Observable, path as nsFilePath } from '@nativescript/core';
+import { registerLocalAudioSource, unregisterLocalAudioSource } from './common';
+
+export enum DownloadStatus {
+  Queued = 'queued',
+  Downloading = 'downloading',
+  Paused = 'paused',
+  Completed = 'completed',
+  Failed = 'failed'
+}
+
+export interface DownloadInfo {
+  /**
+   * The id given to `download()`, defaults to the url.
+   */
+  id: string;
+  url: string;
+  /**
+   * Where the file is (or will be once completed) on disk.
+   */
+  path: string;
+  status: DownloadStatus;
+  bytesWritten: number;
+  /**
+   * Size of the file, 0 until the server reported it.
+   */
+  totalBytes: number;
+  /**
+   * Failed attempts since the last successful chunk.
+   */
+  attempts: number;
+  error?: string;
+}
+
+export interface DownloadManagerOptions {
+  /**
+   * Subfolder of the documents folder the episodes are saved to. Defaults to `podcast-audio`.
+   */
+  folder?: string;
+  /**
+   * Number of downloads running at the same time. Defaults to 2.
+   */
+  maxConcurrent?: number;
+  /**
+   * Retries of a failing chunk before the download fails. Defaults to 3.
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled on each following retry. Defaults to 2000.
+   */
+  retryDelay?: number;
+  /**
+   * Bytes requested per HTTP Range request. Defaults to 1 MB.
+   */
+  chunkSize?: number;
+  /**
+   * Maximum bytes used by all downloads together, 0 for no limit.
+   */
+  maxStorageBytes?: number;
+  /**
+   * Extra headers sent with every request.
+   */
+  headers?: { [name: string]: string };
+  /**
+   * Request timeout in milliseconds.
+   */
+  timeout?: number;
+  /**
+   * Let `TNSPlayer.playFromUrl` play the downloaded copy of a url. Defaults to true.
+   */
+  playLocalCopies?: boolean;
+}
+
+export const DownloadEvents = {
+  progress: 'downloadProgress',
+  statusChanged: 'downloadStatusChanged',
+  completed: 'downloadCompleted',
+  failed: 'downloadFailed'
+};
+
+export interface DownloadEventData extends EventData {
+  download: DownloadInfo;
+}
+
+const defaultOptions: DownloadManagerOptions = {
+  folder: 'podcast-audio',
+  maxConcurrent: 2,
+  maxRetries: 3,
+  retryDelay: 2000,
+  chunkSize: 1024 * 1024,
+  maxStorageBytes: 0,
+  playLocalCopies: true
+};
+
+/**
+ * Downloads episodes to the documents folder in HTTP Range chunks, so downloads
+ * can be paused, resumed (also after an app restart) and retried chunk by chunk.
+ */
+export class DownloadManager extends Observable {
+  private _options: DownloadManagerOptions;
+  private _folder: Folder;
+  private _downloads: DownloadInfo[] = [];
+  private _running = new Set<DownloadInfo>();
+  private _settingsKey: string;
+  private _localSource = (url: string) => this.getLocalPath(url);
+
+  constructor(options?: DownloadManagerOptions) {
+    super();
+    try {
+      this._options = Object.assign({}, defaultOptions, options || {});
+      this._folder = knownFolders.documents().getFolder(this._options.folder);
+      this._settingsKey = `podcast-audio.downloads.${this._options.folder}`;
+      this._restore();
+      if (this._options.playLocalCopies) {
+        registerLocalAudioSource(this._localSource);
+      }
+    } catch (error) {
+      console.error('[Code error DL01] Error creating DownloadManager:', error);
+      throw error;
+    }
+  }
+
+  get folderPath(): string {
+    return this._folder.path;
+  }
+
+  /**
+   * Bytes used on disk by all the downloads, finished or not.
+   */
+  get usedBytes(): number {
+    return this._downloads.reduce((total, download) => total + download.bytesWritten, 0);
+  }
+
+  /**
+   * Queues a download. Downloading an url again returns the existing download,
+   * resuming it when it was paused or failed.
+   * @param url [string] - The audio file url.
+   * @param id [string] - Optional id to find the download with later, e.g. the episode guid.
+   */
+  public download(url: string, id?: string): DownloadInfo {
+    try {
+      const existing = this.get(id || url);
+      if (existing) {
+        if (existing.status === DownloadStatus.Paused || existing.status === DownloadStatus.Failed) {
+          this.resume(existing.id);
+        }
+        return existing;
+      }
+      const download: DownloadInfo = {
+        id: id || url,
+        url,
+        path: nsFilePath.join(this._folder.path, fileNameFor(url)),
+        status: DownloadStatus.Queued,
+        bytesWritten: 0,
+        totalBytes: 0,
+        attempts: 0
+      };
+      this._downloads.push(download);
+      this._notify(DownloadEvents.statusChanged, download);
+      this._save();
+      this._pump();
+      return download;
+    } catch (error) {
+      console.error('[Code error DL02] Error queueing download:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Finds a download by id or url.
+   */
+  public get(idOrUrl: string): DownloadInfo | undefined {
+    return this._downloads.find(download => download.id === idOrUrl || download.url === idOrUrl);
+  }
+
+  public list(): DownloadInfo[] {
+    return this._downloads.slice();
+  }
+
+  /**
+   * The local file of a completed download, null when the url was not downloaded.
+   */
+  public getLocalPath(url: string): string | null {
+    const download = this._downloads.find(d => d.url === url && d.status === DownloadStatus.Completed);
+    return download && File.exists(download.path) ? download.path : null;
+  }
+
+  /**
+   * Stops a download after the chunk in flight, keeping what was downloaded.
+   */
+  public pause(idOrUrl: string): void {
+    const download = this.get(idOrUrl);
+    if (download && (download.status === DownloadStatus.Queued || download.status === DownloadStatus.Downloading)) {
+      this._setStatus(download, DownloadStatus.Paused);
+      this._pump();
+    }
+  }
+
+  /**
+   * Continues a paused or failed download from where it stopped.
+   */
+  public resume(idOrUrl: string): void {
+    const download = this.get(idOrUrl);
+    if (download && (download.status === DownloadStatus.Paused || download.status === DownloadStatus.Failed)) {
+      download.attempts = 0;
+      download.error = undefined;
+      this._setStatus(download, DownloadStatus.Queued);
+      this._pump();
+    }
+  }
+
+  /**
+   * Cancels a download and deletes its file.
+   */
+  public remove(idOrUrl: string): void {
+    try {
+      const download = this.get(idOrUrl);
+      if (!download) {
+        return;
+      }
+      this._downloads.splice(this._downloads.indexOf(download), 1);
+      this._running.delete(download);
+      this._deleteFiles(download);
+      this._save();
+      this._pump();
+    } catch (error) {
+      console.error('[Code error DL03] Error removing download:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Cancels all downloads and deletes their files.
+   */
+  public removeAll(): void {
+    this._downloads.slice().forEach(download => this.remove(download.id));
+  }
+
+  /**
+   * Stops serving local copies to the players. Running downloads are paused.
+   */
+  public dispose(): void {
+    unregisterLocalAudioSource(this._localSource);
+    this._downloads
+      .filter(download => download.status === DownloadStatus.Downloading || download.status === DownloadStatus.Queued)
+      .forEach(download => this._setStatus(download, DownloadStatus.Paused));
+  }
+
+  private _pump() {
+    for (const download of this._downloads) {
+      if (this._running.size >= this._options.maxConcurrent) {
+        return;
+      }
+      if (download.status === DownloadStatus.Queued && !this._running.has(download)) {
+        this._running.add(download);
+        this._setStatus(download, DownloadStatus.Downloading);
+        this._fetchChunk(download);
+      }
+    }
+  }
+
+  private _fetchChunk(download: DownloadInfo) {
+    const partial = File.fromPath(download.path + '.part');
+    const start = partial.size;
+    download.bytesWritten = start;
+    const end = start + this._options.chunkSize - 1;
+    const headers = Object.assign({}, this._options.headers || {}, { Range: `bytes=${start}-${end}` });
+    Http.request({ url: download.url, method: 'GET', headers, timeout: this._options.timeout })
+      .then(response => this._onChunk(download, partial, start, response))
+      .catch(error => this._onChunkError(download, error));
+  }
+
+  private _onChunk(download: DownloadInfo, partial: File, start: number, response: HttpResponse): Promise<any> | void {
+    if (!this._isCurrent(download)) {
+      return;
+    }
+    const status = response.statusCode;
+    if (status === 416) {
+      // nothing left to read: either we have everything or the partial file is stale
+      if (download.totalBytes && start >= download.totalBytes) {
+        return this._finish(download, partial);
+      }
+      partial.removeSync();
+      return this._onChunkError(download, new Error('Range not satisfiable, restarting download'));
+    }
+    if (status >= 400) {
+      const retryable = status >= 500 || status === 408 || status === 429;
+      return this._onChunkError(download, new Error(`HTTP ${status}`), !retryable);
+    }
+
+    let restart = false;
+    if (status === 206) {
+      const range = /\/(\d+)\s*$/.exec(headerOf(response, 'Content-Range') || '');
+      if (range) {
+        download.totalBytes = parseInt(range[1], 10);
+      }
+    } else {
+      // the server ignored the Range header and sent the whole file
+      restart = start > 0;
+      download.totalBytes = parseInt(headerOf(response, 'Content-Length'), 10) || 0;
+    }
+
+    if (!this._checkQuota(download)) {
+      return;
+    }
+
+    const bytes = isAndroid ? response.content.raw.toByteArray() : response.content.raw;
+    const length: number = bytes.length;
+    const write = restart ? partial.write(bytes) : partial.append(bytes);
+    return write.then(() => {
+      if (!this._isCurrent(download)) {
+        return;
+      }
+      download.bytesWritten = (restart ? 0 : start) + length;
+      download.attempts = 0;
+      if (status !== 206 && !download.totalBytes) {
+        download.totalBytes = download.bytesWritten;
+      }
+      this._notify(DownloadEvents.progress, download);
+      if (status !== 206 || length === 0 || download.bytesWritten >= download.totalBytes) {
+        return this._finish(download, partial);
+      }
+      this._save();
+      if (download.status === DownloadStatus.Downloading) {
+        this._fetchChunk(download);
+      } else {
+        this._running.delete(download);
+        this._pump();
+      }
+    });
+  }
+
+  private _onChunkError(download: DownloadInfo, error: any, permanent: boolean = false) {
+    if (!this._isCurrent(download)) {
+      return;
+    }
+    download.attempts++;
+    if (permanent || download.attempts > this._options.maxRetries) {
+      return this._fail(download, error);
+    }
+    const delay = this._options.retryDelay * Math.pow(2, download.attempts - 1);
+    console.warn(`[Code warning DL04] Download of ${download.url} failed, retrying in ${delay}ms:`, error);
+    setTimeout(() => {
+      if (!this._isCurrent(download)) {
+        return;
+      }
+      if (download.status === DownloadStatus.Downloading) {
+        this._fetchChunk(download);
+      } else {
+        this._running.delete(download);
+        this._pump();
+      }
+    }, delay);
+  }
+
+  private _checkQuota(download: DownloadInfo): boolean {
+    const limit = this._options.maxStorageBytes;
+    if (!limit || !download.totalBytes) {
+      return true;
+    }
+    const others = this._downloads
+      .filter(d => d !== download)
+      .reduce((total, d) => total + Math.max(d.bytesWritten, d.status === DownloadStatus.Failed ? 0 : d.totalBytes), 0);
+    if (others + download.totalBytes <= limit) {
+      return true;
+    }
+    this._deleteFiles(download);
+    download.bytesWritten = 0;
+    this._fail(download, new Error(`Storage quota of ${limit} bytes exceeded`));
+    return false;
+  }
+
+  private _finish(download: DownloadInfo, partial: File) {
+    try {
+      if (File.exists(download.path)) {
+        File.fromPath(download.path).removeSync();
+      }
+      partial.renameSync(download.path.slice(download.path.lastIndexOf('/') + 1));
+      download.bytesWritten = File.fromPath(download.path).size;
+      download.totalBytes = download.bytesWritten;
+      this._running.delete(download);
+      this._setStatus(download, DownloadStatus.Completed);
+      this._notify(DownloadEvents.completed, download);
+      this._pump();
+    } catch (error) {
+      this._fail(download, error);
+    }
+  }
+
+  private _fail(download: DownloadInfo, error: any) {
+    console.error('[Code error DL05] Download failed:', download.url, error);
+    download.error = error && error.message ? error.message : String(error);
+    this._running.delete(download);
+    this._setStatus(download, DownloadStatus.Failed);
+    this._notify(DownloadEvents.failed, download);
+    this._pump();
+  }
+
+  /**
+   * False once the download was removed while a request was in flight.
+   */
+  private _isCurrent(download: DownloadInfo): boolean {
+    return this._downloads.indexOf(download) !== -1;
+  }
+
+  private _setStatus(download: DownloadInfo, status: DownloadStatus) {
+    download.status = status;
+    this._notify(DownloadEvents.statusChanged, download);
+    this._save();
+  }
+
+  private _deleteFiles(download: DownloadInfo) {
+    [download.path, download.path + '.part'].forEach(filePath => {
+      if (File.exists(filePath)) {
+        File.fromPath(filePath).removeSync();
+      }
+    });
+  }
+
+  private _notify(eventName: string, download: DownloadInfo) {
+    this.notify(<DownloadEventData>{ eventName, object: this, download: Object.assign({}, download) });
+  }
+
+  private _save() {
+    try {
+      ApplicationSettings.setString(this._settingsKey, JSON.stringify(this._downloads));
+    } catch (error) {
+      console.error('[Code error DL06] Error saving downloads:', error);
+    }
+  }
+
+  /**
+   * Reloads the downloads of a previous session. Downloads that were running are paused,
+   * completed ones whose file disappeared are dropped.
+   */
+  private _restore() {
+    try {
+      const saved: DownloadInfo[] = JSON.parse(ApplicationSettings.getString(this._settingsKey, '[]'));
+      this._downloads = saved.filter(download => download.status !== DownloadStatus.Completed || File.exists(download.path));
+      this._downloads.forEach(download => {
+        if (download.status === DownloadStatus.Downloading || download.status === DownloadStatus.Queued) {
+          download.status = DownloadStatus.Paused;
+        }
+      });
+    } catch (error) {
+      console.error('[Code error DL07] Error restoring downloads:', error);
+      this._downloads = [];
+    }
+  }
+}
+
+export function headerOf(response: HttpResponse, name: string): string | undefined {
+  const headers = response.headers || {};
+  const key = Object.keys(headers).find(k => k.toLowerCase() === name.toLowerCase());
+  const value = key ? headers[key] : undefined;
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Stable file name for an url: a hash of the url plus its audio extension.
+ */
+export function fileNameFor(url: string): string {
+  let hash = 5381;
+  for (let i = 0; i < url.length; i++) {
+    hash = ((hash << 5) + hash + url.charCodeAt(i)) >>> 0;
+  }
+  const extension = /\.([a-z0-9]{2,4})(?:[?#]|$)/i.exec(url);
+  return `${hash.toString(16)}-${url.length}${extension ? '.' + extension[1].toLowerCase() : '.mp3'}`;
+}
@@ -0,0 +1,99 @@
+export enum AudioPlayerErrorCategory {
+  /**
+   * The audio could not be loaded: no connection, timeout, server error, missing file.
+   */
+  Network = 'network',
+  /**
+   * The audio was loaded but could not be decoded or played, or could not be recorded.
+   */
+  Decode = 'decode',
+  /**
+   * Audio focus (Android) or the audio session (iOS) was not granted.
+   */
+  Focus = 'focus',
+  /**
+   * The call does not fit the player state, e.g. `play()` before the audio is prepared.
+   */
+  State = 'state',
+  /**
+   * The app is not allowed to read the file or use the microphone.
+   */
+  Permission = 'permission'
+}
+
+/**
+ * Stable error codes, safe to compare against and to log.
+ */
+export enum AudioPlayerErrorCode {
+  NetworkFailure = 'networkFailure',
+  Timeout = 'timeout',
+  SourceUnavailable = 'sourceUnavailable',
+  DecodeFailed = 'decodeFailed',
+  UnsupportedFormat = 'unsupportedFormat',
+  PlaybackFailed = 'playbackFailed',
+  RecordingFailed = 'recordingFailed',
+  FocusDenied = 'focusDenied',
+  NotInitialized = 'notInitialized',
+  NotPrepared = 'notPrepared',
+  AlreadyPlaying = 'alreadyPlaying',
+  InvalidArgument = 'invalidArgument',
+  /**
+   * The call is not allowed in the current `PlayerState`, e.g. `play()` after `dispose()`.
+   */
+  InvalidState = 'invalidState',
+  PermissionDenied = 'permissionDenied'
+}
+
+const CATEGORIES: { [code: string]: AudioPlayerErrorCategory } = {
+  [AudioPlayerErrorCode.NetworkFailure]: AudioPlayerErrorCategory.Network,
+  [AudioPlayerErrorCode.Timeout]: AudioPlayerErrorCategory.Network,
+  [AudioPlayerErrorCode.SourceUnavailable]: AudioPlayerErrorCategory.Network,
+  [AudioPlayerErrorCode.DecodeFailed]: AudioPlayerErrorCategory.Decode,
+  [AudioPlayerErrorCode.UnsupportedFormat]: AudioPlayerErrorCategory.Decode,
+  [AudioPlayerErrorCode.PlaybackFailed]: AudioPlayerErrorCategory.Decode,
+  [AudioPlayerErrorCode.RecordingFailed]: AudioPlayerErrorCategory.Decode,
+  [AudioPlayerErrorCode.FocusDenied]: AudioPlayerErrorCategory.Focus,
+  [AudioPlayerErrorCode.NotInitialized]: AudioPlayerErrorCategory.State,
+  [AudioPlayerErrorCode.NotPrepared]: AudioPlayerErrorCategory.State,
+  [AudioPlayerErrorCode.AlreadyPlaying]: AudioPlayerErrorCategory.State,
+  [AudioPlayerErrorCode.InvalidArgument]: AudioPlayerErrorCategory.State,
+  [AudioPlayerErrorCode.InvalidState]: AudioPlayerErrorCategory.State,
+  [AudioPlayerErrorCode.PermissionDenied]: AudioPlayerErrorCategory.Permission
+};
+
+/**
+ * The error every player promise rejects with, and the `error` given to `errorCallback`
+ * and the `error` event.
+ */
+export class AudioPlayerError extends Error {
+  readonly code: AudioPlayerErrorCode;
+  readonly category: AudioPlayerErrorCategory;
+  /**
+   * The underlying error: a java exception or `MediaPlayer` error code on Android, an NSError on iOS.
+   */
+  readonly nativeError: any;
+  /**
+   * Platform details, e.g. the `extra` code of an Android `MediaPlayer` error.
+   */
+  readonly extra: any;
+
+  constructor(code: AudioPlayerErrorCode, message: string, nativeError?: any, extra?: any) {
+    super(message);
+    this.name = 'AudioPlayerError';
+    this.code = code;
+    this.category = CATEGORIES[code];
+    this.nativeError = nativeError;
+    this.extra = extra;
+  }
+
+  /**
+   * Wraps any error in an `AudioPlayerError`, errors that already are one are returned as is.
+   */
+  static from(error: any, code: AudioPlayerErrorCode, extra?: any): AudioPlayerError {
+    if (error instanceof AudioPlayerError) {
+      return error;
+    }
+    const message = (error && (error.localizedDescription || error.message)) || String(error || code);
+    return new AudioPlayerError(code, message, error, extra);
+  }
+}
@@ -0,0 +1,513 @@
+import { Http } from '@nativescript/core';
+import { AudioPlayerOptions } from './options';
+
+export interface PodcastFeed {
+  title: string;
+  description?: string;
+  link?: string;
+  language?: string;
+  author?: string;
+  artwork?: string;
+  explicit?: boolean;
+  categories: string[];
+  /**
+   * itunes:type, `episodic` or `serial`.
+   */
+  type?: string;
+  /**
+   * podcast:guid
+   */
+  guid?: string;
+  /**
+   * podcast:locked
+   */
+  locked?: boolean;
+}
+
+export interface EpisodeEnclosure {
+  url: string;
+  type?: string;
+  length?: number;
+}
+
+export interface Episode {
+  /**
+   * The item guid, falls back to the enclosure url when the feed has none.
+   */
+  guid: string;
+  title: string;
+  description?: string;
+  link?: string;
+  pubDate?: Date;
+  enclosure: EpisodeEnclosure;
+  /**
+   * Duration in seconds.
+   */
+  duration?: number;
+  season?: number;
+  episode?: number;
+  /**
+   * itunes:episodeType, `full`, `trailer` or `bonus`.
+   */
+  episodeType?: string;
+  /**
+   * Episode artwork, falls back to the feed artwork.
+   */
+  artwork?: string;
+  explicit?: boolean;
+  /**
+   * podcast:chapters url (Podcasting 2.0 JSON chapters).
+   */
+  chaptersUrl?: string;
+  /**
+   * podcast:transcript url.
+   */
+  transcriptUrl?: string;
+}
+
+export interface FeedParseWarning {
+  message: string;
+  /**
+   * 1-based line in the source document, when known.
+   */
+  line?: number;
+  /**
+   * Index of the `<item>` the warning is about, when it is about one.
+   */
+  itemIndex?: number;
+}
+
+export interface FeedParseResult {
+  feed: PodcastFeed;
+  episodes: Episode[];
+  warnings: FeedParseWarning[];
+}
+
+const NAMESPACES: { [prefix: string]: string[] } = {
+  itunes: ['http://www.itunes.com/dtds/podcast-1.0.dtd'],
+  podcast: ['https://podcastindex.org/namespace/1.0', 'https://github.com/Podcastindex-org/podcast-namespace/blob/main/docs/1.0.md'],
+  content: ['http://purl.org/rss/1.0/modules/content/']
+};
+
+const ENTITIES: { [name: string]: string } = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' '
+};
+
+interface XmlElement {
+  name: string;
+  attributes: { [name: string]: string };
+  children: XmlElement[];
+  text: string;
+  line: number;
+}
+
+/**
+ * Parses an RSS 2.0 podcast feed, including the `itunes:` and Podcasting 2.0 `podcast:` namespaces.
+ * Never throws: problems with the document are reported in `warnings` and the
+ * parser keeps whatever it could read.
+ * @param xml [string] - The feed document.
+ */
+export function parsePodcastFeed(xml: string): FeedParseResult {
+  const warnings: FeedParseWarning[] = [];
+  const result: FeedParseResult = { feed: { title: '', categories: [] }, episodes: [], warnings };
+  try {
+    const root = parseXml(typeof xml === 'string' ? xml : '', warnings);
+    const channel = findFirst(root, 'channel');
+    if (!channel) {
+      warnings.push({ message: 'No <channel> element found, this does not look like an RSS feed' });
+      return result;
+    }
+    if (!findFirst(root, 'rss')) {
+      warnings.push({ message: 'Missing <rss> root element', line: channel.line });
+    }
+
+    const feed = result.feed;
+    feed.title = childText(channel, 'title') || childText(channel, 'itunes:title') || '';
+    if (!feed.title) {
+      warnings.push({ message: 'Channel has no <title>', line: channel.line });
+    }
+    feed.description = childText(channel, 'description') || childText(channel, 'itunes:summary') || undefined;
+    feed.link = childText(channel, 'link') || undefined;
+    feed.language = childText(channel, 'language') || undefined;
+    feed.author = childText(channel, 'itunes:author') || childText(channel, 'managingEditor') || undefined;
+    feed.artwork = imageOf(channel);
+    feed.explicit = parseExplicit(childText(channel, 'itunes:explicit'));
+    feed.type = childText(channel, 'itunes:type') || undefined;
+    feed.guid = childText(channel, 'podcast:guid') || undefined;
+    const locked = childText(channel, 'podcast:locked');
+    feed.locked = locked ? locked.toLowerCase() === 'yes' : undefined;
+    channel.children
+      .filter(child => child.name === 'itunes:category')
+      .forEach(category => collectCategories(category, feed.categories));
+
+    channel.children
+      .filter(child => child.name === 'item')
+      .forEach((item, itemIndex) => {
+        const episode = parseItem(item, itemIndex, feed, warnings);
+        if (episode) {
+          result.episodes.push(episode);
+        }
+      });
+  } catch (error) {
+    console.error('[Code error FP01] Error parsing podcast feed:', error);
+    warnings.push({ message: `Unexpected parser failure: ${error && error.message ? error.message : error}` });
+  }
+  return result;
+}
+
+/**
+ * Downloads and parses a podcast feed.
+ * @param url [string] - The feed url.
+ */
+export function fetchPodcastFeed(url: string): Promise<FeedParseResult> {
+  return Http.getString(url).then(xml => parsePodcastFeed(xml));
+}
+
+/**
+ * Builds player options for an episode, ready for `playFromUrl` or a `TNSPlaylist`.
+ * The episode title and artwork are shown on the lock screen, add `artist`/`album` from the feed if wanted.
+ * @param episode [Episode] - A parsed episode.
+ * @param options - Extra player options (callbacks, `loop`, `pitch`...) merged on top.
+ */
+export function episodeToPlayerOptions(episode: Episode, options?: Partial<AudioPlayerOptions>): AudioPlayerOptions {
+  return Object.assign({ audioFile: episode.enclosure.url, loop: false, title: episode.title || undefined, artwork: episode.artwork }, options || {});
+}
+
+/**
+ * Converts an `itunes:duration` value (`HH:MM:SS`, `MM:SS` or plain seconds) to seconds.
+ */
+export function parseDuration(value: string): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) {
+    return undefined;
+  }
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+function parseItem(item: XmlElement, itemIndex: number, feed: PodcastFeed, warnings: FeedParseWarning[]): Episode | null {
+  const warn = (message: string) => warnings.push({ message, line: item.line, itemIndex });
+  const title = childText(item, 'title') || childText(item, 'itunes:title') || '';
+
+  const enclosureElement = child(item, 'enclosure');
+  const url = enclosureElement ? (enclosureElement.attributes['url'] || '').trim() : '';
+  if (!url) {
+    warn(`Item "${title}" has no playable <enclosure>, skipped`);
+    return null;
+  }
+  const enclosure: EpisodeEnclosure = { url };
+  if (enclosureElement.attributes['type']) {
+    enclosure.type = enclosureElement.attributes['type'];
+  }
+  const length = parseInt(enclosureElement.attributes['length'], 10);
+  if (length > 0) {
+    enclosure.length = length;
+  }
+
+  const episode: Episode = {
+    guid: childText(item, 'guid') || url,
+    title,
+    enclosure,
+    artwork: imageOf(item) || feed.artwork
+  };
+  if (!title) {
+    warn('Item has no <title>');
+  }
+  if (!childText(item, 'guid')) {
+    warn(`Item "${title}" has no <guid>, using the enclosure url`);
+  }
+
+  const description = childText(item, 'content:encoded') || childText(item, 'description') || childText(item, 'itunes:summary');
+  if (description) {
+    episode.description = description;
+  }
+  const link = childText(item, 'link');
+  if (link) {
+    episode.link = link;
+  }
+
+  const pubDate = childText(item, 'pubDate');
+  if (pubDate) {
+    const time = Date.parse(pubDate);
+    if (isNaN(time)) {
+      warn(`Item "${title}" has an unreadable <pubDate> "${pubDate}"`);
+    } else {
+      episode.pubDate = new Date(time);
+    }
+  }
+
+  const duration = childText(item, 'itunes:duration');
+  if (duration) {
+    episode.duration = parseDuration(duration);
+    if (episode.duration === undefined) {
+      warn(`Item "${title}" has an unreadable <itunes:duration> "${duration}"`);
+    }
+  }
+
+  const season = parseNumber(childText(item, 'podcast:season') || childText(item, 'itunes:season'));
+  if (season !== undefined) {
+    episode.season = season;
+  }
+  const number = parseNumber(childText(item, 'podcast:episode') || childText(item, 'itunes:episode'));
+  if (number !== undefined) {
+    episode.episode = number;
+  }
+  const episodeType = childText(item, 'itunes:episodeType');
+  if (episodeType) {
+    episode.episodeType = episodeType.toLowerCase();
+  }
+
+  const explicit = parseExplicit(childText(item, 'itunes:explicit'));
+  episode.explicit = explicit !== undefined ? explicit : feed.explicit;
+
+  const chapters = child(item, 'podcast:chapters');
+  if (chapters && chapters.attributes['url']) {
+    episode.chaptersUrl = chapters.attributes['url'];
+  }
+  const transcript = child(item, 'podcast:transcript');
+  if (transcript && transcript.attributes['url']) {
+    episode.transcriptUrl = transcript.attributes['url'];
+  }
+  return episode;
+}
+
+function imageOf(element: XmlElement): string | undefined {
+  const itunesImage = child(element, 'itunes:image');
+  if (itunesImage && itunesImage.attributes['href']) {
+    return itunesImage.attributes['href'].trim();
+  }
+  const image = child(element, 'image');
+  if (image) {
+    return childText(image, 'url') || image.attributes['href'] || undefined;
+  }
+  return undefined;
+}
+
+function collectCategories(category: XmlElement, categories: string[]) {
+  const text = category.attributes['text'];
+  if (text && categories.indexOf(text) === -1) {
+    categories.push(text);
+  }
+  category.children
+    .filter(sub => sub.name === 'itunes:category')
+    .forEach(sub => collectCategories(sub, categories));
+}
+
+function parseExplicit(value: string): boolean | undefined {
+  switch ((value || '').toLowerCase()) {
+    case 'yes':
+    case 'true':
+    case 'explicit':
+      return true;
+    case 'no':
+    case 'false':
+    case 'clean':
+      return false;
+    default:
+      return undefined;
+  }
+}
+
+function parseNumber(value: string): number | undefined {
+  const number = parseFloat(value);
+  return isNaN(number) ? undefined : number;
+}
+
+function child(element: XmlElement, name: string): XmlElement | undefined {
+  return element.children.find(c => c.name === name);
+}
+
+function childText(element: XmlElement, name: string): string {
+  const found = child(element, name);
+  return found ? found.text.trim() : '';
+}
+
+function findFirst(element: XmlElement, name: string): XmlElement | undefined {
+  if (element.name === name) {
+    return element;
+  }
+  for (const c of element.children) {
+    const found = findFirst(c, name);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Small forgiving XML reader: unknown entities are kept as-is, mismatched
+ * closing tags close whatever is open above them and unclosed elements are
+ * closed at the end of the document. Namespace prefixes are normalized to
+ * `itunes:`, `podcast:` and `content:` whatever the feed declared them as.
+ */
+function parseXml(xml: string, warnings: FeedParseWarning[]): XmlElement {
+  const root: XmlElement = { name: '#document', attributes: {}, children: [], text: '', line: 1 };
+  const stack: XmlElement[] = [root];
+  const prefixes: { [prefix: string]: string } = {};
+  let lineIndex = 0;
+  let lineCount = 1;
+  // positions only ever move forward, so lines are counted incrementally
+  const lineAt = (position: number) => {
+    for (; lineIndex < position; lineIndex++) {
+      if (xml.charCodeAt(lineIndex) === 10) {
+        lineCount++;
+      }
+    }
+    return lineCount;
+  };
+  let index = 0;
+
+  const normalizeName = (name: string) => {
+    const colon = name.indexOf(':');
+    if (colon === -1) {
+      return name;
+    }
+    const prefix = name.slice(0, colon);
+    return (prefixes[prefix] || prefix) + name.slice(colon);
+  };
+
+  while (index < xml.length) {
+    const open = xml.indexOf('<', index);
+    const current = stack[stack.length - 1];
+    if (open === -1) {
+      current.text += decodeEntities(xml.slice(index));
+      break;
+    }
+    if (open > index) {
+      current.text += decodeEntities(xml.slice(index, open));
+    }
+
+    if (xml.startsWith('<![CDATA[', open)) {
+      const end = xml.indexOf(']]>', open);
+      if (end === -1) {
+        warnings.push({ message: 'Unterminated CDATA section', line: lineAt(open) });
+        current.text += xml.slice(open + 9);
+        break;
+      }
+      current.text += xml.slice(open + 9, end);
+      index = end + 3;
+      continue;
+    }
+    if (xml.startsWith('<!--', open)) {
+      const end = xml.indexOf('-->', open);
+      index = end === -1 ? xml.length : end + 3;
+      continue;
+    }
+    if (xml.startsWith('<?', open) || xml.startsWith('<!', open)) {
+      const end = xml.indexOf('>', open);
+      index = end === -1 ? xml.length : end + 1;
+      continue;
+    }
+
+    const close = findTagEnd(xml, open);
+    if (close === -1) {
+      warnings.push({ message: 'Unterminated tag at end of document', line: lineAt(open) });
+      break;
+    }
+    const tag = xml.slice(open + 1, close);
+    index = xml[close] === '>' ? close + 1 : close;
+
+    if (tag.startsWith('/')) {
+      const name = normalizeName(tag.slice(1).trim());
+      let depth = stack.length - 1;
+      while (depth > 0 && stack[depth].name !== name) {
+        depth--;
+      }
+      if (depth === 0) {
+        warnings.push({ message: `Ignoring unexpected closing tag </${name}>`, line: lineAt(open) });
+        continue;
+      }
+      for (let i = stack.length - 1; i > depth; i--) {
+        warnings.push({ message: `Element <${stack[i].name}> was not closed`, line: stack[i].line });
+      }
+      stack.length = depth;
+      continue;
+    }
+
+    const selfClosing = tag.endsWith('/');
+    const body = selfClosing ? tag.slice(0, -1) : tag;
+    const nameMatch = /^\s*([^\s/>]+)/.exec(body);
+    if (!nameMatch) {
+      warnings.push({ message: 'Ignoring malformed tag', line: lineAt(open) });
+      continue;
+    }
+    const attributes: { [name: string]: string } = {};
+    const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s"']+))/g;
+    const rest = body.slice(nameMatch[0].length);
+    let match: RegExpExecArray;
+    while ((match = attributePattern.exec(rest))) {
+      const value = decodeEntities(match[3] !== undefined ? match[3] : match[4] !== undefined ? match[4] : match[5]);
+      attributes[match[1]] = value;
+      if (match[1].startsWith('xmlns:')) {
+        const canonical = canonicalPrefix(value);
+        if (canonical) {
+          prefixes[match[1].slice(6)] = canonical;
+        }
+      }
+    }
+    const element: XmlElement = {
+      name: normalizeName(nameMatch[1]),
+      attributes,
+      children: [],
+      text: '',
+      line: lineAt(open)
+    };
+    current.children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  for (let i = stack.length - 1; i > 0; i--) {
+    warnings.push({ message: `Element <${stack[i].name}> was not closed`, line: stack[i].line });
+  }
+  return root;
+}
+
+function findTagEnd(xml: string, start: number): number {
+  let quote = '';
+  for (let i = start + 1; i < xml.length; i++) {
+    const c = xml[i];
+    if (quote) {
+      if (c === quote) {
+        quote = '';
+      }
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === '>') {
+      return i;
+    } else if (c === '<') {
+      // a stray "<" inside a tag, treat the tag as ending right before it
+      return i;
+    }
+  }
+  return -1;
+}
+
+function canonicalPrefix(uri: string): string | undefined {
+  const normalized = uri.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/\/$/, '');
+  return Object.keys(NAMESPACES).find(prefix =>
+    NAMESPACES[prefix].some(known => known.toLowerCase().replace(/^https?:\/\//, '').replace(/\/$/, '') === normalized)
+  );
+}
+
+function decodeEntities(text: string): string {
+  if (text.indexOf('&') === -1) {
+    return text;
+  }
+  return text.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name] !== undefined ? ENTITIES[name] : entity;
+  });
+}
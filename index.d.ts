@@ -1,4 +1,4 @@
-import { Observable } from '@nativescript/core';
+import { EventData, Observable } from '@nativescript/core';
 
 export interface AudioPlayerOptions {
   /**
@@ -17,9 +17,15 @@ export interface AudioPlayerOptions {
   autoPlay?: boolean;
 
   /**
-   * Set true to enable audio metering.
+   * Set true to enable audio metering, see `getAveragePower` and `getPeakPower`.
+   * iOS: remote files are downloaded before playing. Android: needs the RECORD_AUDIO permission.
    */
   metering?: boolean;
+
+  /**
+   * Milliseconds between two `metering` events while playing with `metering` on. Defaults to 0, no events.
+   */
+  meteringInterval?: number;
   audioMixing?: boolean;
 
   pitch?: number;
@@ -32,7 +38,7 @@ export interface AudioPlayerOptions {
 
   /**
    * Callback to execute when playback has an error.
-   * @returns {Object} An object containing the native values for the error callback.
+   * @returns {Object} An object holding the native `player` and the `error`, an `AudioPlayerError`.
    */
   errorCallback?: Function;
 
@@ -41,47 +47,181 @@ export interface AudioPlayerOptions {
    * @returns {Object} An object containing the native values for the info callback.
    */
   infoCallback?: Function;
+
+  /**
+   * Chapters of the audio file, see `parseJsonChapters` for Podcasting 2.0 JSON chapters.
+   */
+  chapters?: AudioChapter[];
+
+  /**
+   * Identifies the episode in the playback progress store, defaults to `audioFile`.
+   */
+  episodeId?: string;
+
+  /**
+   * Set false to start from the beginning even when a position was saved for this episode.
+   */
+  resumePosition?: boolean;
+
+  /**
+   * Milliseconds between two `timeUpdate` events while playing. Defaults to 500, 0 turns them off.
+   */
+  timeUpdateInterval?: number;
+
+  /**
+   * Seconds skipped by `skipForward()` and the remote skip forward buttons. Defaults to 30.
+   */
+  skipForwardInterval?: number;
+
+  /**
+   * Seconds skipped by `skipBackward()` and the remote skip back buttons. Defaults to 15.
+   */
+  skipBackwardInterval?: number;
+
+  /**
+   * Seconds over which `play()` ramps the volume up from silence. Defaults to 0, no fade.
+   */
+  fadeInDuration?: number;
+
+  /**
+   * Seconds over which `pause()` ramps the volume down before pausing. Defaults to 0, no fade.
+   */
+  fadeOutDuration?: number;
+
+  /**
+   * Seconds of the volume dip around `seekTo()` while playing, half of it down before the seek
+   * and half back up after it. Defaults to 0, no dip.
+   */
+  seekFadeDuration?: number;
+
+  /**
+   * How a remote file that broke off while playing is prepared again, false to fail right away.
+   * On by default with 5 attempts.
+   */
+  recovery?: StreamRecoveryOptions | false;
+
+  /**
+   * iOS: play remote files progressively with AVPlayer (default). Set false to download the whole
+   * file before playing, metering always does.
+   */
+  streaming?: boolean;
+
+  /**
+   * Extra headers sent with the requests for a remote file, e.g. cookies.
+   */
+  headers?: { [name: string]: string };
+
+  /**
+   * User-Agent header sent with the requests for a remote file.
+   */
+  userAgent?: string;
+
+  /**
+   * Gives the bearer token of private feeds. When the server answers 401, a new token is asked
+   * for with `refresh` true and the request is made once more.
+   */
+  tokenProvider?: AuthTokenProvider;
+
+  /**
+   * Set false to keep the item out of the `AudioCache` set with `setAudioCache`, e.g. to save
+   * the disk space of an episode played once.
+   */
+  cache?: boolean;
+
+  /**
+   * Episode title shown on the lock screen, in the control center (iOS) and by media controls (Android).
+   * Setting any of `title`, `artist`, `album` or `artwork` turns these on.
+   */
+  title?: string;
+
+  /**
+   * Artist or podcast author shown with the title.
+   */
+  artist?: string;
+
+  /**
+   * Album or podcast name shown with the title.
+   */
+  album?: string;
+
+  /**
+   * Url or local path of the cover image shown with the title.
+   */
+  artwork?: string;
+
+  /**
+   * Android: play in a foreground service with a media notification, so playback goes on
+   * while the app is in the background. Off by default.
+   */
+  foregroundService?: boolean;
+
+  /**
+   * Android: drawable resource name of the foreground service notification icon, defaults to the app icon.
+   */
+  notificationIcon?: string;
 }
 
 export interface AudioRecorderOptions {
   /**
-   * The name of the file recorded.
+   * The file to record to, resolved like `playFromFile` paths: relative paths are in the documents folder.
    */
   filename: string;
 
   /**
-   * The audio source to record *** ANDROID ONLY for now ***
+   * Android: the `MediaRecorder.AudioSource`, the microphone by default.
    * https://developer.android.com/reference/android/media/MediaRecorder.AudioSource.html
    */
   source?: any;
 
   /**
-   * The max duration of the audio recording.
+   * Milliseconds after which recording stops by itself. Paused time does not count.
    */
   maxDuration?: number;
 
   /**
-   * Set true to enable audio metering.
+   * Set true to enable audio metering, see `getAveragePower` and `getPeakPower`.
    */
   metering?: boolean;
 
   /**
-   * The format of the audio recording.
+   * Milliseconds between two `metering` events while recording with `metering` on. Defaults to 0, no events.
+   */
+  meteringInterval?: number;
+
+  /**
+   * The container: a `MediaRecorder.OutputFormat` on Android (MPEG_4 by default), an
+   * `AudioFormatID` on iOS (kAudioFormatMPEG4AAC by default).
    */
   format?: any;
+
+  /**
+   * Number of channels, 1 by default.
+   */
   channels?: any;
+
+  /**
+   * Samples per second, 44100 by default.
+   */
   sampleRate?: any;
+
+  /**
+   * Bits per second of the encoded audio, the platform default when not set.
+   */
   bitRate?: any;
+
+  /**
+   * Android: the `MediaRecorder.AudioEncoder`, AAC by default. iOS: the `AVAudioQuality`, medium by default.
+   */
   encoder?: any;
 
   /**
-   * Callback to execute when playback has an error.
-   * @returns {Object} An object containing the native values for the error callback.
+   * Callback to execute when recording fails.
+   * @returns {Object} An object holding the native `recorder` and the `error`, an `AudioPlayerError`.
    */
   errorCallback?: Function;
 
   /**
-   * Callback to execute when info is emitted from the player.
+   * Callback to execute when info is emitted from the recorder, e.g. the max duration was reached.
    * @returns {Object} An object containing the native values for the info callback.
    */
   infoCallback?: Function;
@@ -90,6 +230,11 @@ export interface TNSPlayerI {
   readonly ios?: any;
   readonly android?: any;
 
+  /**
+   * Player events, see `AudioPlayerEvents`.
+   */
+  readonly events?: Observable;
+
   /**
    * Set to true to enable console log output for debugging.
    */
@@ -107,7 +252,9 @@ export interface TNSPlayerI {
 
   initFromFile(options: AudioPlayerOptions): Promise<any>;
   /**
-   * Starts playing audio file from local app files.
+   * Starts playing audio file from local app files: `~/` paths are in the app folder, relative paths
+   * in the documents folder, absolute paths and `file://` urls are used as they are.
+   * Rejects with `sourceUnavailable` when the file is missing and `permissionDenied` when it cannot be read.
    */
   playFromFile(options: AudioPlayerOptions): Promise<any>;
 
@@ -138,6 +285,18 @@ export interface TNSPlayerI {
    */
   seekTo(time: number): Promise<any>;
 
+  /**
+   * Moves the playback position forward by `seconds` (default `skipForwardInterval`), up to the end.
+   * @returns the new position in seconds
+   */
+  skipForward(seconds?: number): Promise<number>;
+
+  /**
+   * Moves the playback position back by `seconds` (default `skipBackwardInterval`), down to the start.
+   * @returns the new position in seconds
+   */
+  skipBackward(seconds?: number): Promise<number>;
+
   /**
    * Releases resources from the audio player.
    */
@@ -149,7 +308,7 @@ export interface TNSPlayerI {
   isAudioPlaying(): boolean;
 
   /**
-   * Get the duration of the audio file playing.
+   * Get the duration of the audio file playing, in seconds.
    */
   getAudioTrackDuration(): Promise<string>;
 
@@ -178,7 +337,7 @@ export declare class TNSPlayer {
   debug: boolean;
 
   /**
-   * Volume getter/setter
+   * Volume getter/setter. The fades of play, pause and seek scale it without changing it.
    */
   volume: any;
 
@@ -192,6 +351,98 @@ export declare class TNSPlayer {
    */
   readonly currentTime: number;
 
+  /**
+   * Chapters of the current audio file, sorted by start time.
+   */
+  readonly chapters: AudioChapter[];
+
+  /**
+   * The chapter under the playback position, null before the first chapter or between chapters.
+   */
+  readonly currentChapter: AudioChapter | null;
+
+  readonly currentChapterIndex: number;
+
+  /**
+   * The store set with `setProgressStore`, null when positions are not saved.
+   */
+  readonly progressStore: PlaybackProgressStore | null;
+
+  /**
+   * The cache set with `setAudioCache`, null when streamed files are not cached.
+   */
+  readonly audioCache: AudioCache | null;
+
+  /**
+   * Milliseconds between two `timeUpdate` events while playing, 0 turns them off.
+   */
+  timeUpdateInterval: number;
+
+  /**
+   * Milliseconds between two `metering` events while playing with `metering` on, 0 turns them off.
+   */
+  meteringInterval: number;
+
+  /**
+   * Equalizer, bass boost and loudness, kept when another file is loaded. Every change fires `effectsChanged`.
+   * iOS: files play through AVAudioEngine while the effects are on, remote files are downloaded first.
+   */
+  readonly audioEffects: AudioEffects;
+
+  /**
+   * Seconds skipped by `skipForward()` and the remote skip forward buttons, 30 by default.
+   */
+  skipForwardInterval: number;
+
+  /**
+   * Seconds skipped by `skipBackward()` and the remote skip back buttons, 15 by default.
+   */
+  skipBackwardInterval: number;
+
+  /**
+   * How the player moves on to the item set with `setNextItem`, `TransitionMode.None` by default.
+   */
+  transitionMode: TransitionMode;
+
+  /**
+   * Seconds over which two items are crossfaded, 6 by default.
+   */
+  crossfadeDuration: number;
+
+  /**
+   * The item set with `setNextItem`, null when there is none.
+   */
+  readonly nextItem: AudioPlayerOptions | null;
+
+  /**
+   * Where the player is in its lifecycle, every change fires `stateChanged`.
+   */
+  readonly state: PlayerState;
+
+  /**
+   * Whether the current item is a live stream, known once it is prepared. Live streams have
+   * a `duration` of 0 and cannot seek.
+   */
+  readonly isLive: boolean;
+
+  /**
+   * What happens to the other players of the app when this one starts, see `playerRegistry`.
+   * Null for the registry `policy`.
+   */
+  playbackPolicy: PlaybackPolicy | null;
+
+  /**
+   * The speed set with `changePlayerSpeed`, 1 by default.
+   */
+  readonly playbackRate: number;
+
+  readonly sleepTimerActive: boolean;
+
+  /**
+   * Seconds left before the sleep timer pauses playback, -1 when no timer is set.
+   */
+  readonly sleepTimerRemaining: number;
+
   /**
    * @param  {AudioFocusDurationHint} durationHint - Determines differents behaviors by
    * the system and the other application that previously held audio focus.
@@ -200,15 +451,36 @@ export declare class TNSPlayer {
   constructor(durationHint?: AudioFocusDurationHint | AudioFocusManager);
 
   /**
-   * Sets the audio focus manager for this player
+   * Sets the audio focus manager for this player. Android only, it does nothing on iOS.
    * @param manager new Audio Focus Manager
    */
   setAudioFocusManager(manager: AudioFocusManager);
 
+  /**
+   * Saves the playback position of each episode in the given store (periodically while playing,
+   * on `pause` and on `dispose`) and resumes from it on the next `playFromUrl`/`initFromUrl`
+   * of the same episode. Pass null to turn it off.
+   */
+  setProgressStore(store: PlaybackProgressStore | null): void;
+
+  /**
+   * Caches the remote files this player streams, see `AudioCache`. Pass null to stop caching,
+   * files cached already are still played from disk until the cache is disposed.
+   */
+  setAudioCache(cache: AudioCache | null): void;
+
+  /**
+   * Scales the volume while another player ducks this one, set by `playerRegistry`.
+   * @param factor - From 0 to 1, 1 for the volume set by the user.
+   */
+  setDuckVolume(factor: number): void;
+
   initFromFile(options: AudioPlayerOptions): Promise<any>;
 
   /**
-   * Starts playing audio file from local app files.
+   * Starts playing audio file from local app files: `~/` paths are in the app folder, relative paths
+   * in the documents folder, absolute paths and `file://` urls are used as they are.
+   * Rejects with `sourceUnavailable` when the file is missing and `permissionDenied` when it cannot be read.
    */
   playFromFile(options: AudioPlayerOptions): Promise<any>;
   initFromUrl(options: AudioPlayerOptions): Promise<any>;
@@ -224,7 +496,8 @@ export declare class TNSPlayer {
   play(): Promise<boolean>;
 
   /**
-   * Pauses playing audio file.
+   * Pauses playing audio file, after ramping the volume down when `fadeOutDuration` is set.
+   * Resolves false when `play()` was called during the fade and playback went on.
    */
   pause(): Promise<boolean>;
 
@@ -234,7 +507,8 @@ export declare class TNSPlayer {
   resume(): void;
 
   /**
-   * Seeks to specific time in seconds.
+   * Seeks to specific time in seconds. While playing with `seekFadeDuration` set, the volume
+   * dips around the seek. Rejects with `InvalidState` for live streams.
    * @param time [number] - The position of the track duration to seek to.
    */
   seekTo(time: number): Promise<any>;
@@ -250,7 +524,7 @@ export declare class TNSPlayer {
   isAudioPlaying(): boolean;
 
   /**
-   * Get the duration of the audio file playing.
+   * Get the duration of the audio file playing, in seconds.
    */
   getAudioTrackDuration(): Promise<string>;
 
@@ -261,64 +535,1627 @@ export declare class TNSPlayer {
    */
   changePlayerSpeed(speed: number): void;
 
+  /**
+   * Moves the playback position forward, clamped to the end of the file. While the file is still
+   * loading, the skip is applied once it is prepared. Fires `skipped`.
+   * @param seconds - Defaults to `skipForwardInterval`.
+   * @returns the new position in seconds
+   */
+  skipForward(seconds?: number): Promise<number>;
+
+  /**
+   * Moves the playback position back, clamped to the start of the file. Fires `skipped`.
+   * @param seconds - Defaults to `skipBackwardInterval`.
+   * @returns the new position in seconds
+   */
+  skipBackward(seconds?: number): Promise<number>;
+
+  /**
+   * Prepares the item to play after the current one on a second native player, so that it starts
+   * without a gap or fades in when the current one ends, see `transitionMode`. The player then fires
+   * `transitioned` and keeps playing; the previous item gets its `completeCallback` but no `completed` event.
+   * Loading another file drops the next item. `TNSPlaylist` sets it for you.
+   * iOS: remote items are downloaded rather than streamed.
+   * @param options - The next item, null to drop it.
+   * @returns resolves once the next item is prepared, right away without a transition mode
+   */
+  setNextItem(options: AudioPlayerOptions | null): Promise<any>;
+
+  /**
+   * Average power of a channel in dBFS, from -160 (silence) to 0. Needs the `metering` option,
+   * -160 without it. Android measures the mixed output, the same level for every channel.
+   * @param channel - Defaults to 0, the first channel.
+   */
+  getAveragePower(channel?: number): number;
+
+  /**
+   * Peak power of a channel in dBFS, from -160 (silence) to 0. Needs the `metering` option,
+   * -160 without it. Android measures the mixed output, the same level for every channel.
+   * @param channel - Defaults to 0, the first channel.
+   */
+  getPeakPower(channel?: number): number;
+
+  /**
+   * Pauses playback after a number of minutes, or at the end of the current episode or chapter,
+   * optionally fading the volume out over the last seconds. Replaces any running sleep timer.
+   */
+  startSleepTimer(options: SleepTimerOptions): void;
+
+  /**
+   * Adds minutes to the running sleep timer.
+   */
+  extendSleepTimer(minutes: number): void;
+
+  /**
+   * Cancels the sleep timer, restoring the volume if it was fading out.
+   */
+  cancelSleepTimer(): void;
+
+  /**
+   * Sets the chapters of the current audio file.
+   * @param chapters - A list of chapters or a Podcasting 2.0 JSON chapters document.
+   */
+  setChapters(chapters: AudioChapter[] | string | any): void;
+
+  /**
+   * Downloads Podcasting 2.0 JSON chapters (see `Episode.chaptersUrl`) and uses them for the current audio file.
+   */
+  loadChaptersFromUrl(url: string): Promise<AudioChapter[]>;
+
+  /**
+   * Reads the ID3v2 CHAP/CTOC frames of a local file and uses them as chapters.
+   * @param path - The local file, defaults to the current audio file.
+   */
+  loadChaptersFromFile(path?: string): Promise<AudioChapter[]>;
+
+  /**
+   * Seeks to the start of the first chapter after the playback position, also from a gap between chapters.
+   */
+  nextChapter(): Promise<any>;
+
+  /**
+   * Seeks to the start of the chapter before the current one, or from a gap between chapters
+   * to the start of the chapter before the gap.
+   */
+  previousChapter(): Promise<any>;
+
+  /**
+   * Seeks to the start of the chapter at the given index.
+   */
+  seekToChapter(index: number): Promise<any>;
+
   audioPlayerDidFinishPlayingSuccessfully(player?: any, flag?: boolean): void;
 }
 
-export interface IAudioPlayerEvents {
-  seek: 'seek';
-  paused: 'paused';
-  started: 'started';
-}
+export declare class TNSRecorder {
+  /**
+   * Whether the device has a microphone.
+   */
+  static CAN_RECORD(): boolean;
 
-export const AudioPlayerEvents: IAudioPlayerEvents;
+  readonly ios?: any;
+  readonly android?: any;
 
-export enum AudioFocusDurationHint {
   /**
-   * Expresses the fact that your application is now the sole source
-   * of audio that the user is listening to. The duration of the
-   * audio playback is unknown, and is possibly very long: after the
-   * user finishes interacting with your application, (s)he doesn’t
-   * expect another audio stream to resume.
+   * Recorder events, see `AudioRecorderEvents`.
    */
-  AUDIOFOCUS_GAIN = android.media.AudioManager.AUDIOFOCUS_GAIN,
+  readonly events: Observable;
+
   /**
-   * For a situation when you know your application is temporarily
-   * grabbing focus from the current owner, but the user expects
-   * playback to go back to where it was once your application no
-   * longer requires audio focus.
+   * Milliseconds between two `metering` events while recording with `metering` on, 0 turns them off.
    */
-  AUDIOFOCUS_GAIN_TRANSIENT = android.media.AudioManager
-    .AUDIOFOCUS_GAIN_TRANSIENT,
+  meteringInterval: number;
+
   /**
-   * This focus request type is similar to AUDIOFOCUS_GAIN_TRANSIENT
-   * for the temporary aspect of the focus request, but it also
-   * expresses the fact during the time you own focus, you allow
-   * another application to keep playing at a reduced volume,
-   * “ducked”.
+   * Whether the app may record audio: the Android RECORD_AUDIO permission, iOS microphone access.
    */
-  AUDIOFOCUS_GAIN_TRANSIENT_MAY_DUCK = android.media.AudioManager
-    .AUDIOFOCUS_GAIN_TRANSIENT_MAY_DUCK,
+  hasRecordPermission(): boolean;
+
   /**
-   * Also for a temporary request, but also expresses that your
-   * application expects the device to not play anything else. This
-   * is typically used if you are doing audio recording or speech
-   * recognition, and don’t want for examples notifications to be
-   * played by the system during that time.
+   * Asks the user for the record permission. Android: the app manifest must declare RECORD_AUDIO.
+   * iOS: the app Info.plist needs `NSMicrophoneUsageDescription`.
+   * @returns true when granted, rejects with `permissionDenied` otherwise
    */
-  AUDIOFOCUS_GAIN_TRANSIENT_EXCLUSIVE = android.media.AudioManager
-    .AUDIOFOCUS_GAIN_TRANSIENT_MAY_DUCK
-}
+  requestRecordPermission(): Promise<boolean>;
 
-export interface AudioFocusManagerOptions {
-  durationHint?: AudioFocusDurationHint;
-  usage?: number; // android.media.AudioAttributes.USAGE_MEDIA
-  contentType?: number; // android.media.AudioAttributes.CONTENT_TYPE_MUSIC
-}
-export interface AudioFocusChangeEventData extends EventData {
-  focusChange: number;
-}
+  /**
+   * Starts recording to `options.filename`. Rejects with `permissionDenied` without the
+   * record permission and `invalidState` while already recording. Fires `started`.
+   */
+  start(options: AudioRecorderOptions): Promise<any>;
 
-export class AudioFocusManager extends Observable {
-  constructor(options?: AudioFocusManagerOptions);
-  on(event: 'audioFocusChange', callback: (data: AudioFocusChangeEventData) => void, thisArg?: any);
+  /**
+   * Pauses recording (Android API 24+). Fires `paused`.
+   */
+  pause(): Promise<any>;
+
+  /**
+   * Resumes a paused recording. Fires `resumed`.
+   */
+  resume(): Promise<any>;
+
+  /**
+   * Stops recording and resolves the path of the recorded file. Fires `stopped`.
+   */
+  stop(): Promise<string>;
+
+  /**
+   * Stops recording if needed and releases the recorder.
+   */
+  dispose(): Promise<any>;
+
+  /**
+   * True while recording, false while paused.
+   */
+  isRecording(): boolean;
+
+  /**
+   * Average power of a channel in dBFS, from -160 (silence) to 0. Needs the `metering` option,
+   * -160 without it. Android only knows the highest amplitude since the last reading, the same for every channel.
+   * @param channel - Defaults to 0, the first channel.
+   */
+  getAveragePower(channel?: number): number;
+
+  /**
+   * Peak power of a channel in dBFS, from -160 (silence) to 0. Needs the `metering` option, -160 without it.
+   * @param channel - Defaults to 0, the first channel.
+   */
+  getPeakPower(channel?: number): number;
+}
+
+export interface IAudioRecorderEvents {
+  started: 'started';
+  paused: 'paused';
+  resumed: 'resumed';
+  stopped: 'stopped';
+  metering: 'metering';
+  error: 'error';
+}
+
+export const AudioRecorderEvents: IAudioRecorderEvents;
+
+/**
+ * `data` of the recorder `stopped` event.
+ */
+export interface RecorderStoppedEventData {
+  /**
+   * Path of the recorded file.
+   */
+  path: string;
+  /**
+   * True when recording stopped because `maxDuration` was reached.
+   */
+  maxDurationReached: boolean;
+}
+
+export interface IAudioPlayerEvents {
+  prepared: 'prepared';
+  started: 'started';
+  paused: 'paused';
+  seek: 'seek';
+  bufferingStart: 'bufferingStart';
+  bufferingEnd: 'bufferingEnd';
+  progress: 'progress';
+  completed: 'completed';
+  loopRestarted: 'loopRestarted';
+  error: 'error';
+  rateChanged: 'rateChanged';
+  volumeChanged: 'volumeChanged';
+  disposed: 'disposed';
+  timeUpdate: 'timeUpdate';
+  stateChanged: 'stateChanged';
+  chapterChanged: 'chapterChanged';
+  sleepTimerTick: 'sleepTimerTick';
+  sleepTimerFired: 'sleepTimerFired';
+  remoteCommand: 'remoteCommand';
+  skipped: 'skipped';
+  metering: 'metering';
+  effectsChanged: 'effectsChanged';
+  transitioned: 'transitioned';
+  recovering: 'recovering';
+  recovered: 'recovered';
+  gaveUp: 'gaveUp';
+}
+
+export const AudioPlayerEvents: IAudioPlayerEvents;
+
+/**
+ * Shape of every `AudioPlayerEvents` notification, the payload is in `data`.
+ */
+export interface AudioPlayerEventData<T = any> extends EventData {
+  data?: T;
+}
+
+/**
+ * `data` of the `prepared` event.
+ */
+export interface PreparedEventData {
+  /**
+   * Duration of the audio file in seconds, 0 for live streams.
+   */
+  duration: number;
+  /**
+   * Whether the audio is a live stream, which cannot seek.
+   */
+  live?: boolean;
+}
+
+/**
+ * `data` of the `seek` event.
+ */
+export interface SeekEventData {
+  /**
+   * The position sought to, in seconds.
+   */
+  time: number;
+}
+
+/**
+ * `data` of the `progress` event.
+ */
+export interface ProgressEventData {
+  /**
+   * How much of the audio file is loaded, from 0 to 100.
+   */
+  bufferedPercent: number;
+  bufferedRanges?: BufferedRange[];
+}
+
+/**
+ * A loaded part of the audio file, in seconds.
+ */
+export interface BufferedRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * `data` of the `loopRestarted` event.
+ */
+export interface LoopRestartedEventData {
+  /**
+   * Number of times playback looped since the file was loaded.
+   */
+  loopCount: number;
+}
+
+/**
+ * `data` of the `error` event.
+ */
+export interface ErrorEventData {
+  /**
+   * The native error and platform details are in `error.nativeError` and `error.extra`.
+   */
+  error: AudioPlayerError;
+}
+
+export enum AudioPlayerErrorCategory {
+  /**
+   * The audio could not be loaded: no connection, timeout, server error, missing file.
+   */
+  Network = 'network',
+  /**
+   * The audio was loaded but could not be decoded or played, or could not be recorded.
+   */
+  Decode = 'decode',
+  /**
+   * Audio focus (Android) or the audio session (iOS) was not granted.
+   */
+  Focus = 'focus',
+  /**
+   * The call does not fit the player state, e.g. `play()` before the audio is prepared.
+   */
+  State = 'state',
+  /**
+   * The app is not allowed to read the file or use the microphone.
+   */
+  Permission = 'permission'
+}
+
+/**
+ * Stable error codes, safe to compare against and to log.
+ */
+export enum AudioPlayerErrorCode {
+  NetworkFailure = 'networkFailure',
+  Timeout = 'timeout',
+  SourceUnavailable = 'sourceUnavailable',
+  DecodeFailed = 'decodeFailed',
+  UnsupportedFormat = 'unsupportedFormat',
+  PlaybackFailed = 'playbackFailed',
+  RecordingFailed = 'recordingFailed',
+  FocusDenied = 'focusDenied',
+  NotInitialized = 'notInitialized',
+  NotPrepared = 'notPrepared',
+  AlreadyPlaying = 'alreadyPlaying',
+  InvalidArgument = 'invalidArgument',
+  /**
+   * The call is not allowed in the current `PlayerState`, e.g. `play()` after `dispose()`.
+   */
+  InvalidState = 'invalidState',
+  PermissionDenied = 'permissionDenied'
+}
+
+/**
+ * The error every player promise rejects with, and the `error` given to `errorCallback`
+ * and the `error` event.
+ */
+export class AudioPlayerError extends Error {
+  readonly code: AudioPlayerErrorCode;
+  readonly category: AudioPlayerErrorCategory;
+  /**
+   * The underlying error: a java exception or `MediaPlayer` error code on Android, an NSError on iOS.
+   */
+  readonly nativeError: any;
+  /**
+   * Platform details, e.g. the `extra` code of an Android `MediaPlayer` error.
+   */
+  readonly extra: any;
+
+  constructor(code: AudioPlayerErrorCode, message: string, nativeError?: any, extra?: any);
+
+  /**
+   * Wraps any error in an `AudioPlayerError`, errors that already are one are returned as is.
+   */
+  static from(error: any, code: AudioPlayerErrorCode, extra?: any): AudioPlayerError;
+}
+
+export enum PlayerState {
+  /**
+   * Nothing loaded yet.
+   */
+  Idle = 'idle',
+  /**
+   * An audio file is being prepared.
+   */
+  Loading = 'loading',
+  /**
+   * Prepared and not started yet.
+   */
+  Ready = 'ready',
+  Playing = 'playing',
+  Paused = 'paused',
+  /**
+   * Playback stalled, waiting for more data.
+   */
+  Buffering = 'buffering',
+  /**
+   * Reached the end of the audio file.
+   */
+  Completed = 'completed',
+  /**
+   * Loading or playback failed, load another file to carry on.
+   */
+  Error = 'error',
+  /**
+   * Released with `dispose()`, load another file to carry on.
+   */
+  Disposed = 'disposed'
+}
+
+/**
+ * `data` of the `stateChanged` event.
+ */
+export interface StateChangedEventData {
+  oldState: PlayerState;
+  newState: PlayerState;
+}
+
+/**
+ * `data` of the `timeUpdate` event.
+ */
+export interface TimeUpdateEventData {
+  /**
+   * Playback position in seconds.
+   */
+  currentTime: number;
+  /**
+   * Duration in seconds, 0 when unknown.
+   */
+  duration: number;
+  /**
+   * How far the audio file is loaded, in seconds.
+   */
+  bufferedPosition: number;
+}
+
+/**
+ * `data` of the `rateChanged` event.
+ */
+export interface RateChangedEventData {
+  rate: number;
+}
+
+/**
+ * `data` of the `volumeChanged` event.
+ */
+export interface VolumeChangedEventData {
+  volume: number;
+}
+
+/**
+ * `data` of the `skipped` event.
+ */
+export interface SkippedEventData {
+  /**
+   * Position before the skip, in seconds.
+   */
+  from: number;
+  /**
+   * Position after the skip, in seconds, within `[0, duration]`.
+   */
+  to: number;
+  /**
+   * Seconds asked for, negative when skipping backward.
+   */
+  offset: number;
+}
+
+export enum TransitionMode {
+  /**
+   * Load the next item once the current one completed.
+   */
+  None = 'none',
+  /**
+   * Start the next item on the exact end of the current one.
+   */
+  Gapless = 'gapless',
+  /**
+   * Fade the next item in while the current one fades out, over `crossfadeDuration`.
+   */
+  Crossfade = 'crossfade'
+}
+
+export const DEFAULT_CROSSFADE_DURATION: number;
+
+/**
+ * `data` of the `transitioned` event.
+ */
+export interface TransitionEventData {
+  mode: TransitionMode;
+  /**
+   * Options of the item that ended or is fading out.
+   */
+  previousItem: AudioPlayerOptions;
+  /**
+   * Options of the item now playing, as passed to `setNextItem`.
+   */
+  item: AudioPlayerOptions;
+}
+
+export interface StreamRecoveryOptions {
+  /**
+   * Attempts to re-prepare the stream before giving up. Defaults to 5.
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first attempt in milliseconds, doubled on each following attempt. Defaults to 1000.
+   */
+  retryDelay?: number;
+  /**
+   * Longest delay between two attempts in milliseconds. Defaults to 30000.
+   */
+  maxRetryDelay?: number;
+}
+
+/**
+ * `data` of the `recovering` event, fired before each attempt.
+ */
+export interface RecoveringEventData {
+  /**
+   * The attempt about to be made, from 1 to `maxRetries`.
+   */
+  attempt: number;
+  maxRetries: number;
+  /**
+   * Milliseconds before the attempt.
+   */
+  delay: number;
+  /**
+   * Position in seconds playback picks up from.
+   */
+  position: number;
+  error: AudioPlayerError;
+}
+
+/**
+ * `data` of the `recovered` event.
+ */
+export interface RecoveredEventData {
+  attempts: number;
+  position: number;
+}
+
+/**
+ * `data` of the `gaveUp` event, followed by the `error` event.
+ */
+export interface GaveUpEventData {
+  attempts: number;
+  /**
+   * The error of the last attempt.
+   */
+  error: AudioPlayerError;
+}
+
+/**
+ * Whether re-preparing the same source may get past an error: network failures and the unspecified
+ * playback failures a dropped connection shows up as, not decode or permission errors.
+ */
+export function isRecoverableError(error: AudioPlayerError): boolean;
+
+/**
+ * Returns the token sent as `Authorization: Bearer <token>` with the requests for an audio file.
+ * @param refresh - True once the server turned the last token down with 401, a new token is needed then.
+ */
+export type AuthTokenProvider = (refresh: boolean) => Promise<string>;
+
+export type RequestHeaders = { [name: string]: string };
+
+/**
+ * Headers of the requests for a remote audio file: the `headers` option, the `userAgent` and
+ * the token of the `tokenProvider`, which win over the same headers in `headers`.
+ * @param refresh - Asks the token provider for a new token.
+ */
+export function audioRequestHeaders(options: AudioPlayerOptions, refresh?: boolean): Promise<RequestHeaders>;
+
+/**
+ * Whether the server turns the headers down with 401, asked with a HEAD request.
+ */
+export function isUnauthorized(url: string, headers: RequestHeaders): Promise<boolean>;
+
+export enum StreamSourceType {
+  /**
+   * An audio file or an endless audio stream, e.g. an Icecast radio.
+   */
+  Audio = 'audio',
+  /**
+   * An HLS playlist (`.m3u8`), played by the native players.
+   */
+  Hls = 'hls',
+  /**
+   * An m3u or pls playlist, which only lists the streams to play.
+   */
+  Playlist = 'playlist'
+}
+
+/**
+ * A remote source ready for the native players.
+ */
+export interface StreamSource {
+  /**
+   * The url to play: the source url, or the stream picked from its playlist.
+   */
+  url: string;
+  /**
+   * `Audio` or `Hls`, playlists are resolved.
+   */
+  type: StreamSourceType;
+  headers: RequestHeaders;
+}
+
+/**
+ * Tells the kind of a source from the extension of its url.
+ */
+export function streamSourceType(url: string): StreamSourceType;
+
+/**
+ * Resolves an url of a playlist entry against the url of the playlist.
+ */
+export function resolvePlaylistUrl(baseUrl: string, url: string): string;
+
+/**
+ * Urls listed by an m3u playlist, in order.
+ * @param baseUrl - Url of the playlist, relative entries are resolved against it.
+ */
+export function parseM3u(text: string, baseUrl?: string): string[];
+
+/**
+ * Urls listed by a pls playlist, ordered by their `FileN` number.
+ * @param baseUrl - Url of the playlist, relative entries are resolved against it.
+ */
+export function parsePls(text: string, baseUrl?: string): string[];
+
+/**
+ * Gets the request headers of an item and, for an m3u or pls playlist, reads it to pick the first
+ * stream it lists.
+ * @param refresh - Asks the token provider for a new token.
+ */
+export function resolveStreamSource(url: string, options: AudioPlayerOptions, refresh?: boolean): Promise<StreamSource>;
+
+/**
+ * Level of silence in dBFS, the bottom of the metering scale on both platforms.
+ */
+export const MIN_POWER: number;
+
+/**
+ * `data` of the `metering` event.
+ */
+export interface MeteringEventData {
+  /**
+   * Average power of each channel in dBFS, from -160 (silence) to 0. A single entry on Android.
+   */
+  averagePower: number[];
+  /**
+   * Peak power of each channel in dBFS, from -160 (silence) to 0. A single entry on Android.
+   */
+  peakPower: number[];
+}
+
+/**
+ * Center frequencies of the equalizer bands in Hz, the same on both platforms.
+ */
+export const EQUALIZER_FREQUENCIES: number[];
+
+/**
+ * Largest boost or cut of an equalizer band, in dB.
+ */
+export const MAX_BAND_GAIN: number;
+
+/**
+ * Largest extra gain of `loudness`, in dB.
+ */
+export const MAX_LOUDNESS: number;
+
+export interface AudioEffectsPreset {
+  name: string;
+  /**
+   * Gain of each `EQUALIZER_FREQUENCIES` band in dB, from -12 to 12.
+   */
+  bandGains: number[];
+  /**
+   * Strength of the bass boost, from 0 (off) to 1.
+   */
+  bassBoost?: number;
+  /**
+   * Extra gain in dB, from 0 to 12, for quiet recordings.
+   */
+  loudness?: number;
+}
+
+/**
+ * `data` of the `effectsChanged` event.
+ */
+export interface AudioEffectsSettings {
+  enabled: boolean;
+  bandGains: number[];
+  bassBoost: number;
+  loudness: number;
+  /**
+   * Name of the last applied preset, null once a setting was changed by hand.
+   */
+  preset: string | null;
+}
+
+export const AudioEffectsPresets: {
+  Flat: AudioEffectsPreset;
+  /**
+   * Lifts the speech frequencies and the overall level, and cuts the rumble below them.
+   */
+  VoiceBoost: AudioEffectsPreset;
+  BassBoost: AudioEffectsPreset;
+};
+
+/**
+ * The equalizer, bass boost and loudness of a player, see `TNSPlayer.audioEffects`.
+ * Off until enabled or a preset is applied.
+ */
+export class AudioEffects {
+  enabled: boolean;
+  /**
+   * Gain of each `EQUALIZER_FREQUENCIES` band in dB.
+   */
+  readonly bandGains: number[];
+  /**
+   * Strength of the bass boost, from 0 (off) to 1.
+   */
+  bassBoost: number;
+  /**
+   * Extra gain in dB, from 0 to 12.
+   */
+  loudness: number;
+  readonly preset: string | null;
+  readonly settings: AudioEffectsSettings;
+
+  /**
+   * @param index - Index in `EQUALIZER_FREQUENCIES`.
+   * @param gain - In dB, clamped to -12..12.
+   */
+  setBandGain(index: number, gain: number): void;
+
+  /**
+   * Takes over all the settings of the preset and turns the effects on.
+   */
+  applyPreset(preset: AudioEffectsPreset): void;
+
+  /**
+   * The current settings as a preset, e.g. to save them in an `AudioEffectsPresetStore`.
+   */
+  toPreset(name: string): AudioEffectsPreset;
+}
+
+/**
+ * Keeps custom presets next to the built-in `AudioEffectsPresets`, by default in ApplicationSettings.
+ */
+export class AudioEffectsPresetStore {
+  constructor(storage?: PlaybackProgressStorage);
+
+  /**
+   * Adds or replaces a custom preset. Built-in presets cannot be replaced.
+   */
+  save(preset: AudioEffectsPreset): void;
+
+  remove(name: string): void;
+
+  /**
+   * A built-in or custom preset, undefined when there is none of that name.
+   */
+  get(name: string): AudioEffectsPreset | undefined;
+
+  /**
+   * The built-in presets followed by the custom ones, by name.
+   */
+  list(): AudioEffectsPreset[];
+}
+
+export enum RemoteCommand {
+  Play = 'play',
+  Pause = 'pause',
+  TogglePlayPause = 'togglePlayPause',
+  Stop = 'stop',
+  SkipForward = 'skipForward',
+  SkipBackward = 'skipBackward',
+  /**
+   * Not handled by the player, a `TNSPlaylist` moves to its next item.
+   */
+  NextTrack = 'nextTrack',
+  /**
+   * Not handled by the player, a `TNSPlaylist` moves to its previous item.
+   */
+  PreviousTrack = 'previousTrack',
+  Seek = 'seek',
+  ChangeRate = 'changeRate'
+}
+
+/**
+ * `data` of the `remoteCommand` event, fired for each command from the lock screen,
+ * headphones or media controls before the player runs it.
+ */
+export interface RemoteCommandEventData {
+  command: RemoteCommand;
+  /**
+   * `Seek`: the position to seek to, in seconds.
+   */
+  position?: number;
+  /**
+   * `SkipForward`/`SkipBackward`: seconds to skip, the player skip interval when not set.
+   */
+  interval?: number;
+  /**
+   * `ChangeRate`: the requested playback speed.
+   */
+  rate?: number;
+}
+
+export enum AudioFocusDurationHint {
+  /**
+   * Expresses the fact that your application is now the sole source
+   * of audio that the user is listening to. The duration of the
+   * audio playback is unknown, and is possibly very long: after the
+   * user finishes interacting with your application, (s)he doesn’t
+   * expect another audio stream to resume.
+   */
+  AUDIOFOCUS_GAIN = android.media.AudioManager.AUDIOFOCUS_GAIN,
+  /**
+   * For a situation when you know your application is temporarily
+   * grabbing focus from the current owner, but the user expects
+   * playback to go back to where it was once your application no
+   * longer requires audio focus.
+   */
+  AUDIOFOCUS_GAIN_TRANSIENT = android.media.AudioManager
+    .AUDIOFOCUS_GAIN_TRANSIENT,
+  /**
+   * This focus request type is similar to AUDIOFOCUS_GAIN_TRANSIENT
+   * for the temporary aspect of the focus request, but it also
+   * expresses the fact during the time you own focus, you allow
+   * another application to keep playing at a reduced volume,
+   * “ducked”.
+   */
+  AUDIOFOCUS_GAIN_TRANSIENT_MAY_DUCK = android.media.AudioManager
+    .AUDIOFOCUS_GAIN_TRANSIENT_MAY_DUCK,
+  /**
+   * Also for a temporary request, but also expresses that your
+   * application expects the device to not play anything else. This
+   * is typically used if you are doing audio recording or speech
+   * recognition, and don’t want for examples notifications to be
+   * played by the system during that time.
+   */
+  AUDIOFOCUS_GAIN_TRANSIENT_EXCLUSIVE = android.media.AudioManager
+    .AUDIOFOCUS_GAIN_TRANSIENT_MAY_DUCK
+}
+
+export interface AudioFocusManagerOptions {
+  durationHint?: AudioFocusDurationHint;
+  usage?: number; // android.media.AudioAttributes.USAGE_MEDIA
+  contentType?: number; // android.media.AudioAttributes.CONTENT_TYPE_MUSIC
+}
+export interface AudioFocusChangeEventData extends EventData {
+  focusChange: number;
+}
+
+/**
+ * Android only: the iOS class is empty and never fires `audioFocusChange`. Between the players of
+ * the app, `playerRegistry` pauses or ducks on both platforms.
+ */
+export class AudioFocusManager extends Observable {
+  constructor(options?: AudioFocusManagerOptions);
+  on(event: 'audioFocusChange', callback: (data: AudioFocusChangeEventData) => void, thisArg?: any);
+}
+
+export enum PlaybackPolicy {
+  /**
+   * Pause the other players of the app.
+   */
+  Exclusive = 'exclusive',
+  /**
+   * Lower the volume of the other players until this one stops.
+   */
+  Duck = 'duck',
+  /**
+   * Play along with the other players.
+   */
+  Mix = 'mix'
+}
+
+/**
+ * What the registry needs from a player.
+ */
+export interface RegisteredPlayer {
+  readonly events: Observable;
+  readonly state: PlayerState;
+  readonly playbackPolicy: PlaybackPolicy | null;
+  pause(): Promise<any>;
+  setDuckVolume(factor: number): void;
+}
+
+/**
+ * Keeps track of the live players of the app and applies a `PlaybackPolicy` when one of them
+ * starts playing. `activePlayer` is the player started last that is still playing, changes
+ * fire `propertyChange`. Players register themselves when created and unregister when disposed.
+ */
+export class PlayerRegistry extends Observable {
+  /**
+   * Policy of the players whose `playbackPolicy` is not set, `Exclusive` by default.
+   */
+  policy: PlaybackPolicy;
+  /**
+   * Volume factor of the players ducked by another one, 0.2 by default.
+   */
+  duckVolume: number;
+  readonly activePlayer: RegisteredPlayer | null;
+  readonly players: RegisteredPlayer[];
+  register(player: RegisteredPlayer): void;
+  unregister(player: RegisteredPlayer): void;
+}
+
+/**
+ * The registry every `TNSPlayer` registers with.
+ */
+export const playerRegistry: PlayerRegistry;
+
+export enum PlaylistRepeatMode {
+  /**
+   * Stop after the last item of the queue.
+   */
+  None = 'none',
+  /**
+   * Replay the current item when it completes.
+   */
+  One = 'one',
+  /**
+   * Start again from the first item after the last one completes.
+   */
+  All = 'all'
+}
+
+export interface IPlaylistEvents {
+  queueChanged: 'queueChanged';
+  currentItemChanged: 'currentItemChanged';
+}
+
+export const PlaylistEvents: IPlaylistEvents;
+
+export interface PlaylistQueueChangedEventData extends EventData {
+  items: AudioPlayerOptions[];
+}
+
+export interface PlaylistCurrentItemChangedEventData extends EventData {
+  index: number;
+  item: AudioPlayerOptions | null;
+  previousIndex: number;
+}
+
+/**
+ * Queue of `AudioPlayerOptions` played one after another by a `TNSPlayer`.
+ * Each item keeps its own callbacks, `loop` and `pitch`.
+ */
+export class TNSPlaylist extends Observable {
+  constructor(player: TNSPlayer, items?: AudioPlayerOptions[]);
+
+  readonly player: TNSPlayer;
+  readonly items: AudioPlayerOptions[];
+  readonly length: number;
+  readonly currentIndex: number;
+  readonly currentItem: AudioPlayerOptions | null;
+  readonly hasNext: boolean;
+  readonly hasPrevious: boolean;
+
+  /**
+   * Play the queue in random order. The current item keeps playing when toggled.
+   */
+  shuffle: boolean;
+
+  repeatMode: PlaylistRepeatMode;
+
+  /**
+   * Set to false to stay on the completed item instead of playing the next one.
+   * With a player `transitionMode`, the next item is prepared only while this is on and the repeat mode is not `One`.
+   */
+  autoAdvance: boolean;
+
+  /**
+   * Adds one or more items to the end of the queue.
+   */
+  enqueue(items: AudioPlayerOptions | AudioPlayerOptions[]): void;
+
+  /**
+   * Inserts an item at the given queue index.
+   */
+  insert(index: number, item: AudioPlayerOptions): void;
+
+  /**
+   * Removes the item at the given queue index. Removing the current item
+   * moves on to the next one, keeping the player state (playing or paused).
+   */
+  remove(index: number): Promise<AudioPlayerOptions | null>;
+
+  /**
+   * Moves an item from one queue index to another.
+   */
+  move(fromIndex: number, toIndex: number): void;
+
+  /**
+   * Empties the queue and pauses the player.
+   */
+  clear(): Promise<any>;
+
+  /**
+   * Loads the item at the given queue index.
+   * @param autoPlay [boolean] - Start playing once loaded, defaults to true.
+   */
+  playAt(index: number, autoPlay?: boolean): Promise<any>;
+
+  /**
+   * Loads the next item in playback order. Resolves false when there is none.
+   */
+  next(): Promise<boolean>;
+
+  /**
+   * Loads the previous item in playback order. Resolves false when there is none.
+   */
+  previous(): Promise<boolean>;
+
+  /**
+   * Empties the queue and releases the wrapped player.
+   */
+  dispose(): Promise<any>;
+
+  on(event: 'queueChanged', callback: (data: PlaylistQueueChangedEventData) => void, thisArg?: any);
+  on(event: 'currentItemChanged', callback: (data: PlaylistCurrentItemChangedEventData) => void, thisArg?: any);
+}
+
+
+export interface PodcastFeed {
+  title: string;
+  description?: string;
+  link?: string;
+  language?: string;
+  author?: string;
+  artwork?: string;
+  explicit?: boolean;
+  categories: string[];
+  /**
+   * itunes:type, `episodic` or `serial`.
+   */
+  type?: string;
+  /**
+   * podcast:guid
+   */
+  guid?: string;
+  /**
+   * podcast:locked
+   */
+  locked?: boolean;
+}
+
+export interface EpisodeEnclosure {
+  url: string;
+  type?: string;
+  length?: number;
+}
+
+export interface Episode {
+  /**
+   * The item guid, falls back to the enclosure url when the feed has none.
+   */
+  guid: string;
+  title: string;
+  description?: string;
+  link?: string;
+  pubDate?: Date;
+  enclosure: EpisodeEnclosure;
+  /**
+   * Duration in seconds.
+   */
+  duration?: number;
+  season?: number;
+  episode?: number;
+  /**
+   * itunes:episodeType, `full`, `trailer` or `bonus`.
+   */
+  episodeType?: string;
+  /**
+   * Episode artwork, falls back to the feed artwork.
+   */
+  artwork?: string;
+  explicit?: boolean;
+  /**
+   * podcast:chapters url (Podcasting 2.0 JSON chapters).
+   */
+  chaptersUrl?: string;
+  /**
+   * podcast:transcript url.
+   */
+  transcriptUrl?: string;
+}
+
+export interface FeedParseWarning {
+  message: string;
+  /**
+   * 1-based line in the source document, when known.
+   */
+  line?: number;
+  /**
+   * Index of the `<item>` the warning is about, when it is about one.
+   */
+  itemIndex?: number;
+}
+
+export interface FeedParseResult {
+  feed: PodcastFeed;
+  episodes: Episode[];
+  warnings: FeedParseWarning[];
+}
+
+/**
+ * Parses an RSS 2.0 podcast feed, including the `itunes:` and Podcasting 2.0 `podcast:` namespaces.
+ * Never throws: problems with the document are reported in `warnings`.
+ * @param xml [string] - The feed document.
+ */
+export function parsePodcastFeed(xml: string): FeedParseResult;
+
+/**
+ * Downloads and parses a podcast feed.
+ * @param url [string] - The feed url.
+ */
+export function fetchPodcastFeed(url: string): Promise<FeedParseResult>;
+
+/**
+ * Builds player options for an episode, ready for `playFromUrl` or a `TNSPlaylist`.
+ * The episode title and artwork are shown on the lock screen, add `artist`/`album` from the feed if wanted.
+ * @param episode [Episode] - A parsed episode.
+ * @param options - Extra player options (callbacks, `loop`, `pitch`...) merged on top.
+ */
+export function episodeToPlayerOptions(episode: Episode, options?: Partial<AudioPlayerOptions>): AudioPlayerOptions;
+
+/**
+ * Converts an `itunes:duration` value (`HH:MM:SS`, `MM:SS` or plain seconds) to seconds.
+ */
+export function parseDuration(value: string): number | undefined;
+
+
+export interface AudioChapter {
+  /**
+   * Start of the chapter in seconds.
+   */
+  startTime: number;
+  /**
+   * End of the chapter in seconds. When missing the chapter lasts until the next one starts.
+   */
+  endTime?: number;
+  title: string;
+  url?: string;
+  img?: string;
+  /**
+   * Podcasting 2.0 `toc` flag, false for chapters that should not be listed in a table of contents.
+   */
+  toc?: boolean;
+}
+
+/**
+ * `data` of the `chapterChanged` event.
+ */
+export interface ChapterChangedEventData {
+  chapter: AudioChapter | null;
+  index: number;
+  previousIndex: number;
+}
+
+/**
+ * Reads Podcasting 2.0 JSON chapters.
+ * @param json - The chapters document, as a string or already parsed.
+ */
+export function parseJsonChapters(json: string | any): AudioChapter[];
+
+/**
+ * Reads ID3v2.3 / ID3v2.4 CHAP frames, ordered by the top level CTOC frame when there is one.
+ * @param tag - The ID3v2 tag bytes, starting with the "ID3" header.
+ */
+export function parseId3Chapters(tag: Uint8Array): AudioChapter[];
+
+/**
+ * Returns the full size of the ID3v2 tag starting a file, or 0 when there is none.
+ * @param header - At least the first 10 bytes of the file.
+ */
+export function id3TagSize(header: Uint8Array): number;
+
+/**
+ * Key/value storage used by `PlaybackProgressStore`.
+ */
+export interface PlaybackProgressStorage {
+  getItem(key: string): string | undefined;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /**
+   * All the keys written through this storage.
+   */
+  keys(): string[];
+}
+
+/**
+ * Default storage, backed by NativeScript ApplicationSettings under a key prefix.
+ */
+export class ApplicationSettingsProgressStorage implements PlaybackProgressStorage {
+  constructor(prefix?: string);
+  getItem(key: string): string | undefined;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  keys(): string[];
+}
+
+export interface PlaybackProgress {
+  /**
+   * The episode id, or the audio file url when the episode has no id.
+   */
+  key: string;
+  /**
+   * Saved position in seconds.
+   */
+  position: number;
+  /**
+   * Duration in seconds, 0 when unknown.
+   */
+  duration: number;
+  finished: boolean;
+  /**
+   * Time of the last update, in milliseconds since the epoch.
+   */
+  updatedAt: number;
+}
+
+export interface PlaybackProgressStoreOptions {
+  /**
+   * Where the positions are kept, defaults to ApplicationSettings.
+   */
+  storage?: PlaybackProgressStorage;
+  /**
+   * Milliseconds between two saves while playing. Defaults to 5000.
+   */
+  saveInterval?: number;
+  /**
+   * Seconds before the end of an episode after which it is treated as finished. Defaults to 30.
+   */
+  finishedThreshold?: number;
+}
+
+/**
+ * Remembers the playback position of each episode so playback can pick up where it was left.
+ */
+export class PlaybackProgressStore {
+  readonly saveInterval: number;
+  readonly finishedThreshold: number;
+
+  constructor(options?: PlaybackProgressStoreOptions);
+
+  get(key: string): PlaybackProgress | null;
+
+  /**
+   * The position to resume the episode at, 0 when it was never played or is finished.
+   */
+  getResumePosition(key: string): number;
+
+  save(key: string, position: number, duration: number): PlaybackProgress;
+
+  markFinished(key: string, duration?: number): PlaybackProgress;
+
+  /**
+   * All saved positions, most recently updated first.
+   */
+  list(): PlaybackProgress[];
+
+  /**
+   * Forgets one episode, or every episode when no key is given.
+   */
+  clear(key?: string): void;
+
+  /**
+   * Serializes all saved positions, e.g. for a backup or a sync service.
+   */
+  export(): string;
+
+  /**
+   * Restores positions produced by `export()`. Entries older than the saved ones are ignored.
+   * @returns the number of entries written
+   */
+  import(json: string): number;
+}
+
+export enum DownloadStatus {
+  Queued = 'queued',
+  Downloading = 'downloading',
+  Paused = 'paused',
+  Completed = 'completed',
+  Failed = 'failed'
+}
+
+export interface DownloadInfo {
+  /**
+   * The id given to `download()`, defaults to the url.
+   */
+  id: string;
+  url: string;
+  /**
+   * Where the file is (or will be once completed) on disk.
+   */
+  path: string;
+  status: DownloadStatus;
+  bytesWritten: number;
+  /**
+   * Size of the file, 0 until the server reported it.
+   */
+  totalBytes: number;
+  /**
+   * Failed attempts since the last successful chunk.
+   */
+  attempts: number;
+  error?: string;
+}
+
+export interface DownloadManagerOptions {
+  /**
+   * Subfolder of the documents folder the episodes are saved to. Defaults to `podcast-audio`.
+   */
+  folder?: string;
+  /**
+   * Number of downloads running at the same time. Defaults to 2.
+   */
+  maxConcurrent?: number;
+  /**
+   * Retries of a failing chunk before the download fails. Defaults to 3.
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first retry in milliseconds, doubled on each following retry. Defaults to 2000.
+   */
+  retryDelay?: number;
+  /**
+   * Bytes requested per HTTP Range request. Defaults to 1 MB.
+   */
+  chunkSize?: number;
+  /**
+   * Maximum bytes used by all downloads together, 0 for no limit.
+   */
+  maxStorageBytes?: number;
+  /**
+   * Extra headers sent with every request.
+   */
+  headers?: { [name: string]: string };
+  /**
+   * Request timeout in milliseconds.
+   */
+  timeout?: number;
+  /**
+   * Let `TNSPlayer.playFromUrl` play the downloaded copy of a url. Defaults to true.
+   */
+  playLocalCopies?: boolean;
+}
+
+export interface IDownloadEvents {
+  progress: 'downloadProgress';
+  statusChanged: 'downloadStatusChanged';
+  completed: 'downloadCompleted';
+  failed: 'downloadFailed';
+}
+
+export const DownloadEvents: IDownloadEvents;
+
+export interface DownloadEventData extends EventData {
+  download: DownloadInfo;
+}
+
+/**
+ * Downloads episodes to the documents folder in HTTP Range chunks, so downloads
+ * can be paused, resumed (also after an app restart) and retried chunk by chunk.
+ */
+export class DownloadManager extends Observable {
+  constructor(options?: DownloadManagerOptions);
+
+  readonly folderPath: string;
+
+  /**
+   * Bytes used on disk by all the downloads, finished or not.
+   */
+  readonly usedBytes: number;
+
+  /**
+   * Queues a download. Downloading an url again returns the existing download,
+   * resuming it when it was paused or failed.
+   * @param url [string] - The audio file url.
+   * @param id [string] - Optional id to find the download with later, e.g. the episode guid.
+   */
+  download(url: string, id?: string): DownloadInfo;
+
+  /**
+   * Finds a download by id or url.
+   */
+  get(idOrUrl: string): DownloadInfo | undefined;
+
+  list(): DownloadInfo[];
+
+  /**
+   * The local file of a completed download, null when the url was not downloaded.
+   */
+  getLocalPath(url: string): string | null;
+
+  /**
+   * Stops a download after the chunk in flight, keeping what was downloaded.
+   */
+  pause(idOrUrl: string): void;
+
+  /**
+   * Continues a paused or failed download from where it stopped.
+   */
+  resume(idOrUrl: string): void;
+
+  /**
+   * Cancels a download and deletes its file.
+   */
+  remove(idOrUrl: string): void;
+
+  /**
+   * Cancels all downloads and deletes their files.
+   */
+  removeAll(): void;
+
+  /**
+   * Stops serving local copies to the players. Running downloads are paused.
+   */
+  dispose(): void;
+
+  on(event: 'downloadProgress' | 'downloadStatusChanged' | 'downloadCompleted' | 'downloadFailed', callback: (data: DownloadEventData) => void, thisArg?: any);
+}
+
+export interface AudioCacheOptions {
+  /**
+   * Subfolder of the temporary folder (the caches folder on iOS) the files are kept in. Defaults to `podcast-audio-cache`.
+   */
+  folder?: string;
+  /**
+   * Maximum bytes kept on disk, the least recently played files are evicted first. Defaults to 500 MB.
+   */
+  maxBytes?: number;
+  /**
+   * Bytes requested per HTTP Range request. Defaults to 512 KB.
+   */
+  chunkSize?: number;
+  /**
+   * Request timeout in milliseconds.
+   */
+  timeout?: number;
+}
+
+export interface CacheEntry {
+  url: string;
+  /**
+   * Where the file is once completely cached, the chunks cached so far are in the `<path>.part` folder.
+   */
+  path: string;
+  bytesCached: number;
+  /**
+   * Size of the file, 0 until the server reported it.
+   */
+  totalBytes: number;
+  complete: boolean;
+  /**
+   * Pinned files are never evicted.
+   */
+  pinned: boolean;
+  /**
+   * When the file was last played, in milliseconds since the epoch.
+   */
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  usedBytes: number;
+  maxBytes: number;
+  entries: number;
+  completeEntries: number;
+  pinnedEntries: number;
+  /**
+   * Plays served from disk since the cache was created.
+   */
+  hits: number;
+  /**
+   * Plays streamed because the file was not completely cached yet.
+   */
+  misses: number;
+  /**
+   * Files evicted to stay under `maxBytes` since the cache was created.
+   */
+  evictions: number;
+}
+
+export const CacheEvents: {
+  progress: string;
+  completed: string;
+  evicted: string;
+};
+
+export interface CacheEventData extends EventData {
+  entry: CacheEntry;
+}
+
+/**
+ * Bytes of a file streamed through the cache, see `AudioCache.read`.
+ */
+export interface CachedBytes {
+  /**
+   * Position of the first byte in the file.
+   */
+  start: number;
+  /**
+   * A `byte[]` on Android, an `NSData` on iOS.
+   */
+  bytes: any;
+  totalBytes: number;
+}
+
+/**
+ * Keeps the remote files the players stream on disk, so later plays and seeks are served locally.
+ * The players read the files through the cache (a local proxy on Android, a resource loader on
+ * iOS), which fetches each chunk the player asks for once with an HTTP Range request and keeps it
+ * as it hands it over. Once every chunk of a file is cached, they are joined into one file, which
+ * `playFromUrl` plays instead of the url. A file left half way keeps its chunks for the next play.
+ */
+export class AudioCache extends Observable {
+  constructor(options?: AudioCacheOptions);
+
+  readonly folderPath: string;
+
+  /**
+   * Bytes used on disk by all the cached files, complete or not.
+   */
+  readonly usedBytes: number;
+
+  readonly stats: CacheStats;
+
+  get(url: string): CacheEntry | undefined;
+
+  list(): CacheEntry[];
+
+  /**
+   * The cached file of an url, null until it is completely cached.
+   */
+  getLocalPath(url: string): string | null;
+
+  /**
+   * Keeps the file of an url out of the eviction, e.g. for a favourite episode. An url not cached
+   * yet is cached the next time it is played.
+   */
+  pin(url: string): void;
+
+  unpin(url: string): void;
+
+  /**
+   * Deletes the cached file of an url, pinned or not.
+   */
+  remove(url: string): void;
+
+  /**
+   * Deletes the cached files, pinned files are kept unless `includePinned` is set.
+   */
+  clearCache(includePinned?: boolean): void;
+
+  /**
+   * Called by the player before it streams a remote audio file, which it then reads with `read`.
+   * @returns false when the file cannot be streamed through the cache, e.g. a live stream of no
+   * known size, the player then streams the url itself
+   */
+  openStream(url: string, headers: RequestHeaders | null): Promise<boolean>;
+
+  /**
+   * Bytes of a file opened with `openStream`, from the chunk holding `position` on. A chunk not
+   * cached yet is fetched with a Range request and kept, a chunk asked for again meanwhile is
+   * fetched once.
+   */
+  read(url: string, position: number): Promise<CachedBytes>;
+
+  /**
+   * Caches a file the player downloaded whole, e.g. on iOS to play it with `AVAudioPlayer`.
+   * @param bytes - A `byte[]` on Android, an `NSData` on iOS.
+   */
+  put(url: string, bytes: any): Promise<void>;
+
+  /**
+   * Called by the player once an item is prepared.
+   */
+  onPrepared(options: AudioPlayerOptions): void;
+
+  /**
+   * Stops caching and serving cached files to the players. Files streaming through the cache go on
+   * streaming from the network, what was cached stays on disk.
+   */
+  dispose(): void;
+
+  on(event: 'cacheProgress' | 'cacheCompleted' | 'cacheEvicted', callback: (data: CacheEventData) => void, thisArg?: any);
+}
+
+export enum SleepTimerMode {
+  /**
+   * Stop after a number of minutes of playback.
+   */
+  Duration = 'duration',
+  /**
+   * Stop when the current episode ends.
+   */
+  EndOfEpisode = 'endOfEpisode',
+  /**
+   * Stop when the current chapter ends, or the episode when it has no chapters.
+   */
+  EndOfChapter = 'endOfChapter'
+}
+
+export interface SleepTimerOptions {
+  /**
+   * Defaults to `SleepTimerMode.Duration`.
+   */
+  mode?: SleepTimerMode;
+  /**
+   * Minutes of playback before stopping, for `SleepTimerMode.Duration`.
+   */
+  minutes?: number;
+  /**
+   * Seconds over which the volume fades out before stopping. 0 (default) stops without fading.
+   */
+  fadeOutDuration?: number;
+}
+
+/**
+ * `data` of the `sleepTimerTick` and `sleepTimerFired` events.
+ */
+export interface SleepTimerEventData {
+  mode: SleepTimerMode;
+  /**
+   * Seconds left before the timer fires, at the current playback speed.
+   */
+  remaining: number;
 }
\ No newline at end of file
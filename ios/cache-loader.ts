@@ -0,0 +1,125 @@
+import { AudioCache, CachedBytes } from '../cache';
+
+/**
+ * Scheme of the urls read through an `AudioCache`. AVPlayer hands the urls of a scheme it does not
+ * know to the resource loader delegate of the asset.
+ */
+const CACHE_SCHEME = 'podcast-audio-cache';
+
+const CONTENT_TYPES: { [extension: string]: string } = {
+  mp3: 'public.mp3',
+  m4a: 'com.apple.m4a-audio',
+  m4b: 'com.apple.m4a-audio',
+  mp4: 'public.mpeg-4',
+  aac: 'public.aac-audio',
+  wav: 'com.microsoft.waveform-audio',
+  aif: 'public.aiff-audio',
+  aiff: 'public.aiff-audio'
+};
+
+// the module loads on the main thread, dispatch_get_main_queue is a macro the runtime does not expose
+const mainQueue = dispatch_get_current_queue();
+
+/**
+ * Answers the requests of AVPlayer for a file streamed through an `AudioCache`, so each chunk it
+ * plays is fetched once and cached as it is handed over. The requests are answered on the main
+ * queue, one chunk at a time.
+ */
+export class CacheResourceLoader extends NSObject implements AVAssetResourceLoaderDelegate {
+  static ObjCProtocols = [AVAssetResourceLoaderDelegate];
+  private _cache: AudioCache;
+  private _url: string;
+  private _requests: AVAssetResourceLoadingRequest[];
+
+  static initWithCache(cache: AudioCache, url: string) {
+    const loader = <CacheResourceLoader>CacheResourceLoader.new();
+    loader._cache = cache;
+    loader._url = url;
+    loader._requests = [];
+    return loader;
+  }
+
+  /**
+   * The asset AVPlayer plays the file with. The asset does not keep its loader, keep it meanwhile.
+   */
+  createAsset(): AVURLAsset {
+    const components = NSURLComponents.componentsWithString(this._url);
+    components.scheme = CACHE_SCHEME;
+    const asset = AVURLAsset.URLAssetWithURLOptions(components.URL, null);
+    asset.resourceLoader.setDelegateQueue(this, mainQueue);
+    return asset;
+  }
+
+  /**
+   * Drops the requests left, once the player is disposed.
+   */
+  cancel() {
+    this._requests = [];
+  }
+
+  resourceLoaderShouldWaitForLoadingOfRequestedResource(resourceLoader: AVAssetResourceLoader, loadingRequest: AVAssetResourceLoadingRequest): boolean {
+    try {
+      this._requests.push(loadingRequest);
+      this._load(loadingRequest);
+      return true;
+    } catch (error) {
+      console.error('[Code error IOS-E80] Error with resourceLoaderShouldWaitForLoadingOfRequestedResource :', error);
+      return false;
+    }
+  }
+
+  resourceLoaderDidCancelLoadingRequest(resourceLoader: AVAssetResourceLoader, loadingRequest: AVAssetResourceLoadingRequest) {
+    this._requests = this._requests.filter(request => request !== loadingRequest);
+  }
+
+  /**
+   * Responds with the bytes from the current offset of the request, until the end it asked for.
+   */
+  private _load(request: AVAssetResourceLoadingRequest) {
+    const dataRequest = request.dataRequest;
+    const position = dataRequest ? dataRequest.currentOffset : 0;
+    this._cache.read(this._url, position).then(
+      (cached: CachedBytes) => {
+        if (this._requests.indexOf(request) === -1) {
+          return;
+        }
+        const info = request.contentInformationRequest;
+        if (info) {
+          info.contentType = contentTypeOf(this._url);
+          info.contentLength = cached.totalBytes;
+          info.byteRangeAccessSupported = true;
+        }
+        const end = !dataRequest ? 0 : dataRequest.requestsAllDataToEndOfResource ? cached.totalBytes : Math.min(dataRequest.requestedOffset + dataRequest.requestedLength, cached.totalBytes);
+        if (position < end) {
+          const offset = position - cached.start;
+          const length = Math.min(cached.bytes.length - offset, end - position);
+          dataRequest.respondWithData(cached.bytes.subdataWithRange({ location: offset, length }));
+          if (position + length < end) {
+            this._load(request);
+            return;
+          }
+        }
+        this._finish(request);
+        request.finishLoading();
+      },
+      error => {
+        if (this._requests.indexOf(request) === -1) {
+          return;
+        }
+        console.error('[Code error IOS-E81] Error reading the cached stream :', this._url, error);
+        this._finish(request);
+        const userInfo = NSDictionary.dictionaryWithObjectForKey(`${error && error.message ? error.message : error}`, NSLocalizedDescriptionKey);
+        request.finishLoadingWithError(NSError.errorWithDomainCodeUserInfo(NSURLErrorDomain, NSURLErrorResourceUnavailable, userInfo));
+      }
+    );
+  }
+
+  private _finish(request: AVAssetResourceLoadingRequest) {
+    this._requests = this._requests.filter(pending => pending !== request);
+  }
+}
+
+function contentTypeOf(url: string): string {
+  const extension = /\.([a-z0-9]{2,4})(?:[?#]|$)/i.exec(url);
+  return (extension && CONTENT_TYPES[extension[1].toLowerCase()]) || 'public.mp3';
+}
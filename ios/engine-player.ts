@@ -0,0 +1,192 @@
+import { Utils } from '@nativescript/core';
+import { AudioEffectsSettings, EQUALIZER_FREQUENCIES, MAX_BAND_GAIN } from '../audio-effects';
+
+/**
+ * What `EnginePlayer` reports back to its `TNSPlayer`.
+ */
+export interface EnginePlayerListener {
+  onEnded(): void;
+}
+
+/**
+ * Frequency in Hz below which the bass boost lifts the low end.
+ */
+const BASS_BOOST_FREQUENCY = 100;
+
+/**
+ * Playback of a local file through AVAudioEngine, so the audio effects can be applied:
+ * player node, time pitch (speed), EQ, main mixer. It mirrors the part of the AVAudioPlayer
+ * API that `TNSPlayer` uses, so it can sit behind the same `_player` field.
+ */
+export class EnginePlayer {
+  readonly engine: AVAudioEngine;
+  private _node: AVAudioPlayerNode;
+  private _timePitch: AVAudioUnitTimePitch;
+  private _eq: AVAudioUnitEQ;
+  private _file: AVAudioFile;
+  private _sampleRate: number;
+  private _segmentStart = 0;
+  private _pausedTime = 0;
+  private _playing = false;
+  /**
+   * Bumped on every new segment, so the completion of a segment cut short by a seek or stop is ignored.
+   */
+  private _segment = 0;
+
+  constructor(url: NSURL, settings: AudioEffectsSettings, private _listener: EnginePlayerListener) {
+    try {
+      // throws the NSError when the file cannot be read
+      this._file = AVAudioFile.alloc().initForReadingError(url);
+      this._sampleRate = this._file.processingFormat.sampleRate;
+      this.engine = AVAudioEngine.new();
+      this._node = AVAudioPlayerNode.new();
+      this._timePitch = AVAudioUnitTimePitch.new();
+      // one band per equalizer frequency, and a low shelf for the bass boost
+      this._eq = AVAudioUnitEQ.alloc().initWithNumberOfBands(EQUALIZER_FREQUENCIES.length + 1);
+      for (let index = 0; index < this._eq.bands.count; index++) {
+        const band = this._eq.bands.objectAtIndex(index);
+        if (index < EQUALIZER_FREQUENCIES.length) {
+          band.filterType = AVAudioUnitEQFilterType.Parametric;
+          band.frequency = EQUALIZER_FREQUENCIES[index];
+          band.bandwidth = 1;
+        } else {
+          band.filterType = AVAudioUnitEQFilterType.LowShelf;
+          band.frequency = BASS_BOOST_FREQUENCY;
+        }
+        band.bypass = false;
+      }
+      this.applyEffects(settings);
+
+      const format = this._file.processingFormat;
+      [this._node, this._timePitch, this._eq].forEach(node => this.engine.attachNode(node));
+      this.engine.connectToFormat(this._node, this._timePitch, format);
+      this.engine.connectToFormat(this._timePitch, this._eq, format);
+      this.engine.connectToFormat(this._eq, this.engine.mainMixerNode, format);
+      this.engine.prepare();
+      this._schedule(0);
+    } catch (error) {
+      console.error('[Code error IOS-E66] Error with EnginePlayer :', error);
+      throw error;
+    }
+  }
+
+  get volume(): number {
+    return this._node.volume;
+  }
+
+  set volume(value: number) {
+    this._node.volume = value;
+  }
+
+  get duration(): number {
+    return this._sampleRate > 0 ? this._file.length / this._sampleRate : 0;
+  }
+
+  get currentTime(): number {
+    if (!this._playing) {
+      return this._pausedTime;
+    }
+    const nodeTime = this._node.lastRenderTime;
+    const playerTime = nodeTime && this._node.playerTimeForNodeTime(nodeTime);
+    if (!playerTime || !playerTime.sampleTimeValid) {
+      return this._pausedTime;
+    }
+    const time = this._segmentStart / this._sampleRate + playerTime.sampleTime / playerTime.sampleRate;
+    return Math.max(0, Math.min(this.duration, time));
+  }
+
+  set currentTime(value: number) {
+    const playing = this._playing;
+    // stopping completes the current segment, which is not the end of the file
+    this._segment++;
+    this._node.stop();
+    this._schedule(Math.round(Math.max(0, Math.min(this.duration, value)) * this._sampleRate));
+    if (playing) {
+      this._node.play();
+    }
+  }
+
+  get playing(): boolean {
+    return this._playing;
+  }
+
+  get rate(): number {
+    return this._timePitch.rate;
+  }
+
+  set rate(value: number) {
+    this._timePitch.rate = value;
+  }
+
+  play() {
+    if (!this.engine.running) {
+      // throws the NSError when the audio output is not available
+      this.engine.startAndReturnError();
+    }
+    this._node.play();
+    this._playing = true;
+  }
+
+  pause() {
+    this._pausedTime = this.currentTime;
+    this._node.pause();
+    this._playing = false;
+  }
+
+  stop() {
+    this.pause();
+  }
+
+  /**
+   * Applies the settings right away, also while playing.
+   */
+  applyEffects(settings: AudioEffectsSettings) {
+    const bands = this._eq.bands;
+    EQUALIZER_FREQUENCIES.forEach((frequency, index) => bands.objectAtIndex(index).gain = settings.bandGains[index] || 0);
+    bands.objectAtIndex(EQUALIZER_FREQUENCIES.length).gain = settings.bassBoost * MAX_BAND_GAIN;
+    this._eq.globalGain = settings.loudness;
+    this._eq.bypass = !settings.enabled;
+  }
+
+  dispose() {
+    try {
+      this._segment++;
+      this._playing = false;
+      this._node.stop();
+      this.engine.stop();
+    } catch (error) {
+      console.error('[Code error IOS-E67] Error with EnginePlayer dispose :', error);
+    }
+  }
+
+  /**
+   * Queues the file from a frame to its end.
+   */
+  private _schedule(startFrame: number) {
+    const segment = ++this._segment;
+    this._segmentStart = startFrame;
+    this._pausedTime = startFrame / this._sampleRate;
+    const frameCount = Math.max(0, this._file.length - startFrame);
+    if (!frameCount) {
+      return;
+    }
+    this._node.scheduleSegmentStartingFrameFrameCountAtTimeCompletionCallbackTypeCompletionHandler(
+      this._file, startFrame, frameCount, null, AVAudioPlayerNodeCompletionCallbackType.DataPlayedBack, () => {
+        // called on an audio thread
+        Utils.dispatchToMainThread(() => {
+          if (segment === this._segment && this._playing) {
+            this._onEnded();
+          }
+        });
+      });
+  }
+
+  private _onEnded() {
+    // like AVAudioPlayer, go back to the start once the end is reached
+    this._playing = false;
+    this._segment++;
+    this._node.stop();
+    this._schedule(0);
+    this._listener.onEnded();
+  }
+}
@@ -0,0 +1,131 @@
+import { loadArtwork, MediaSessionHost, NowPlayingInfo, REMOTE_PLAYBACK_RATES, RemoteCommand, RemoteCommandEventData } from '../media-session';
+import { AudioPlayerEvents } from '../options';
+import { PlayerState, PREPARED_STATES } from '../player-state';
+
+interface CommandTarget {
+  command: MPRemoteCommand;
+  token: any;
+}
+
+/**
+ * Publishes the now playing info and the playback position to MPNowPlayingInfoCenter, shown on the
+ * lock screen and in the control center, and turns MPRemoteCommandCenter commands into `RemoteCommand`s.
+ */
+export class NowPlayingController {
+  private _info: NowPlayingInfo = {};
+  private _artwork: MPMediaItemArtwork | null = null;
+  private _targets: CommandTarget[] = [];
+
+  constructor(private _host: MediaSessionHost, private _onCommand: (data: RemoteCommandEventData) => void) {
+    try {
+      const center = MPRemoteCommandCenter.sharedCommandCenter();
+      center.changePlaybackRateCommand.supportedPlaybackRates = NSArray.arrayWithArray<number>(REMOTE_PLAYBACK_RATES);
+      this._addTarget(center.playCommand, () => ({ command: RemoteCommand.Play }));
+      this._addTarget(center.pauseCommand, () => ({ command: RemoteCommand.Pause }));
+      this._addTarget(center.togglePlayPauseCommand, () => ({ command: RemoteCommand.TogglePlayPause }));
+      this._addTarget(center.stopCommand, () => ({ command: RemoteCommand.Stop }));
+      this._addTarget(center.skipForwardCommand, (event: MPSkipIntervalCommandEvent) => ({ command: RemoteCommand.SkipForward, interval: event.interval }));
+      this._addTarget(center.skipBackwardCommand, (event: MPSkipIntervalCommandEvent) => ({ command: RemoteCommand.SkipBackward, interval: event.interval }));
+      this._addTarget(center.nextTrackCommand, () => ({ command: RemoteCommand.NextTrack }));
+      this._addTarget(center.previousTrackCommand, () => ({ command: RemoteCommand.PreviousTrack }));
+      this._addTarget(center.changePlaybackPositionCommand, (event: MPChangePlaybackPositionCommandEvent) => ({ command: RemoteCommand.Seek, position: event.positionTime }));
+      this._addTarget(center.changePlaybackRateCommand, (event: MPChangePlaybackRateCommandEvent) => ({ command: RemoteCommand.ChangeRate, rate: event.playbackRate }));
+      UIApplication.sharedApplication.beginReceivingRemoteControlEvents();
+
+      this._host.events.on(AudioPlayerEvents.prepared, this.update, this);
+      this._host.events.on(AudioPlayerEvents.stateChanged, this.update, this);
+      this._host.events.on(AudioPlayerEvents.seek, this.update, this);
+      this._host.events.on(AudioPlayerEvents.rateChanged, this.update, this);
+    } catch (error) {
+      console.error('[Code error IOS-E49] Error with NowPlayingController :', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Shows the given info for the audio file being loaded, the artwork follows once it is loaded.
+   */
+  setInfo(info: NowPlayingInfo) {
+    this._info = info;
+    this._artwork = null;
+    // the lock screen skip buttons show the player intervals
+    const center = MPRemoteCommandCenter.sharedCommandCenter();
+    center.skipForwardCommand.preferredIntervals = NSArray.arrayWithArray<number>([this._host.skipForwardInterval]);
+    center.skipBackwardCommand.preferredIntervals = NSArray.arrayWithArray<number>([this._host.skipBackwardInterval]);
+    this.update();
+    loadArtwork(info.artwork).then(image => {
+      // skip artwork that arrives after the next file was loaded
+      if (image && image.ios && this._info === info) {
+        const uiImage: UIImage = image.ios;
+        this._artwork = MPMediaItemArtwork.alloc().initWithBoundsSizeRequestHandler(uiImage.size, () => uiImage);
+        this.update();
+      }
+    });
+  }
+
+  /**
+   * Publishes the info with the current position and speed. The system moves the elapsed time on
+   * by itself while the rate is not 0, so this is only needed when one of them changes.
+   */
+  update() {
+    try {
+      if (!this._info) {
+        return;
+      }
+      const info = NSMutableDictionary.new<string, any>();
+      if (this._info.title) {
+        info.setObjectForKey(this._info.title, MPMediaItemPropertyTitle);
+      }
+      if (this._info.artist) {
+        info.setObjectForKey(this._info.artist, MPMediaItemPropertyArtist);
+      }
+      if (this._info.album) {
+        info.setObjectForKey(this._info.album, MPMediaItemPropertyAlbumTitle);
+      }
+      if (this._artwork) {
+        info.setObjectForKey(this._artwork, MPMediaItemPropertyArtwork);
+      }
+      const state = this._host.state;
+      if (PREPARED_STATES.indexOf(state) !== -1) {
+        info.setObjectForKey(this._host.duration, MPMediaItemPropertyPlaybackDuration);
+        info.setObjectForKey(this._host.currentTime, MPNowPlayingInfoPropertyElapsedPlaybackTime);
+      }
+      // a rate of 0 stops the lock screen clock while paused or waiting for data
+      info.setObjectForKey(state === PlayerState.Playing ? this._host.playbackRate : 0, MPNowPlayingInfoPropertyPlaybackRate);
+      info.setObjectForKey(this._host.playbackRate, MPNowPlayingInfoPropertyDefaultPlaybackRate);
+      MPNowPlayingInfoCenter.defaultCenter().nowPlayingInfo = info;
+    } catch (error) {
+      console.error('[Code error IOS-E50] Error with NowPlayingController update :', error);
+    }
+  }
+
+  dispose() {
+    try {
+      this._host.events.off(AudioPlayerEvents.prepared, this.update, this);
+      this._host.events.off(AudioPlayerEvents.stateChanged, this.update, this);
+      this._host.events.off(AudioPlayerEvents.seek, this.update, this);
+      this._host.events.off(AudioPlayerEvents.rateChanged, this.update, this);
+      this._targets.forEach(target => target.command.removeTarget(target.token));
+      this._targets = [];
+      this._info = null;
+      this._artwork = null;
+      MPNowPlayingInfoCenter.defaultCenter().nowPlayingInfo = null;
+    } catch (error) {
+      console.error('[Code error IOS-E51] Error with NowPlayingController dispose :', error);
+    }
+  }
+
+  private _addTarget(command: MPRemoteCommand, toData: (event: any) => RemoteCommandEventData) {
+    command.enabled = true;
+    const token = command.addTargetWithHandler(event => {
+      try {
+        this._onCommand(toData(event));
+        return MPRemoteCommandHandlerStatus.Success;
+      } catch (error) {
+        console.error('[Code error IOS-E52] Error with remote command :', error);
+        return MPRemoteCommandHandlerStatus.CommandFailed;
+      }
+    });
+    this._targets.push({ command, token });
+  }
+}
@@ -1,9 +1,70 @@
-import { Observable } from '@nativescript/core';
-import { TNSPlayerI } from '../common';
-import { AudioPlayerOptions } from '../options';
+import { Http, knownFolders, Observable, path as nsFilePath, Utils } from '@nativescript/core';
+import { AudioEffects, AudioEffectsSettings } from '../audio-effects';
+import { AudioCache } from '../cache';
+import { AudioChapter, ChapterChangedEventData, ChapterTracker, id3TagSize, parseId3Chapters, parseJsonChapters } from '../chapters';
+import { isStringUrl, resolveAudioFilePath, resolveLocalAudioFilePath, TNSPlayerI } from '../common';
+import { AudioPlayerError, AudioPlayerErrorCode } from '../errors';
+import { handleRemoteCommand, nowPlayingInfo, RemoteCommandEventData } from '../media-session';
+import { clampPower, MeteringEmitter, MeteringEventData, MIN_POWER } from '../metering';
+import { AudioPlayerEvents, AudioPlayerOptions, BufferedRange } from '../options';
+import { PlaybackPolicy, playerRegistry } from '../player-registry';
+import { PlayerState, PlayerStateMachine, PREPARED_STATES, StateChangedEventData } from '../player-state';
+import { PlaybackProgressStore } from '../progress';
+import { GaveUpEventData, RecoveredEventData, RecoveringEventData, StreamRecovery } from '../recovery';
+import { audioRequestHeaders, isUnauthorized, RequestHeaders } from '../request-headers';
+import { SkipHandler, SkippedEventData } from '../skip';
+import { SleepTimer, SleepTimerEventData, SleepTimerOptions } from '../sleep-timer';
+import { resolveStreamSource, StreamSource, streamSourceType, StreamSourceType } from '../stream-source';
+import { TimeUpdateEmitter, TimeUpdateEventData } from '../time-update';
+import { Crossfade, TransitionController, TransitionEventData, TransitionMode } from '../transitions';
+import { VolumeFader } from '../volume-fade';
+import { EnginePlayer } from './engine-player';
+import { NowPlayingController } from './now-playing';
+import { StreamPlayer } from './stream-player';
 
 declare var AVAudioPlayer;
 
+/**
+ * Seconds ahead of the end at which the next AVAudioPlayer is scheduled for a gapless start.
+ */
+const GAPLESS_LEAD_TIME = 1;
+
+/**
+ * Error code for an NSError raised while loading or playing audio.
+ */
+function nsErrorCode(error: NSError, fallback: AudioPlayerErrorCode): AudioPlayerErrorCode {
+  if (!error || !error.domain) {
+    return fallback;
+  }
+  if (error.domain === NSURLErrorDomain) {
+    if (error.code === NSURLErrorTimedOut) {
+      return AudioPlayerErrorCode.Timeout;
+    }
+    if (error.code === NSURLErrorFileDoesNotExist) {
+      return AudioPlayerErrorCode.SourceUnavailable;
+    }
+    if (error.code === NSURLErrorNoPermissionsToReadFile) {
+      return AudioPlayerErrorCode.PermissionDenied;
+    }
+    return AudioPlayerErrorCode.NetworkFailure;
+  }
+  if (error.domain === NSCocoaErrorDomain) {
+    if (error.code === NSFileReadNoPermissionError) {
+      return AudioPlayerErrorCode.PermissionDenied;
+    }
+    if (error.code === NSFileReadNoSuchFileError || error.code === NSFileNoSuchFileError) {
+      return AudioPlayerErrorCode.SourceUnavailable;
+    }
+  }
+  return fallback;
+}
+
+function urlRequest(url: NSURL, headers: RequestHeaders): NSURLRequest {
+  const request = NSMutableURLRequest.requestWithURL(url);
+  Object.keys(headers).forEach(name => request.setValueForHTTPHeaderField(headers[name], name));
+  return request;
+}
+
 class TNSPlayerDelegate extends NSObject implements AVAudioPlayerDelegate {
   static ObjCProtocols = [AVAudioPlayerDelegate];
   private _owner: WeakRef<TNSPlayer>;
@@ -23,14 +84,14 @@ class TNSPlayerDelegate extends NSObject implements AVAudioPlayerDelegate {
     try {
       const owner = this._owner.get();
       if (owner) {
+        if (owner._onPlaybackFinished(flag, player)) {
+          // looping, moved on to the next item or a previous item, already reported
+          return;
+        }
+        // failures were reported to errorCallback by _onPlaybackFinished
         if (flag && owner.completeCallback) {
           owner.completeCallback({ player, flag });
         }
-        else if (!flag && owner.errorCallback) {
-          owner.errorCallback({ player, flag });
-        } else {
-          console.error('[Code error IOS-E01] Owner is null');
-        }
       } else {
         console.error('[Code error IOS-E02] Owner is null');
       }
@@ -44,9 +105,7 @@ class TNSPlayerDelegate extends NSObject implements AVAudioPlayerDelegate {
     try {
       const owner = this._owner.get();
       if (owner) {
-        if (owner.errorCallback) {
-          owner.errorCallback({ player, error });
-        }
+        owner._onPlaybackError(error);
       } else {
         console.error('[Code error IOS-E04] Owner is null');
       }
@@ -65,32 +124,132 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
   completeCallback: any;
   errorCallback: any;
   infoCallback: any;
-  _isPrepared: boolean;
+  /**
+   * What happens to the other players of the app when this one starts, see `playerRegistry`.
+   * Null for the registry `policy`.
+   */
+  playbackPolicy: PlaybackPolicy | null;
 
-  private _player: AVAudioPlayer;
+  private _player: AVAudioPlayer | StreamPlayer | EnginePlayer;
   private _task: NSURLSessionDataTask;
   private delegate: TNSPlayerDelegate;
+  private _events: Observable;
+  private _options: AudioPlayerOptions;
+  private _playbackRate: number;
+  private _chapterTracker: ChapterTracker;
+  private _progressStore: PlaybackProgressStore | null;
+  private _audioCache: AudioCache | null;
+  private _progressTimer: any;
+  private _sleepTimer: SleepTimer;
+  private _loopCount: number;
+  private _timeUpdates: TimeUpdateEmitter;
+  private _metering: MeteringEmitter;
+  private _audioEffects: AudioEffects;
+  private _skipHandler: SkipHandler;
+  private _transitions: TransitionController;
+  private _crossfade: Crossfade;
+  private _nextOptions: AudioPlayerOptions | null;
+  private _nextPlayer: AVAudioPlayer | EnginePlayer | null;
+  private _nextTask: NSURLSessionDataTask;
+  private _nextScheduled: boolean;
+  private _rejectNext: (error: AudioPlayerError) => void;
+  private _fadingPlayer: AVAudioPlayer | StreamPlayer | EnginePlayer | null;
+  private _volume: number;
+  private _duckVolume: number;
+  private _fader: VolumeFader;
+  private _sleepFader: VolumeFader;
+  private _pausing: Promise<any> | null;
+  private _rejectLoad: (error: AudioPlayerError) => void;
+  private _recovery: StreamRecovery;
+  private _live: boolean;
+  private _stateMachine: PlayerStateMachine;
+  private _nowPlaying: NowPlayingController | null;
   constructor() {
     try {
       super();
-      this._isPrepared = false;
+      this._stateMachine = new PlayerStateMachine(
+        (data: StateChangedEventData) => this._sendEvent(AudioPlayerEvents.stateChanged, data)
+      );
+      this._playbackRate = 1;
+      this._loopCount = 0;
+      this._events = new Observable();
+      this._chapterTracker = new ChapterTracker(
+        () => this.currentTime,
+        () => this._playbackRate,
+        () => this.isAudioPlaying(),
+        (data: ChapterChangedEventData) => this._sendEvent(AudioPlayerEvents.chapterChanged, data)
+      );
+      this._sleepFader = new VolumeFader(() => this._applyVolume());
+      this._sleepTimer = new SleepTimer(
+        this,
+        this._sleepFader,
+        () => this._playbackRate,
+        (data: SleepTimerEventData) => this._sendEvent(AudioPlayerEvents.sleepTimerTick, data),
+        (data: SleepTimerEventData) => this._sendEvent(AudioPlayerEvents.sleepTimerFired, data)
+      );
+      this._timeUpdates = new TimeUpdateEmitter(
+        () => this._timeUpdateData(),
+        (data: TimeUpdateEventData) => this._sendEvent(AudioPlayerEvents.timeUpdate, data)
+      );
+      this._metering = new MeteringEmitter(
+        this,
+        () => this._meteringLevels(),
+        (data: MeteringEventData) => this._sendEvent(AudioPlayerEvents.metering, data)
+      );
+      this._audioEffects = new AudioEffects((settings: AudioEffectsSettings) => this._onEffectsChanged(settings));
+      this._skipHandler = new SkipHandler(
+        this,
+        (data: SkippedEventData) => this._sendEvent(AudioPlayerEvents.skipped, data)
+      );
+      this._transitions = new TransitionController(this, GAPLESS_LEAD_TIME, (remaining: number) => this._onTransitionDue(remaining));
+      this._crossfade = new Crossfade();
+      this._nextOptions = null;
+      this._nextPlayer = null;
+      this._nextScheduled = false;
+      this._fadingPlayer = null;
+      this._volume = 1;
+      this._duckVolume = 1;
+      this.playbackPolicy = null;
+      this._fader = new VolumeFader(() => this._applyVolume());
+      this._pausing = null;
+      this._live = false;
+      this._audioCache = null;
+      this._recovery = new StreamRecovery(
+        this,
+        () => this._recoverStream(),
+        (data: RecoveringEventData) => this._sendEvent(AudioPlayerEvents.recovering, data),
+        (data: RecoveredEventData) => this._sendEvent(AudioPlayerEvents.recovered, data),
+        (data: GaveUpEventData) => {
+          this._sendEvent(AudioPlayerEvents.gaveUp, data);
+          this._onPlaybackError(data.error);
+        }
+      );
+      playerRegistry.register(this);
     } catch (error) {
       console.error('[Code error IOS-E06] Error with constructor :', error);
       throw error;
     }
   }
+  public get events() {
+    return this._events;
+  }
+
   get ios(): any {
     try {
-      return this._player;
+      return this._nativePlayer(this._player);
     } catch (error) {
       console.error('[Code error IOS-E07] Error with ios :', error);
       throw error;
     }
   }
 
+  /**
+   * The volume set through the setter, it carries over to the next loaded file.
+   * Fades of play, pause and seek scale it without changing it.
+   */
   get volume(): number {
     try {
-      return this._player ? this._player.volume : 0;
+      return this._player ? this._volume : 0;
     } catch (error) {
       console.error('[Code error IOS-E08] Error with volume :', error);
       throw error;
@@ -100,7 +259,9 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
   set volume(value: number) {
     try {
       if (this._player && value >= 0) {
-        this._player.volume = value;
+        this._volume = value;
+        this._applyVolume();
+        this._sendEvent(AudioPlayerEvents.volumeChanged, { volume: value });
       } else {
         console.error('[Code error IOS-E09] Player is null or value is not valid');
       }
@@ -112,7 +273,10 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
 
   public get duration() {
     try {
-      if (this._player) {
+      if (this._recovery.active) {
+        return this._recovery.duration;
+      }
+      if (this._player && !this._live) {
         return this._player.duration;
       }
       else {
@@ -126,6 +290,10 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
 
   get currentTime(): number {
     try {
+      if (this._recovery.active) {
+        // the stream is prepared again, the position is where it picks up
+        return this._recovery.position;
+      }
       return this._player ? this._player.currentTime : 0;
     } catch (error) {
       console.error('[Code error IOS-E12] Error with currentTime :', error);
@@ -133,8 +301,206 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
     }
   }
 
+  get state(): PlayerState {
+    return this._stateMachine.state;
+  }
+
+  /**
+   * Whether the current item is a live stream, known once it is prepared. Live streams have
+   * a `duration` of 0 and cannot seek.
+   */
+  get isLive(): boolean {
+    return this._live;
+  }
+
+  /**
+   * The speed set with `changePlayerSpeed`, 1 by default.
+   */
+  get playbackRate(): number {
+    return this._playbackRate;
+  }
+
+  get chapters(): AudioChapter[] {
+    return this._chapterTracker.chapters;
+  }
+
+  get currentChapter(): AudioChapter | null {
+    return this._chapterTracker.current;
+  }
+
+  get currentChapterIndex(): number {
+    return this._chapterTracker.currentIndex;
+  }
+
+  /**
+   * Milliseconds between two `timeUpdate` events while playing, 0 turns them off.
+   */
+  get timeUpdateInterval(): number {
+    return this._timeUpdates.interval;
+  }
+
+  set timeUpdateInterval(value: number) {
+    this._timeUpdates.interval = value;
+  }
+
+  /**
+   * Equalizer, bass boost and loudness, kept when another file is loaded.
+   */
+  get audioEffects(): AudioEffects {
+    return this._audioEffects;
+  }
+
+  /**
+   * Milliseconds between two `metering` events while playing with `metering` on, 0 turns them off.
+   */
+  get meteringInterval(): number {
+    return this._metering.interval;
+  }
+
+  set meteringInterval(value: number) {
+    this._metering.interval = value;
+  }
+
+  /**
+   * Seconds skipped by `skipForward()` and the remote skip forward buttons, 30 by default.
+   */
+  get skipForwardInterval(): number {
+    return this._skipHandler.forwardInterval;
+  }
+
+  set skipForwardInterval(value: number) {
+    this._skipHandler.forwardInterval = value;
+  }
+
+  /**
+   * Seconds skipped by `skipBackward()` and the remote skip back buttons, 15 by default.
+   */
+  get skipBackwardInterval(): number {
+    return this._skipHandler.backwardInterval;
+  }
+
+  set skipBackwardInterval(value: number) {
+    this._skipHandler.backwardInterval = value;
+  }
+
+  /**
+   * How the player moves on to the item set with `setNextItem`, `TransitionMode.None` by default.
+   */
+  get transitionMode(): TransitionMode {
+    return this._transitions.mode;
+  }
+
+  set transitionMode(value: TransitionMode) {
+    const wasOn = this._transitions.mode !== TransitionMode.None;
+    this._transitions.mode = value;
+    if (wasOn !== (this._transitions.mode !== TransitionMode.None)) {
+      this._prepareNext().catch(error => console.error('[Code error IOS-E70] Error preparing the next item :', error));
+    } else {
+      // a scheduled gapless start is not wanted for a crossfade
+      this._unscheduleNext();
+      if (this._nextPlayer) {
+        this._transitions.arm();
+      }
+    }
+  }
+
+  /**
+   * Seconds over which two items are crossfaded, 6 by default.
+   */
+  get crossfadeDuration(): number {
+    return this._transitions.crossfadeDuration;
+  }
+
+  set crossfadeDuration(value: number) {
+    this._transitions.crossfadeDuration = value;
+  }
+
+  /**
+   * The item set with `setNextItem`, null when there is none.
+   */
+  get nextItem(): AudioPlayerOptions | null {
+    return this._nextOptions;
+  }
+
+  get sleepTimerActive(): boolean {
+    return this._sleepTimer.active;
+  }
+
+  /**
+   * Seconds left before the sleep timer pauses playback, -1 when no timer is set.
+   */
+  get sleepTimerRemaining(): number {
+    return this._sleepTimer.remaining;
+  }
+
+  get progressStore(): PlaybackProgressStore | null {
+    return this._progressStore;
+  }
+
+  /**
+   * Saves the playback position of each episode in the given store and resumes from it
+   * on the next `playFromUrl`/`initFromUrl` of the same episode. Pass null to turn it off.
+   */
+  public setProgressStore(store: PlaybackProgressStore | null) {
+    try {
+      this._stopProgressTimer();
+      this._progressStore = store;
+      if (this.isAudioPlaying()) {
+        this._startProgressTimer();
+      }
+    } catch (error) {
+      console.error('[Code error IOS-E38] Error with setProgressStore :', error);
+      throw error;
+    }
+  }
+
+  get audioCache(): AudioCache | null {
+    return this._audioCache;
+  }
+
+  /**
+   * Caches the remote files this player streams, see `AudioCache`. Pass null to stop caching,
+   * files cached already are still played from disk until the cache is disposed.
+   */
+  public setAudioCache(cache: AudioCache | null) {
+    this._audioCache = cache;
+  }
+
+  /**
+   * Scales the volume while another player ducks this one, set by `playerRegistry`.
+   * @param factor - From 0 to 1, 1 for the volume set by the user.
+   */
+  public setDuckVolume(factor: number) {
+    this._duckVolume = Math.min(Math.max(factor, 0), 1);
+    this._applyVolume();
+  }
+
   public setAudioFocusManager(manager: any) { }
 
+  public initFromFile(options: AudioPlayerOptions): Promise<any> {
+    options.autoPlay = false;
+    return this.playFromFile(options);
+  }
+
+  /**
+   * Starts playing a local file: `~/` paths are in the app folder, relative paths in the
+   * documents folder, absolute paths and `file://` urls are used as they are.
+   */
+  public playFromFile(options: AudioPlayerOptions): Promise<any> {
+    try {
+      const path = resolveLocalAudioFilePath(options.audioFile);
+      const fileError = this._localFileError(options.audioFile, path);
+      if (fileError) {
+        console.error('[Code error IOS-E47] Cannot play audio file :', fileError.message);
+        return Promise.reject(fileError);
+      }
+      return this.playFromUrl(options);
+    } catch (error) {
+      console.error('[Code error IOS-E48] Error with playFromFile :', error);
+      return Promise.reject(AudioPlayerError.from(error, AudioPlayerErrorCode.SourceUnavailable));
+    }
+  }
+
   public initFromUrl(options: AudioPlayerOptions): Promise<any> {
     return new Promise((resolve, reject) => {
       try {
@@ -142,85 +508,183 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
         this.playFromUrl(options).then(resolve, reject);
       } catch (error) {
         console.error('[Code error IOS-E16] Error with initFromUrl :', error);
-        reject(error);
+        reject(AudioPlayerError.from(error, AudioPlayerErrorCode.SourceUnavailable));
         throw error;
       }
     });
   }
 
   public playFromUrl(options: AudioPlayerOptions): Promise<any> {
-    return new Promise((resolve, reject) => {
+    return new Promise((settle, fail) => {
       if (options.autoPlay !== false) {
         options.autoPlay = true;
       }
+      if (this._rejectLoad) {
+        // the loads below drop the previous file without settling it
+        this._rejectLoad(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'Another audio file was loaded'));
+      }
+      this._rejectLoad = fail;
+      const done = () => {
+        if (this._rejectLoad === fail) {
+          this._rejectLoad = undefined;
+        }
+      };
+      const resolve = (value: any) => {
+        done();
+        settle(value);
+      };
+      const reject = (error: AudioPlayerError) => {
+        done();
+        fail(error);
+      };
       try {
-        this._task = NSURLSession.sharedSession.dataTaskWithURLCompletionHandler(NSURL.URLWithString(options.audioFile), (data, response, error) => {
-          if (error !== null) {
-            if (this.errorCallback) {
-              this.errorCallback({ error });
-            }
-            reject();
+        this._crossfade.finish();
+        this._fader.cancel();
+        this._recovery.cancel();
+        this._saveProgress();
+        this._stopProgressTimer();
+        this._timeUpdates.stop();
+        this._skipHandler.cancel('Another audio file was loaded');
+        // the next item followed the previous one
+        this._nextOptions = null;
+        this._releaseNext();
+        // registered again after a dispose
+        playerRegistry.register(this);
+        this._useItemOptions(options);
+        if (this._player && this._player.playing) {
+          this._player.stop();
+        }
+        this._reset();
+        this._live = false;
+        this._stateMachine.transition(PlayerState.Loading);
+        // local files (including downloaded copies of an url) are read through a file url
+        const audioPath = resolveAudioFilePath(options.audioFile);
+        const isRemote = isStringUrl(audioPath);
+        const audioUrl = isRemote ? NSURL.URLWithString(audioPath) : NSURL.fileURLWithPath(audioPath);
+        this._setupAudioSession(options);
+        // the audio effects need AVAudioEngine, which has no meters
+        const useEngine = this._audioEffects.enabled && !options.metering;
+        // AVAudioPlayer cannot read HLS or playlists, these always stream without metering or effects
+        const streamOnly = isRemote && streamSourceType(audioPath) !== StreamSourceType.Audio;
+        if (streamOnly || (isRemote && options.streaming !== false && !options.metering && !useEngine)) {
+          this._loadStream(audioUrl, options, resolve, reject);
+          return;
+        }
+        if (!isRemote && useEngine) {
+          this._loadEngine(audioUrl, options, resolve, reject);
+          return;
+        }
+        if (!isRemote) {
+          // read local files in place rather than loading them in memory
+          const errorRef = new interop.Reference<NSError>();
+          const player = AVAudioPlayer.alloc().initWithContentsOfURLError(audioUrl, errorRef);
+          this._onAudioPlayerCreated(player, errorRef.value, options, resolve, reject);
+          return;
+        }
+        this._download(audioUrl, options, task => {
+          if (options !== this._options || !this._stateMachine.is(PlayerState.Loading)) {
+            // another file was loaded while the headers were read
+            return false;
           }
-
-          this.completeCallback = options.completeCallback;
-          this.errorCallback = options.errorCallback;
-          this.infoCallback = options.infoCallback;
-
-          const audioSession = AVAudioSession.sharedInstance();
-          if (options.audioMixing) {
-            audioSession.setCategoryWithOptionsError(AVAudioSessionCategoryAmbient, 1);
-          } else {
-            audioSession.setCategoryWithOptionsError(AVAudioSessionCategoryAmbient, 2);
+          this._task = task;
+          return true;
+        }, (data, loadError) => {
+          if (options !== this._options) {
+            return;
           }
-
-          const errorRef = new interop.Reference();
-          this._player = AVAudioPlayer.alloc().initWithDataError(data, errorRef);
-
-          if (errorRef && errorRef.value) {
-            reject(errorRef.value);
-          } else if (this._player) {
-            this._player.delegate = TNSPlayerDelegate.initWithOwner(this);
-            this._player.enableRate = true;
-            this._player.numberOfLoops = options.loop ? -1 : 0;
-            if (options.metering) {
-              this._player.meteringEnabled = true;
-            }
-
-            this._isPrepared = true;
-            if (options.autoPlay) {
-              this.play();
-            }
-            resolve(null);
+          this._task = undefined;
+          if (loadError) {
+            this._failLoad(loadError, reject);
+            return;
+          }
+          if (useEngine) {
+            // AVAudioEngine reads files, keep the download in the temporary folder
+            const extension = audioUrl.pathExtension || 'mp3';
+            const path = nsFilePath.join(knownFolders.temp().path, `podcast-audio-effects.${extension}`);
+            data.writeToFileAtomically(path, true);
+            this._loadEngine(NSURL.fileURLWithPath(path), options, resolve, reject);
           } else {
-            reject();
+            const errorRef = new interop.Reference<NSError>();
+            const player = AVAudioPlayer.alloc().initWithDataError(data, errorRef);
+            this._onAudioPlayerCreated(player, errorRef.value, options, resolve, reject);
+          }
+          if (!this._stateMachine.is(PlayerState.Error)) {
+            // after the item was prepared, so it counts as a miss
+            this._cacheDownload(options, data);
           }
         });
-        this._task.resume();
       } catch (error) {
-        if (this.errorCallback) {
-          this.errorCallback({ error });
-        }
         console.error('[Code error IOS-E17] Error with playFromUrl :', error);
-        reject(error);
+        this._stateMachine.transition(PlayerState.Error);
+        this._skipHandler.cancel('The audio file could not be loaded');
+        const playerError = AudioPlayerError.from(error, AudioPlayerErrorCode.SourceUnavailable);
+        this._notifyError(playerError);
+        reject(playerError);
         throw error;
       }
     });
   }
 
+  /**
+   * Pauses playback, after ramping the volume down when `fadeOutDuration` is set.
+   * @returns true once paused, false when `play()` was called during the fade and playback went on
+   */
   public pause(): Promise<any> {
+    if (this._pausing) {
+      return this._pausing;
+    }
+    // carry on with the incoming item alone
+    this._crossfade.finish();
+    const fadeOutDuration = this._options ? this._options.fadeOutDuration : 0;
+    if (!(fadeOutDuration > 0) || !this.isAudioPlaying()) {
+      return this._pause();
+    }
+    const pausing = this._fader.fadeTo(0, fadeOutDuration).then(faded => {
+      if (this._pausing === pausing) {
+        this._pausing = null;
+      }
+      return faded ? this._pause() : false;
+    });
+    this._pausing = pausing;
+    return pausing;
+  }
+
+  private _pause(): Promise<any> {
     return new Promise((resolve, reject) => {
       try {
+        // stays silent, play() sets the volume again
+        this._fader.cancel(this._fader.factor);
+        this._unscheduleNext();
+        const stateError = this._stateMachine.check('pause', PREPARED_STATES);
+        if (stateError) {
+          reject(stateError);
+          return;
+        }
+        if (this._recovery.active) {
+          // picks up paused once recovered
+          this._recovery.resume = false;
+          if (this._stateMachine.transition(PlayerState.Paused)) {
+            this._sendEvent(AudioPlayerEvents.paused);
+          }
+          resolve(true);
+          return;
+        }
         if (this._player && this._player.playing) {
           this._player.pause();
+          this._stateMachine.transition(PlayerState.Paused);
+          this._chapterTracker.update();
+          this._saveProgress();
+          this._stopProgressTimer();
+          this._timeUpdates.stop();
+          this._sendEvent(AudioPlayerEvents.paused);
         }
         resolve(true);
       }
       catch (error) {
-        if (this.errorCallback) {
-          this.errorCallback({ error });
-        }
         console.error('[Code error IOS-E18] Error with pause :', error);
-        reject(error);
+        const playerError = AudioPlayerError.from(error, AudioPlayerErrorCode.PlaybackFailed);
+        this._notifyError(playerError);
+        reject(playerError);
         throw error;
       }
     });
@@ -229,18 +693,43 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
   public play(): Promise<any> {
     return new Promise((resolve, reject) => {
       try {
-        if (!this.isAudioPlaying() && this._isPrepared) {
-          this._player.play();
+        if (this._pausing) {
+          // a fading pause is called off, ramp back up from where it got to
+          this._pausing = null;
+          this._fader.fadeTo(1, this._options.fadeInDuration);
+          resolve(true);
+          return;
+        }
+        if (this._stateMachine.is(PlayerState.Playing, PlayerState.Buffering)) {
+          reject(new AudioPlayerError(AudioPlayerErrorCode.AlreadyPlaying, 'Player is already playing'));
+          return;
+        }
+        const stateError = this._stateMachine.check('play', [PlayerState.Ready, PlayerState.Paused, PlayerState.Completed]);
+        if (stateError) {
+          reject(stateError);
+        } else if (this._recovery.active) {
+          // starts once recovered, waiting for the stream like any stall
+          this._recovery.resume = true;
+          this._stateMachine.transition(PlayerState.Playing);
+          this._stateMachine.transition(PlayerState.Buffering);
           resolve(true);
         } else {
-          reject(new Error("Player is not prepared or already playing"));
+          const fadeInDuration = this._options.fadeInDuration;
+          this._fader.cancel(fadeInDuration > 0 ? 0 : 1);
+          this._player.play();
+          this._fader.fadeTo(1, fadeInDuration);
+          this._stateMachine.transition(PlayerState.Playing);
+          this._chapterTracker.update();
+          this._startProgressTimer();
+          this._timeUpdates.start();
+          this._sendEvent(AudioPlayerEvents.started);
+          resolve(true);
         }
       } catch (error) {
-        if (this.errorCallback) {
-          this.errorCallback({ error });
-        }
         console.error('[Code error IOS-E19] Error with play :', error);
-        reject(error);
+        const playerError = AudioPlayerError.from(error, AudioPlayerErrorCode.PlaybackFailed);
+        this._notifyError(playerError);
+        reject(playerError);
         throw error;
       }
     });
@@ -248,10 +737,20 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
 
   public resume(): void {
     try {
-      if (this._player) {
+      if (this._recovery.active) {
+        this._recovery.resume = true;
+        return;
+      }
+      if (this._player && this._stateMachine.is(PlayerState.Ready, PlayerState.Paused, PlayerState.Completed)) {
+        this._fader.cancel();
         this._player.play();
+        this._stateMachine.transition(PlayerState.Playing);
+        this._chapterTracker.update();
+        this._startProgressTimer();
+        this._timeUpdates.start();
+        this._sendEvent(AudioPlayerEvents.started);
       } else {
-        console.error('[Code error IOS-E20] Player is null');
+        console.error(`[Code error IOS-E20] Player is null or cannot resume while ${this.state}`);
       }
     } catch (error) {
       console.error('[Code error IOS-E21] Error with resume :', error);
@@ -261,7 +760,9 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
 
   public playAtTime(time: number): void {
     try {
-      if (this._player) {
+      if (this._player instanceof StreamPlayer || this._player instanceof EnginePlayer) {
+        console.error('[Code error IOS-E46] playAtTime is not available while streaming or with audio effects');
+      } else if (this._player) {
         this._player.playAtTime(time);
       } else {
         console.error('[Code error IOS-E22] Player is null');
@@ -272,22 +773,54 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
     }
   }
 
+  /**
+   * Moves the playback position. While playing with `seekFadeDuration` set, the volume dips
+   * around the seek, which happens once it is silent.
+   */
   public seekTo(time: number): Promise<any> {
+    this._crossfade.finish();
+    const seekFadeDuration = this._options ? this._options.seekFadeDuration : 0;
+    if (!(seekFadeDuration > 0) || this._pausing || !this.isAudioPlaying()) {
+      return this._seekTo(time);
+    }
+    return this._fader.fadeTo(0, seekFadeDuration / 2).then(faded => {
+      const seeked = this._seekTo(time);
+      if (faded) {
+        // another play, pause or seek took over the volume otherwise
+        this._fader.fadeTo(1, seekFadeDuration / 2);
+      }
+      return seeked;
+    });
+  }
+
+  private _seekTo(time: number): Promise<any> {
     return new Promise((resolve, reject) => {
       try {
-        if (this._isPrepared && this._player) {
+        this._unscheduleNext();
+        const stateError = this._stateMachine.check('seek', PREPARED_STATES);
+        if (!stateError && this._recovery.active) {
+          // sought to once recovered
+          this._recovery.position = time;
+          this._chapterTracker.update(time);
+          this._sendEvent(AudioPlayerEvents.seek, { time });
+          resolve(true);
+        } else if (!stateError && this._live) {
+          reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'Live streams cannot seek'));
+        } else if (!stateError && this._player) {
           this._player.currentTime = time;
+          this._chapterTracker.update(time);
+          this._sendEvent(AudioPlayerEvents.seek, { time });
+          this._timeUpdates.emit();
           resolve(true);
         } else {
           console.error('[Code error IOS-E24] Player is not prepared');
-          reject(new Error("Player is not prepared"));
+          reject(stateError || new AudioPlayerError(AudioPlayerErrorCode.NotPrepared, 'Player is not prepared'));
         }
       } catch (error) {
-        if (this.errorCallback) {
-          this.errorCallback({ error });
-        }
         console.error('[Code error IOS-E25] Error with seekTo :', error);
-        reject(error);
+        const playerError = AudioPlayerError.from(error, AudioPlayerErrorCode.PlaybackFailed);
+        this._notifyError(playerError);
+        reject(playerError);
         throw error;
       }
     });
@@ -296,25 +829,51 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
   public dispose(): Promise<any> {
     return new Promise((resolve, reject) => {
       try {
+        this._saveProgress();
+        this._stopProgressTimer();
+        this._timeUpdates.stop();
+        this._skipHandler.cancel('The player was disposed');
+        this._crossfade.finish();
+        this._fader.cancel();
+        this._recovery.cancel();
+        this._sleepTimer.cancel();
+        this._nextOptions = null;
+        this._releaseNext();
         if (this._player && this.isAudioPlaying()) {
           this._player.stop();
         }
         const audioSession = AVAudioSession.sharedInstance();
         audioSession.setActiveError(false);
+        this._chapterTracker.reset();
         this._reset();
-        this._isPrepared = false;
+        this._stateMachine.transition(PlayerState.Disposed);
+        playerRegistry.unregister(this);
+        this._releaseNowPlaying();
+        this._sendEvent(AudioPlayerEvents.disposed);
         resolve(null);
       } catch (error) {
-        if (this.errorCallback) {
-          this.errorCallback({ error });
-        }
         console.error('[Code error IOS-E26] Error with dispose :', error);
-        reject(error);
+        const playerError = AudioPlayerError.from(error, AudioPlayerErrorCode.NotInitialized);
+        this._notifyError(playerError);
+        reject(playerError);
         throw error;
       }
     });
   }
 
+  /**
+   * Prepares the item to play after the current one on a second player, so that it starts
+   * without a gap or fades in when the current one ends, see `transitionMode`. The player then
+   * fires `transitioned` and keeps playing. Remote items are downloaded rather than streamed.
+   * Loading another file drops the next item.
+   * @param options - The next item, null to drop it.
+   * @returns resolves once the next item is prepared, right away without a transition mode
+   */
+  public setNextItem(options: AudioPlayerOptions | null): Promise<any> {
+    this._nextOptions = options || null;
+    return this._prepareNext();
+  }
+
   public isAudioPlaying(): boolean {
     try {
       return this._player ? this._player.playing : false;
@@ -331,16 +890,72 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
         resolve(duration.toString());
       }
       catch (error) {
-        if (this.errorCallback) {
-          this.errorCallback({ error });
-        }
         console.error('[Code error IOS-E28] Error with getAudioTrackDuration :', error);
-        reject(error);
+        const playerError = AudioPlayerError.from(error, AudioPlayerErrorCode.NotInitialized);
+        this._notifyError(playerError);
+        reject(playerError);
         throw error;
       }
     });
   }
 
+  /**
+   * Moves the playback position forward, up to the end of the file. While the file is still
+   * loading, the skip is applied once it is prepared.
+   * @param seconds - Defaults to `skipForwardInterval`.
+   * @returns the new position in seconds
+   */
+  public skipForward(seconds?: number): Promise<number> {
+    return this._skipHandler.forward(seconds);
+  }
+
+  /**
+   * Moves the playback position back, down to the start of the file.
+   * @param seconds - Defaults to `skipBackwardInterval`.
+   * @returns the new position in seconds
+   */
+  public skipBackward(seconds?: number): Promise<number> {
+    return this._skipHandler.backward(seconds);
+  }
+
+  /**
+   * Average power of a channel in dBFS, from -160 (silence) to 0. Needs the `metering`
+   * option, -160 without it or for a channel the file does not have.
+   * @param channel - Defaults to 0, the first channel.
+   */
+  public getAveragePower(channel: number = 0): number {
+    try {
+      const player = this._meteredPlayer();
+      if (!player || channel < 0 || channel >= player.numberOfChannels) {
+        return MIN_POWER;
+      }
+      player.updateMeters();
+      return clampPower(player.averagePowerForChannel(channel));
+    } catch (error) {
+      console.error('[Code error IOS-E54] Error with getAveragePower :', error);
+      return MIN_POWER;
+    }
+  }
+
+  /**
+   * Peak power of a channel in dBFS, from -160 (silence) to 0. Needs the `metering`
+   * option, -160 without it or for a channel the file does not have.
+   * @param channel - Defaults to 0, the first channel.
+   */
+  public getPeakPower(channel: number = 0): number {
+    try {
+      const player = this._meteredPlayer();
+      if (!player || channel < 0 || channel >= player.numberOfChannels) {
+        return MIN_POWER;
+      }
+      player.updateMeters();
+      return clampPower(player.peakPowerForChannel(channel));
+    } catch (error) {
+      console.error('[Code error IOS-E55] Error with getPeakPower :', error);
+      return MIN_POWER;
+    }
+  }
+
   public changePlayerSpeed(speed) {
     try {
       if (this._player && speed) {
@@ -348,6 +963,14 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
           speed = parseFloat(speed);
         }
         this._player.rate = speed;
+        this._playbackRate = speed;
+        if (this._nextPlayer) {
+          this._nextPlayer.rate = speed;
+        }
+        // scheduled for the end at the previous speed
+        this._unscheduleNext();
+        this._chapterTracker.update();
+        this._sendEvent(AudioPlayerEvents.rateChanged, { rate: speed });
       } else {
         console.error('[Code error IOS-E29] Player is null or speed is not valid');
       }
@@ -357,8 +980,1004 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
     }
   }
 
+  /**
+   * Pauses playback after a number of minutes, or at the end of the current episode or chapter.
+   * Replaces any running sleep timer.
+   */
+  public startSleepTimer(options: SleepTimerOptions) {
+    this._sleepTimer.start(options);
+  }
+
+  /**
+   * Adds minutes to the running sleep timer.
+   */
+  public extendSleepTimer(minutes: number) {
+    this._sleepTimer.extend(minutes);
+  }
+
+  /**
+   * Cancels the sleep timer, restoring the volume if it was fading out.
+   */
+  public cancelSleepTimer() {
+    this._sleepTimer.cancel();
+  }
+
+  /**
+   * Sets the chapters of the current audio file.
+   * @param chapters - A list of chapters or a Podcasting 2.0 JSON chapters document.
+   */
+  public setChapters(chapters: AudioChapter[] | string | any) {
+    try {
+      this._chapterTracker.setChapters(Array.isArray(chapters) ? chapters : parseJsonChapters(chapters));
+      if (this._stateMachine.isPrepared) {
+        this._chapterTracker.update();
+      }
+    } catch (error) {
+      console.error('[Code error IOS-E32] Error with setChapters :', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Downloads Podcasting 2.0 JSON chapters and uses them for the current audio file.
+   */
+  public loadChaptersFromUrl(url: string): Promise<AudioChapter[]> {
+    return Http.getJSON(url).then(
+      json => {
+        this.setChapters(parseJsonChapters(json));
+        return this.chapters;
+      },
+      error => Promise.reject(AudioPlayerError.from(error, AudioPlayerErrorCode.NetworkFailure))
+    );
+  }
+
+  /**
+   * Reads the ID3v2 CHAP/CTOC frames of a local file and uses them as chapters.
+   * @param path - The local file, defaults to the current audio file.
+   */
+  public loadChaptersFromFile(path?: string): Promise<AudioChapter[]> {
+    return new Promise((resolve, reject) => {
+      try {
+        const filePath = resolveAudioFilePath(path || (this._options && this._options.audioFile));
+        if (!filePath || !Utils.isFileOrResourcePath(filePath)) {
+          reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, '[Code error IOS-E33] Chapters can only be read from a local file'));
+          return;
+        }
+        this.setChapters(parseId3Chapters(this._readId3Tag(filePath)));
+        resolve(this.chapters);
+      } catch (error) {
+        console.error('[Code error IOS-E34] Error with loadChaptersFromFile :', error);
+        reject(AudioPlayerError.from(error, AudioPlayerErrorCode.SourceUnavailable));
+      }
+    });
+  }
+
+  public nextChapter(): Promise<any> {
+    const index = this._chapterTracker.nextIndexAt(this.currentTime);
+    return this.seekToChapter(index !== -1 ? index : this._chapterTracker.chapters.length);
+  }
+
+  public previousChapter(): Promise<any> {
+    return this.seekToChapter(Math.max(0, this._chapterTracker.previousIndexAt(this.currentTime)));
+  }
+
+  public seekToChapter(index: number): Promise<any> {
+    const chapter = this._chapterTracker.chapters[index];
+    if (!chapter) {
+      return Promise.reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `[Code error IOS-E35] No chapter at index ${index}`));
+    }
+    return this.seekTo(chapter.startTime);
+  }
+
+  /**
+   * Called by the delegate when the audio file reached its end, before the callbacks.
+   * @param player - The player that finished, when it may not be the current one.
+   * @returns true when playback looped back to the start, moved on to the next item, or
+   * the previous item of a crossfade ended
+   */
+  _onPlaybackFinished(flag: boolean, player?: any): boolean {
+    try {
+      if (player && player !== this._player) {
+        if (player === this._fadingPlayer) {
+          // the previous item ran out before the end of the crossfade
+          this._crossfade.finish();
+        }
+        return true;
+      }
+      if (flag && this._nextPlayer && this._transitions.mode === TransitionMode.Gapless && !this._options.loop) {
+        if (!this._sleepTimer.endsWithEpisode) {
+          if (!this._nextScheduled) {
+            this._nextPlayer.play();
+          }
+          this._handOff(TransitionMode.Gapless);
+          return true;
+        }
+        this._unscheduleNext();
+      }
+      if (flag && this._options && this._options.loop && this._player) {
+        this._player.currentTime = 0;
+        this._player.play();
+        this._loopCount++;
+        this._chapterTracker.update(0);
+        this._sendEvent(AudioPlayerEvents.loopRestarted, { loopCount: this._loopCount });
+        return true;
+      }
+      this._stateMachine.transition(flag ? PlayerState.Completed : PlayerState.Error);
+      this._stopProgressTimer();
+      this._timeUpdates.stop();
+      this._chapterTracker.update();
+      if (flag) {
+        this._sleepTimer.onPlaybackCompleted();
+      }
+      const key = this._progressKey();
+      if (flag && this._progressStore && key) {
+        this._progressStore.markFinished(key, this.duration);
+      }
+      if (flag) {
+        this._sendEvent(AudioPlayerEvents.completed);
+      } else {
+        this._notifyError(new AudioPlayerError(AudioPlayerErrorCode.PlaybackFailed, 'Playback did not finish successfully'));
+      }
+    } catch (error) {
+      console.error('[Code error IOS-E39] Error with _onPlaybackFinished :', error);
+    }
+    return false;
+  }
+
+  /**
+   * Called by the delegate when the audio data could not be decoded, before the callbacks,
+   * and when a broken off stream could not be recovered.
+   */
+  _onPlaybackError(error: NSError | AudioPlayerError, fallback: AudioPlayerErrorCode = AudioPlayerErrorCode.DecodeFailed) {
+    try {
+      this._stopProgressTimer();
+      this._stateMachine.transition(PlayerState.Error);
+      this._timeUpdates.stop();
+      this._chapterTracker.stop();
+      this._notifyError(error instanceof AudioPlayerError ? error : AudioPlayerError.from(error, nsErrorCode(error, fallback)));
+    } catch (e) {
+      console.error('[Code error IOS-E42] Error with _onPlaybackError :', e);
+    }
+  }
+
+  private _progressKey(options: AudioPlayerOptions = this._options): string | undefined {
+    return options ? options.episodeId || options.audioFile : undefined;
+  }
+
+  /**
+   * Seeks to the position saved for the episode, once the player is prepared.
+   */
+  private _resumeSavedPosition() {
+    try {
+      if (!this._progressStore || !this._options || this._options.resumePosition === false || this._live) {
+        return;
+      }
+      const position = this._progressStore.getResumePosition(this._progressKey());
+      if (position > 0) {
+        this.seekTo(position).catch(error => console.error('[Code error IOS-E40] Error with _resumeSavedPosition :', error));
+      }
+    } catch (error) {
+      console.error('[Code error IOS-E40] Error with _resumeSavedPosition :', error);
+    }
+  }
+
+  private _saveProgress() {
+    try {
+      const key = this._progressKey();
+      if (this._progressStore && key && this._stateMachine.isPrepared && this._player && !this._live) {
+        this._progressStore.save(key, this.currentTime, this.duration);
+      }
+    } catch (error) {
+      console.error('[Code error IOS-E41] Error with _saveProgress :', error);
+    }
+  }
+
+  /**
+   * Takes over the settings of an item that is loaded or transitioned to.
+   */
+  private _useItemOptions(options: AudioPlayerOptions) {
+    this._options = options;
+    this.completeCallback = options.completeCallback;
+    this.errorCallback = options.errorCallback;
+    this.infoCallback = options.infoCallback;
+    if (typeof options.timeUpdateInterval === 'number') {
+      this._timeUpdates.interval = options.timeUpdateInterval;
+    }
+    if (typeof options.meteringInterval === 'number') {
+      this._metering.interval = options.meteringInterval;
+    }
+    this._skipHandler.forwardInterval = options.skipForwardInterval;
+    this._skipHandler.backwardInterval = options.skipBackwardInterval;
+    this._updateNowPlaying(options);
+    this._chapterTracker.setChapters(options.chapters);
+  }
+
+  private _setupAudioSession(options: AudioPlayerOptions) {
+    const audioSession = AVAudioSession.sharedInstance();
+    // the lock screen only shows audio of the playback category
+    const category = this._nowPlaying ? AVAudioSessionCategoryPlayback : AVAudioSessionCategoryAmbient;
+    if (options.audioMixing) {
+      audioSession.setCategoryWithOptionsError(category, 1);
+    } else {
+      audioSession.setCategoryWithOptionsError(category, 2);
+    }
+  }
+
+  /**
+   * Shows the metadata of the loading file on the lock screen, or clears it when the file has none.
+   */
+  private _updateNowPlaying(options: AudioPlayerOptions) {
+    try {
+      const info = nowPlayingInfo(options);
+      if (!info) {
+        this._releaseNowPlaying();
+        return;
+      }
+      if (!this._nowPlaying) {
+        this._nowPlaying = new NowPlayingController(this, (data: RemoteCommandEventData) => this._onRemoteCommand(data));
+      }
+      this._nowPlaying.setInfo(info);
+    } catch (error) {
+      console.error('[Code error IOS-E53] Error with _updateNowPlaying :', error);
+    }
+  }
+
+  private _releaseNowPlaying() {
+    if (this._nowPlaying) {
+      this._nowPlaying.dispose();
+      this._nowPlaying = null;
+    }
+  }
+
+  /**
+   * A command from the lock screen, the control center or headphones.
+   */
+  private _onRemoteCommand(data: RemoteCommandEventData) {
+    this._sendEvent(AudioPlayerEvents.remoteCommand, data);
+    handleRemoteCommand(this, data);
+  }
+
+  private _localFileError(audioFile: string, path: string | null): AudioPlayerError | null {
+    if (!path) {
+      return new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `${audioFile} is not a local file, use playFromUrl`);
+    }
+    const fileManager = NSFileManager.defaultManager;
+    const isDirectory = new interop.Reference<boolean>(false);
+    if (!fileManager.fileExistsAtPathIsDirectory(path, isDirectory) || isDirectory.value) {
+      return new AudioPlayerError(AudioPlayerErrorCode.SourceUnavailable, `Audio file not found: ${path}`);
+    }
+    if (!fileManager.isReadableFileAtPath(path)) {
+      return new AudioPlayerError(AudioPlayerErrorCode.PermissionDenied, `Audio file is not readable: ${path}`);
+    }
+    return null;
+  }
+
+  /**
+   * Sets up an AVAudioPlayer holding the whole file, downloaded or local.
+   */
+  private _onAudioPlayerCreated(player: AVAudioPlayer, error: NSError, options: AudioPlayerOptions, resolve: (value: any) => void, reject: (error: AudioPlayerError) => void) {
+    if (error) {
+      this._failLoad(AudioPlayerError.from(error, nsErrorCode(error, AudioPlayerErrorCode.DecodeFailed)), reject);
+    } else if (player) {
+      player.delegate = TNSPlayerDelegate.initWithOwner(this);
+      player.enableRate = true;
+      // looping is done in _onPlaybackFinished, so every loop is reported
+      player.numberOfLoops = 0;
+      if (options.metering) {
+        player.meteringEnabled = true;
+      }
+      this._player = player;
+      this._onPrepared(options);
+      // the whole file is available before playback starts
+      this._sendEvent(AudioPlayerEvents.progress, { bufferedPercent: 100, bufferedRanges: [{ start: 0, end: this.duration }] });
+      resolve(null);
+    } else {
+      this._failLoad(new AudioPlayerError(AudioPlayerErrorCode.DecodeFailed, 'The audio data could not be read'), reject);
+    }
+  }
+
+  /**
+   * Plays a local file through AVAudioEngine with the audio effects.
+   */
+  private _loadEngine(url: NSURL, options: AudioPlayerOptions, resolve: (value: any) => void, reject: (error: AudioPlayerError) => void) {
+    try {
+      this._player = this._createEngine(url);
+    } catch (error) {
+      this._failLoad(AudioPlayerError.from(error, nsErrorCode(error, AudioPlayerErrorCode.DecodeFailed)), reject);
+      return;
+    }
+    this._player.rate = this._playbackRate;
+    this._onPrepared(options);
+    this._sendEvent(AudioPlayerEvents.progress, { bufferedPercent: 100, bufferedRanges: [{ start: 0, end: this.duration }] });
+    resolve(null);
+  }
+
+  /**
+   * Applies changed audio effects. Turning them on while another kind of player plays reloads
+   * the file through AVAudioEngine, at the same position.
+   */
+  private _onEffectsChanged(settings: AudioEffectsSettings) {
+    try {
+      if (this._player instanceof EnginePlayer) {
+        this._player.applyEffects(settings);
+      } else if (settings.enabled && this._player && this._stateMachine.isPrepared && !this._options.metering) {
+        this._reloadWithEffects();
+      }
+      if (this._nextPlayer instanceof EnginePlayer) {
+        this._nextPlayer.applyEffects(settings);
+      } else if (settings.enabled && this._nextPlayer && !this._nextOptions.metering) {
+        this._prepareNext().catch(error => console.error('[Code error IOS-E71] Error preparing the next item with audio effects :', error));
+      }
+      this._sendEvent(AudioPlayerEvents.effectsChanged, settings);
+    } catch (error) {
+      console.error('[Code error IOS-E68] Error with _onEffectsChanged :', error);
+    }
+  }
+
+  private _reloadWithEffects() {
+    const position = this.currentTime;
+    const playing = this.isAudioPlaying();
+    const next = this._nextOptions;
+    const options = Object.assign({}, this._options, { autoPlay: false, resumePosition: false });
+    this.playFromUrl(options)
+      .then(() => this.seekTo(position))
+      .then(() => {
+        // loading dropped the next item
+        this.setNextItem(next).catch(error => console.error('[Code error IOS-E71] Error preparing the next item with audio effects :', error));
+      })
+      .then(() => playing ? this.play() : null)
+      .catch(error => console.error('[Code error IOS-E69] Error reloading with audio effects :', error));
+  }
+
+  private _createEngine(url: NSURL): EnginePlayer {
+    const engine = new EnginePlayer(url, this._audioEffects.settings, {
+      onEnded: () => {
+        if (!this._onPlaybackFinished(true, engine) && this.completeCallback) {
+          this.completeCallback({ player: this.ios, flag: true });
+        }
+      }
+    });
+    return engine;
+  }
+
+  /**
+   * Prepares `_nextOptions` on a second player while a transition mode is set: an AVAudioPlayer,
+   * or an EnginePlayer with the audio effects on.
+   */
+  private _prepareNext(): Promise<any> {
+    return new Promise((resolve, reject) => {
+      try {
+        this._releaseNext();
+        const options = this._nextOptions;
+        if (!options || this._transitions.mode === TransitionMode.None) {
+          resolve(null);
+          return;
+        }
+        const audioPath = resolveAudioFilePath(options.audioFile);
+        const useEngine = this._audioEffects.enabled && !options.metering;
+        this._rejectNext = reject;
+        const onLoaded = (url: NSURL, data: NSData | null) => {
+          this._rejectNext = undefined;
+          this._nextPlayer = this._createNextPlayer(url, data, options, useEngine);
+          this._transitions.arm();
+          resolve(null);
+        };
+        if (!isStringUrl(audioPath)) {
+          onLoaded(NSURL.fileURLWithPath(audioPath), null);
+          return;
+        }
+        if (streamSourceType(audioPath) !== StreamSourceType.Audio) {
+          // streamed only, loaded once the current item completed
+          this._rejectNext = undefined;
+          resolve(null);
+          return;
+        }
+        const audioUrl = NSURL.URLWithString(audioPath);
+        this._download(audioUrl, options, task => {
+          if (this._rejectNext !== reject) {
+            // replaced while the headers were read
+            return false;
+          }
+          this._nextTask = task;
+          return true;
+        }, (data, downloadError) => {
+          if (this._rejectNext !== reject) {
+            // replaced meanwhile
+            return;
+          }
+          this._nextTask = undefined;
+          try {
+            if (downloadError) {
+              throw downloadError;
+            }
+            if (!useEngine) {
+              onLoaded(audioUrl, data);
+              return;
+            }
+            // written atomically, an item still reading a previous download keeps its file
+            const path = nsFilePath.join(knownFolders.temp().path, `podcast-audio-effects-next.${audioUrl.pathExtension || 'mp3'}`);
+            data.writeToFileAtomically(path, true);
+            onLoaded(NSURL.fileURLWithPath(path), null);
+          } catch (loadError) {
+            console.error('[Code error IOS-E72] Error loading the next item :', loadError);
+            this._rejectNext = undefined;
+            reject(AudioPlayerError.from(loadError, AudioPlayerErrorCode.DecodeFailed));
+          }
+        });
+      } catch (error) {
+        console.error('[Code error IOS-E73] Error with _prepareNext :', error);
+        this._rejectNext = undefined;
+        this._releaseNext();
+        reject(AudioPlayerError.from(error, nsErrorCode(error, AudioPlayerErrorCode.DecodeFailed)));
+      }
+    });
+  }
+
+  private _createNextPlayer(url: NSURL, data: NSData | null, options: AudioPlayerOptions, useEngine: boolean): AVAudioPlayer | EnginePlayer {
+    if (useEngine) {
+      const engine = this._createEngine(url);
+      engine.rate = this._playbackRate;
+      engine.volume = this._volume;
+      return engine;
+    }
+    const errorRef = new interop.Reference<NSError>();
+    const player: AVAudioPlayer = data ? AVAudioPlayer.alloc().initWithDataError(data, errorRef) : AVAudioPlayer.alloc().initWithContentsOfURLError(url, errorRef);
+    if (!player) {
+      throw AudioPlayerError.from(errorRef.value || 'The audio data could not be read', nsErrorCode(errorRef.value, AudioPlayerErrorCode.DecodeFailed));
+    }
+    // the delegate is set once it becomes the current player
+    player.enableRate = true;
+    player.rate = this._playbackRate;
+    player.volume = this._volume;
+    player.numberOfLoops = 0;
+    if (options.metering) {
+      player.meteringEnabled = true;
+    }
+    player.prepareToPlay();
+    return player;
+  }
+
+  private _releaseNext() {
+    this._transitions.disarm();
+    this._nextScheduled = false;
+    if (this._rejectNext) {
+      this._rejectNext(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The next item was replaced'));
+      this._rejectNext = undefined;
+    }
+    if (this._nextTask) {
+      this._nextTask.cancel();
+      this._nextTask = undefined;
+    }
+    const next = this._nextPlayer;
+    this._nextPlayer = null;
+    if (next) {
+      this._releasePlayer(next);
+    }
+  }
+
+  /**
+   * Cancels a gapless start scheduled with `playAtTime`, e.g. when pausing, and waits for the next one.
+   */
+  private _unscheduleNext() {
+    if (!this._nextScheduled || !this._nextPlayer || this._nextPlayer instanceof EnginePlayer) {
+      return;
+    }
+    this._nextScheduled = false;
+    this._nextPlayer.stop();
+    this._nextPlayer.currentTime = 0;
+    this._nextPlayer.prepareToPlay();
+    this._transitions.arm();
+  }
+
+  /**
+   * Starts the crossfade to the prepared next item, or schedules its gapless start when both are
+   * AVAudioPlayers, which share the device clock. Not while the sleep timer waits for the end of the
+   * episode, which then completes as usual.
+   */
+  private _onTransitionDue(remaining: number) {
+    try {
+      const next = this._nextPlayer;
+      const current = this._player;
+      if (!next || !current || this._options.loop || this._sleepTimer.endsWithEpisode) {
+        return;
+      }
+      if (this._transitions.mode === TransitionMode.Crossfade) {
+        next.volume = 0;
+        next.play();
+        this._handOff(TransitionMode.Crossfade, Math.min(this._transitions.crossfadeDuration, remaining));
+        return;
+      }
+      const isAudioPlayer = (player: any) => !(player instanceof StreamPlayer || player instanceof EnginePlayer);
+      if (isAudioPlayer(current) && isAudioPlayer(next)) {
+        const nextPlayer = <AVAudioPlayer>next;
+        nextPlayer.playAtTime((<AVAudioPlayer>current).deviceCurrentTime + remaining);
+        this._nextScheduled = true;
+      }
+      // otherwise the next item starts once the current one finished
+    } catch (error) {
+      console.error('[Code error IOS-E74] Error with _onTransitionDue :', error);
+    }
+  }
+
+  /**
+   * Carries on with the next item, which already plays: it becomes the current item and the
+   * previous one completes, right away when gapless or once faded out. The audio session stays
+   * active all along, so other apps see a single playback.
+   */
+  private _handOff(mode: TransitionMode, fadeDuration: number = 0) {
+    const previous = this._player;
+    const previousOptions = this._options;
+    const previousDuration = this.duration;
+    const next = this._nextPlayer;
+    const options = this._nextOptions;
+    this._nextPlayer = null;
+    this._nextOptions = null;
+    this._nextScheduled = false;
+    this._transitions.disarm();
+
+    if (!(next instanceof EnginePlayer)) {
+      next.delegate = TNSPlayerDelegate.initWithOwner(this);
+    }
+    this._player = next;
+    this._useItemOptions(options);
+    this._loopCount = 0;
+    this._live = false;
+    this._chapterTracker.update(0);
+    this._cacheItem(options);
+    this._sendEvent(AudioPlayerEvents.transitioned, <TransitionEventData>{ mode, previousItem: previousOptions, item: options });
+    // the whole file is available before playback starts
+    this._sendEvent(AudioPlayerEvents.progress, { bufferedPercent: 100, bufferedRanges: [{ start: 0, end: this.duration }] });
+    this._timeUpdates.emit();
+
+    const complete = () => {
+      this._fadingPlayer = null;
+      this._completeItem(previousOptions, previous, previousDuration);
+      this._releasePlayer(previous);
+    };
+    if (mode !== TransitionMode.Crossfade) {
+      this._applyVolume();
+      complete();
+      return;
+    }
+    this._fadingPlayer = previous;
+    const volume = this._volume;
+    this._crossfade.start(fadeDuration, (fadeOut, fadeIn) => {
+      fadeOut *= this._duckVolume * this._sleepFader.factor;
+      fadeIn *= this._duckVolume * this._sleepFader.factor;
+      previous.volume = volume * fadeOut;
+      if (next === this._player) {
+        next.volume = volume * fadeIn;
+      }
+    }, complete);
+  }
+
+  /**
+   * The only completion of an item left through a transition. The player keeps playing the
+   * next item, so there is no `completed` event, `transitioned` was fired instead.
+   */
+  private _completeItem(options: AudioPlayerOptions, player: AVAudioPlayer | StreamPlayer | EnginePlayer, duration: number) {
+    try {
+      const key = this._progressKey(options);
+      if (this._progressStore && key) {
+        this._progressStore.markFinished(key, duration);
+      }
+      this._sleepTimer.onPlaybackCompleted();
+      if (options.completeCallback) {
+        options.completeCallback({ player: this._nativePlayer(player), flag: true });
+      }
+    } catch (error) {
+      console.error('[Code error IOS-E75] Error completing the previous item :', error);
+    }
+  }
+
+  private _releasePlayer(player: AVAudioPlayer | StreamPlayer | EnginePlayer) {
+    try {
+      if (player instanceof StreamPlayer || player instanceof EnginePlayer) {
+        player.dispose();
+      } else {
+        player.stop();
+        player.delegate = null;
+      }
+    } catch (error) {
+      console.error('[Code error IOS-E76] Error releasing player :', error);
+    }
+  }
+
+  /**
+   * Downloads a remote file with the request headers of its item. When the server answers 401 and
+   * the item has a `tokenProvider`, the request is made once more with a new token.
+   * @param start - Gets the task once the headers are known, returns false when the download is no longer wanted.
+   * @param done - Gets the data, or the error the download failed with.
+   */
+  private _download(
+    url: NSURL,
+    options: AudioPlayerOptions,
+    start: (task: NSURLSessionDataTask) => boolean,
+    done: (data: NSData | null, error: AudioPlayerError | null) => void,
+    refresh: boolean = false
+  ) {
+    audioRequestHeaders(options, refresh).then(headers => {
+      const task = NSURLSession.sharedSession.dataTaskWithRequestCompletionHandler(urlRequest(url, headers), (data, response, error) => {
+        if (error !== null) {
+          done(null, AudioPlayerError.from(error, nsErrorCode(error, AudioPlayerErrorCode.NetworkFailure)));
+          return;
+        }
+        const statusCode = response instanceof NSHTTPURLResponse ? response.statusCode : 200;
+        if (statusCode === 401 && options.tokenProvider && !refresh) {
+          this._download(url, options, start, done, true);
+          return;
+        }
+        if (statusCode >= 400) {
+          done(null, new AudioPlayerError(AudioPlayerErrorCode.SourceUnavailable, `HTTP error ${statusCode}`, null, statusCode));
+          return;
+        }
+        done(data, null);
+      });
+      if (start(task)) {
+        task.resume();
+      }
+    }).catch(error => {
+      console.error('[Code error IOS-E78] Error with the request headers :', error);
+      done(null, AudioPlayerError.from(error, AudioPlayerErrorCode.PermissionDenied));
+    });
+  }
+
+  /**
+   * Streams a remote file or HLS with AVPlayer, the load resolves once playback can start. An m3u or
+   * pls playlist plays the stream it lists. When the stream cannot be opened because the server
+   * answers 401, it is opened once more with a new token.
+   * @param recovering - Prepares the stream again for `StreamRecovery`, which takes over from there.
+   */
+  private _loadStream(
+    url: NSURL,
+    options: AudioPlayerOptions,
+    resolve: (value: any) => void,
+    reject: (error: AudioPlayerError) => void,
+    recovering: boolean = false,
+    refresh: boolean = false
+  ) {
+    resolveStreamSource(url.absoluteString, options, refresh).then(source =>
+      this._streamCache(options, source).then(cache => {
+        if (options !== this._options || this._stateMachine.is(PlayerState.Disposed)) {
+          // another file was loaded while the stream was resolved
+          return;
+        }
+        this._openStream(url, options, source, cache, resolve, reject, recovering, refresh);
+      })
+    ).catch(error => {
+      console.error('[Code error IOS-E79] Error opening the stream :', error);
+      this._failStream(AudioPlayerError.from(error, AudioPlayerErrorCode.PermissionDenied), reject, recovering);
+    });
+  }
+
+  private _failStream(error: AudioPlayerError, reject: (error: AudioPlayerError) => void, recovering: boolean) {
+    if (recovering) {
+      reject(error);
+    } else {
+      this._failLoad(error, reject);
+    }
+  }
+
+  /**
+   * The cache AVPlayer reads a remote file through when `audioCache` can cache the file, so each
+   * chunk is fetched once. Null for live streams, HLS and items kept out of the cache.
+   */
+  private _streamCache(options: AudioPlayerOptions, source: StreamSource): Promise<AudioCache | null> {
+    const cache = this._audioCache;
+    if (!cache || options.cache === false || source.type !== StreamSourceType.Audio || !isStringUrl(source.url) || source.url !== options.audioFile) {
+      return Promise.resolve(null);
+    }
+    return cache.openStream(source.url, source.headers).then(opened => (opened ? cache : null));
+  }
+
+  private _openStream(
+    url: NSURL,
+    options: AudioPlayerOptions,
+    source: StreamSource,
+    cache: AudioCache | null,
+    resolve: (value: any) => void,
+    reject: (error: AudioPlayerError) => void,
+    recovering: boolean,
+    refresh: boolean
+  ) {
+    let prepared = false;
+    const stream = new StreamPlayer(NSURL.URLWithString(source.url), {
+      onReady: () => {
+        prepared = true;
+        this._live = stream.live;
+        if (!recovering) {
+          this._onPrepared(options);
+        }
+        resolve(null);
+      },
+      onFailed: error => {
+        if (stream !== this._player) {
+          return;
+        }
+        const loadError = AudioPlayerError.from(error, nsErrorCode(error, AudioPlayerErrorCode.NetworkFailure));
+        if (prepared) {
+          this._onStreamFailed(loadError);
+        } else if (options.tokenProvider && !refresh) {
+          // AVPlayer does not tell the HTTP status, ask the server again
+          isUnauthorized(source.url, source.headers).then(unauthorized => {
+            if (stream !== this._player) {
+              return;
+            }
+            if (unauthorized) {
+              this._reset();
+              this._loadStream(url, options, resolve, reject, recovering, true);
+            } else {
+              this._failStream(loadError, reject, recovering);
+            }
+          });
+        } else {
+          this._failStream(loadError, reject, recovering);
+        }
+      },
+      onEnded: () => {
+        if (!this._onPlaybackFinished(true, stream) && this.completeCallback) {
+          this.completeCallback({ player: this.ios, flag: true });
+        }
+      },
+      onPlaybackFailed: error => {
+        if (stream === this._fadingPlayer) {
+          this._crossfade.finish();
+        } else if (stream === this._player) {
+          this._onStreamFailed(AudioPlayerError.from(error, nsErrorCode(error, AudioPlayerErrorCode.NetworkFailure)));
+        }
+      },
+      onBufferingChanged: buffering => {
+        if (stream === this._player) {
+          this._onBufferingChanged(buffering);
+        }
+      },
+      onBufferedRangesChanged: (ranges: BufferedRange[]) => {
+        if (stream !== this._player) {
+          return;
+        }
+        const duration = this.duration;
+        const end = ranges.reduce((max, range) => Math.max(max, range.end), 0);
+        const bufferedPercent = duration > 0 ? Math.min(100, Math.round((end / duration) * 100)) : 0;
+        this._sendEvent(AudioPlayerEvents.progress, { bufferedPercent, bufferedRanges: ranges });
+      }
+    }, source.headers, cache);
+    this._player = stream;
+  }
+
+  /**
+   * A stream that broke off after it was prepared is prepared again, unless `recovery` is off.
+   */
+  private _onStreamFailed(error: AudioPlayerError) {
+    if (!this._recovery.canRecover(error, this._options.recovery)) {
+      this._onPlaybackError(error);
+      return;
+    }
+    const wasPlaying = this._stateMachine.is(PlayerState.Playing, PlayerState.Buffering);
+    this._crossfade.finish();
+    this._fader.cancel();
+    this._stopProgressTimer();
+    this._timeUpdates.stop();
+    this._player.pause();
+    if (wasPlaying) {
+      this._stateMachine.transition(PlayerState.Buffering);
+    }
+    this._recovery.recover(error, this._options.recovery, wasPlaying);
+  }
+
+  /**
+   * Opens the current stream again for `StreamRecovery`, then seeks back to where it broke off
+   * and resumes if it was playing.
+   */
+  private _recoverStream(): Promise<any> {
+    return new Promise((resolve, reject) => {
+      try {
+        const options = this._options;
+        this._reset();
+        this._loadStream(NSURL.URLWithString(resolveAudioFilePath(options.audioFile)), options, resolve, reject, true);
+      } catch (error) {
+        console.error('[Code error IOS-E77] Error with _recoverStream :', error);
+        reject(AudioPlayerError.from(error, AudioPlayerErrorCode.NetworkFailure));
+      }
+    }).then(() => {
+      const player = this._player;
+      if (!this._recovery.active || !player) {
+        return;
+      }
+      const position = this._recovery.position;
+      if (!this._live) {
+        // a live stream picks up where it is now
+        player.currentTime = position;
+      }
+      player.rate = this._playbackRate;
+      this._applyVolume();
+      this._chapterTracker.update(position);
+      if (this._recovery.resume) {
+        player.play();
+        this._stateMachine.transition(PlayerState.Playing);
+        this._startProgressTimer();
+        this._timeUpdates.start();
+      }
+    });
+  }
+
+  /**
+   * Common end of a successful load, for both the downloaded and the streamed audio.
+   */
+  private _onPrepared(options: AudioPlayerOptions) {
+    this._loopCount = 0;
+    this._applyVolume();
+    this._stateMachine.transition(PlayerState.Ready);
+    this._sendEvent(AudioPlayerEvents.prepared, { duration: this.duration, live: this._live });
+    this._chapterTracker.update();
+    this._resumeSavedPosition();
+    this._cacheItem(options);
+    this._skipHandler.onPrepared();
+    if (options.autoPlay) {
+      this.play();
+    }
+  }
+
+  private _cacheItem(options: AudioPlayerOptions) {
+    if (this._audioCache && options.cache !== false && !this._live && isStringUrl(options.audioFile)) {
+      this._audioCache.onPrepared(options);
+    }
+  }
+
+  /**
+   * Keeps a file downloaded whole in `audioCache`, so it is not downloaded again.
+   */
+  private _cacheDownload(options: AudioPlayerOptions, data: NSData) {
+    if (this._audioCache && options.cache !== false && this._options === options && isStringUrl(options.audioFile) && resolveAudioFilePath(options.audioFile) === options.audioFile) {
+      this._audioCache.put(options.audioFile, data);
+    }
+  }
+
+  /**
+   * Sets the user volume on the current player, scaled by the running fades and the ducking.
+   */
+  private _applyVolume() {
+    if (this._player) {
+      this._player.volume = this._volume * this._fader.factor * this._sleepFader.factor * this._duckVolume;
+    }
+  }
+
+  private _failLoad(error: AudioPlayerError, reject: (error: AudioPlayerError) => void) {
+    this._stateMachine.transition(PlayerState.Error);
+    this._skipHandler.cancel('The audio file could not be loaded');
+    this._notifyError(error);
+    reject(error);
+  }
+
+  private _onBufferingChanged(buffering: boolean) {
+    if (this._recovery.active) {
+      // playback only goes on once the stream is prepared again
+      return;
+    }
+    if (buffering) {
+      if (this._stateMachine.is(PlayerState.Playing)) {
+        this._stateMachine.transition(PlayerState.Buffering);
+      }
+      this._sendEvent(AudioPlayerEvents.bufferingStart);
+    } else {
+      if (this._stateMachine.is(PlayerState.Buffering)) {
+        this._stateMachine.transition(PlayerState.Playing);
+      }
+      this._sendEvent(AudioPlayerEvents.bufferingEnd);
+    }
+  }
+
+  /**
+   * Reports a playback failure through the `error` event and the `errorCallback`.
+   */
+  private _notifyError(error: AudioPlayerError) {
+    this._sendEvent(AudioPlayerEvents.error, { error });
+    if (this.errorCallback) {
+      this.errorCallback({ player: this.ios, error });
+    }
+  }
+
+  private _timeUpdateData(): TimeUpdateEventData {
+    const duration = this.duration;
+    // AVAudioPlayer holds the whole file, it is always fully loaded
+    const bufferedPosition = this._player instanceof StreamPlayer ? this._player.bufferedPosition : duration;
+    return { currentTime: this.currentTime, duration, bufferedPosition };
+  }
+
+  /**
+   * The AVPlayer while streaming, the AVAudioEngine with audio effects, the AVAudioPlayer otherwise.
+   */
+  private _nativePlayer(player: AVAudioPlayer | StreamPlayer | EnginePlayer): any {
+    if (player instanceof StreamPlayer) {
+      return player.avPlayer;
+    }
+    return player instanceof EnginePlayer ? player.engine : player;
+  }
+
+  /**
+   * The AVAudioPlayer metering the current file, null when `metering` is off. Metered files
+   * are never streamed, AVPlayer has no meters.
+   */
+  private _meteredPlayer(): AVAudioPlayer | null {
+    const player = this._player;
+    return player && !(player instanceof StreamPlayer || player instanceof EnginePlayer) && player.meteringEnabled ? player : null;
+  }
+
+  private _meteringLevels(): MeteringEventData | null {
+    try {
+      const player = this._meteredPlayer();
+      if (!player) {
+        return null;
+      }
+      // one meter update for all channels
+      player.updateMeters();
+      const averagePower: number[] = [];
+      const peakPower: number[] = [];
+      for (let channel = 0; channel < player.numberOfChannels; channel++) {
+        averagePower.push(clampPower(player.averagePowerForChannel(channel)));
+        peakPower.push(clampPower(player.peakPowerForChannel(channel)));
+      }
+      return { averagePower, peakPower };
+    } catch (error) {
+      console.error('[Code error IOS-E56] Error with _meteringLevels :', error);
+      return null;
+    }
+  }
+
+  private _startProgressTimer() {
+    this._stopProgressTimer();
+    if (this._progressStore) {
+      this._progressTimer = setInterval(() => this._saveProgress(), this._progressStore.saveInterval);
+    }
+  }
+
+  private _stopProgressTimer() {
+    if (this._progressTimer) {
+      clearInterval(this._progressTimer);
+      this._progressTimer = undefined;
+    }
+  }
+
+  /**
+   * Notify events by name and optionally pass data
+   */
+  private _sendEvent(eventName: string, data?: any) {
+    try {
+      this._events.notify({
+        eventName,
+        object: this._events,
+        data: data
+      });
+    } catch (error) {
+      console.error('[Code error IOS-E36] Error with _sendEvent :', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the ID3v2 tag at the start of a file, empty when there is none.
+   */
+  private _readId3Tag(path: string): Uint8Array {
+    const handle = NSFileHandle.fileHandleForReadingAtPath(path);
+    if (!handle) {
+      throw new Error(`[Code error IOS-E37] Cannot open file ${path}`);
+    }
+    try {
+      const size = id3TagSize(new Uint8Array(interop.bufferFromData(handle.readDataOfLength(10))));
+      if (!size) {
+        return new Uint8Array(0);
+      }
+      handle.seekToFileOffset(0);
+      return new Uint8Array(interop.bufferFromData(handle.readDataOfLength(size)));
+    } finally {
+      handle.closeFile();
+    }
+  }
+
   private _reset() {
     try {
+      if (this._player instanceof StreamPlayer || this._player instanceof EnginePlayer) {
+        this._player.dispose();
+      }
       if (this._player) {
         this._player = undefined;
       }
@@ -369,7 +1988,6 @@ export class TNSPlayer extends Observable implements TNSPlayerI {
         this._task.cancel();
         this._task = undefined;
       }
-      this._isPrepared = false;
     } catch (error) {
       console.error('[Code error IOS-E31] Error with _reset :', error);
       throw error;
@@ -0,0 +1,359 @@
+import { Observable } from '@nativescript/core';
+import { resolveLocalAudioFilePath, TNSRecordI } from '../common';
+import { AudioPlayerError, AudioPlayerErrorCode } from '../errors';
+import { clampPower, MeteringEventData, MIN_POWER } from '../metering';
+import { AudioRecorderEvents, AudioRecorderOptions } from '../options';
+import { TimeUpdateEmitter } from '../time-update';
+
+declare var kAudioFormatMPEG4AAC;
+
+class TNSRecorderDelegate extends NSObject implements AVAudioRecorderDelegate {
+  static ObjCProtocols = [AVAudioRecorderDelegate];
+  private _owner: WeakRef<TNSRecorder>;
+
+  static initWithOwner(owner: TNSRecorder) {
+    const delegate = <TNSRecorderDelegate>TNSRecorderDelegate.new();
+    delegate._owner = new global.WeakRef(owner);
+    return delegate;
+  }
+
+  audioRecorderDidFinishRecordingSuccessfully(recorder: AVAudioRecorder, flag: boolean) {
+    const owner = this._owner.get();
+    if (owner && !flag) {
+      owner._onRecordingError(null);
+    }
+  }
+
+  audioRecorderEncodeErrorDidOccurError(recorder: AVAudioRecorder, error: NSError) {
+    const owner = this._owner.get();
+    if (owner) {
+      owner._onRecordingError(error);
+    }
+  }
+}
+
+export class TNSRecorder extends Observable implements TNSRecordI {
+  private _recorder: AVAudioRecorder;
+  private delegate: TNSRecorderDelegate;
+  private _events: Observable;
+  private _options: AudioRecorderOptions;
+  private _path: string;
+  private _maxDurationTimer: any;
+  private _metering: TimeUpdateEmitter<MeteringEventData>;
+
+  /**
+   * Whether the device has a microphone.
+   */
+  static CAN_RECORD(): boolean {
+    return AVAudioSession.sharedInstance().inputAvailable;
+  }
+
+  constructor() {
+    super();
+    this._events = new Observable();
+    this._metering = new TimeUpdateEmitter<MeteringEventData>(
+      () => this._meteringLevels(),
+      (data: MeteringEventData) => this._sendEvent(AudioRecorderEvents.metering, data),
+      0
+    );
+  }
+
+  get events(): Observable {
+    return this._events;
+  }
+
+  get ios(): AVAudioRecorder {
+    return this._recorder;
+  }
+
+  /**
+   * Milliseconds between two `metering` events while recording with `metering` on, 0 turns them off.
+   */
+  get meteringInterval(): number {
+    return this._metering.interval;
+  }
+
+  set meteringInterval(value: number) {
+    this._metering.interval = value;
+  }
+
+  hasRecordPermission(): boolean {
+    try {
+      return AVAudioSession.sharedInstance().recordPermission === AVAudioSessionRecordPermission.Granted;
+    } catch (error) {
+      console.error('[Code error IOS-E57] Error with hasRecordPermission :', error);
+      return false;
+    }
+  }
+
+  /**
+   * Asks the user for microphone access, the app Info.plist needs `NSMicrophoneUsageDescription`.
+   * @returns true when granted, rejects with `permissionDenied` otherwise
+   */
+  requestRecordPermission(): Promise<boolean> {
+    return new Promise((resolve, reject) => {
+      try {
+        AVAudioSession.sharedInstance().requestRecordPermission(granted => {
+          if (granted) {
+            resolve(true);
+          } else {
+            reject(new AudioPlayerError(AudioPlayerErrorCode.PermissionDenied, 'The record permission was denied'));
+          }
+        });
+      } catch (error) {
+        console.error('[Code error IOS-E58] Error with requestRecordPermission :', error);
+        reject(AudioPlayerError.from(error, AudioPlayerErrorCode.PermissionDenied));
+      }
+    });
+  }
+
+  start(options: AudioRecorderOptions): Promise<any> {
+    return new Promise((resolve, reject) => {
+      try {
+        // _path is set from start() to stop(), also while paused
+        if (this._path) {
+          reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The recorder is already recording'));
+          return;
+        }
+        if (!this.hasRecordPermission()) {
+          reject(new AudioPlayerError(AudioPlayerErrorCode.PermissionDenied, 'Microphone access is not granted, see requestRecordPermission'));
+          return;
+        }
+        const path = options && resolveLocalAudioFilePath(options.filename);
+        if (!path) {
+          reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `Cannot record to ${options && options.filename}`));
+          return;
+        }
+        this._options = options;
+
+        const audioSession = AVAudioSession.sharedInstance();
+        audioSession.setCategoryWithOptionsError(AVAudioSessionCategoryPlayAndRecord, AVAudioSessionCategoryOptions.DefaultToSpeaker);
+        audioSession.setActiveError(true);
+
+        const settings = NSMutableDictionary.new<string, any>();
+        settings.setValueForKey(NSNumber.numberWithInt(options.format !== undefined ? options.format : kAudioFormatMPEG4AAC), AVFormatIDKey);
+        settings.setValueForKey(NSNumber.numberWithInt(options.encoder !== undefined ? options.encoder : AVAudioQuality.Medium), AVEncoderAudioQualityKey);
+        settings.setValueForKey(NSNumber.numberWithFloat(options.sampleRate || 44100), AVSampleRateKey);
+        settings.setValueForKey(NSNumber.numberWithInt(options.channels || 1), AVNumberOfChannelsKey);
+        if (options.bitRate) {
+          settings.setValueForKey(NSNumber.numberWithInt(options.bitRate), AVEncoderBitRateKey);
+        }
+
+        // throws the NSError when the settings are not supported
+        const recorder = AVAudioRecorder.alloc().initWithURLSettingsError(NSURL.fileURLWithPath(path), settings);
+        this.delegate = TNSRecorderDelegate.initWithOwner(this);
+        recorder.delegate = this.delegate;
+        recorder.meteringEnabled = !!options.metering;
+        if (!recorder.record()) {
+          const recordError = new AudioPlayerError(AudioPlayerErrorCode.RecordingFailed, 'Recording could not be started');
+          this._notifyError(recordError);
+          reject(recordError);
+          return;
+        }
+        this._recorder = recorder;
+        this._path = path;
+        this._scheduleMaxDuration();
+        if (typeof options.meteringInterval === 'number') {
+          this._metering.interval = options.meteringInterval;
+        }
+        this._metering.start();
+        this._sendEvent(AudioRecorderEvents.started);
+        resolve(null);
+      } catch (error) {
+        console.error('[Code error IOS-E59] Error with start :', error);
+        const recordError = AudioPlayerError.from(error, AudioPlayerErrorCode.RecordingFailed);
+        this._notifyError(recordError);
+        reject(recordError);
+      }
+    });
+  }
+
+  pause(): Promise<any> {
+    return new Promise((resolve, reject) => {
+      try {
+        if (!this._recorder || !this._recorder.recording) {
+          reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The recorder is not recording'));
+          return;
+        }
+        this._recorder.pause();
+        this._clearMaxDurationTimer();
+        this._metering.stop();
+        this._sendEvent(AudioRecorderEvents.paused);
+        resolve(null);
+      } catch (error) {
+        console.error('[Code error IOS-E60] Error with pause :', error);
+        reject(AudioPlayerError.from(error, AudioPlayerErrorCode.RecordingFailed));
+      }
+    });
+  }
+
+  resume(): Promise<any> {
+    return new Promise((resolve, reject) => {
+      try {
+        if (!this._recorder || !this._path || this._recorder.recording) {
+          reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The recorder is not paused'));
+          return;
+        }
+        this._recorder.record();
+        this._scheduleMaxDuration();
+        this._metering.start();
+        this._sendEvent(AudioRecorderEvents.resumed);
+        resolve(null);
+      } catch (error) {
+        console.error('[Code error IOS-E61] Error with resume :', error);
+        reject(AudioPlayerError.from(error, AudioPlayerErrorCode.RecordingFailed));
+      }
+    });
+  }
+
+  stop(): Promise<string> {
+    return new Promise((resolve, reject) => {
+      try {
+        if (!this._recorder || !this._path) {
+          reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidState, 'The recorder is not recording'));
+          return;
+        }
+        const path = this._path;
+        this._finish(false);
+        resolve(path);
+      } catch (error) {
+        console.error('[Code error IOS-E62] Error with stop :', error);
+        reject(AudioPlayerError.from(error, AudioPlayerErrorCode.RecordingFailed));
+      }
+    });
+  }
+
+  dispose(): Promise<any> {
+    return new Promise((resolve, reject) => {
+      try {
+        this._stopRecording();
+        this._recorder = undefined;
+        this.delegate = undefined;
+        this._options = undefined;
+        resolve(null);
+      } catch (error) {
+        console.error('[Code error IOS-E63] Error with dispose :', error);
+        reject(AudioPlayerError.from(error, AudioPlayerErrorCode.NotInitialized));
+      }
+    });
+  }
+
+  isRecording(): boolean {
+    return !!this._recorder && this._recorder.recording;
+  }
+
+  /**
+   * Average power of a channel in dBFS, from -160 (silence) to 0. Needs the `metering` option, -160 without it.
+   * @param channel - Defaults to 0, the first channel.
+   */
+  getAveragePower(channel: number = 0): number {
+    const levels = this._meteringLevels();
+    return levels && channel >= 0 && channel < levels.averagePower.length ? levels.averagePower[channel] : MIN_POWER;
+  }
+
+  /**
+   * Peak power of a channel in dBFS, from -160 (silence) to 0. Needs the `metering` option, -160 without it.
+   * @param channel - Defaults to 0, the first channel.
+   */
+  getPeakPower(channel: number = 0): number {
+    const levels = this._meteringLevels();
+    return levels && channel >= 0 && channel < levels.peakPower.length ? levels.peakPower[channel] : MIN_POWER;
+  }
+
+  /**
+   * Called by the delegate when encoding failed.
+   */
+  _onRecordingError(error: NSError | null) {
+    try {
+      this._notifyError(error ? AudioPlayerError.from(error, AudioPlayerErrorCode.RecordingFailed) : new AudioPlayerError(AudioPlayerErrorCode.RecordingFailed, 'Recording did not finish successfully'));
+      this._stopRecording();
+    } catch (e) {
+      console.error('[Code error IOS-E64] Error with _onRecordingError :', e);
+    }
+  }
+
+  /**
+   * Ends the recording and reports it, by `stop()` or when the max duration was reached.
+   */
+  private _finish(maxDurationReached: boolean) {
+    const path = this._path;
+    this._stopRecording();
+    this._sendEvent(AudioRecorderEvents.stopped, { path, maxDurationReached });
+  }
+
+  private _stopRecording() {
+    this._clearMaxDurationTimer();
+    this._metering.stop();
+    if (this._recorder && this._path) {
+      this._recorder.stop();
+    }
+    this._path = undefined;
+  }
+
+  /**
+   * Stops recording once `maxDuration` of audio was recorded. The recorder clock stands still
+   * while paused, so the time left is taken from it on every start and resume.
+   */
+  private _scheduleMaxDuration() {
+    this._clearMaxDurationTimer();
+    const maxDuration = this._options && this._options.maxDuration;
+    if (maxDuration > 0) {
+      const remaining = Math.max(0, maxDuration - this._recorder.currentTime * 1000);
+      this._maxDurationTimer = setTimeout(() => {
+        this._maxDurationTimer = undefined;
+        if (this._options && this._options.infoCallback) {
+          this._options.infoCallback({ recorder: this._recorder, info: 'maxDurationReached' });
+        }
+        this._finish(true);
+      }, remaining);
+    }
+  }
+
+  private _clearMaxDurationTimer() {
+    if (this._maxDurationTimer) {
+      clearTimeout(this._maxDurationTimer);
+      this._maxDurationTimer = undefined;
+    }
+  }
+
+  private _meteringLevels(): MeteringEventData | null {
+    try {
+      const recorder = this._recorder;
+      if (!recorder || !recorder.recording || !recorder.meteringEnabled) {
+        return null;
+      }
+      recorder.updateMeters();
+      const channels = (this._options && this._options.channels) || 1;
+      const averagePower: number[] = [];
+      const peakPower: number[] = [];
+      for (let channel = 0; channel < channels; channel++) {
+        averagePower.push(clampPower(recorder.averagePowerForChannel(channel)));
+        peakPower.push(clampPower(recorder.peakPowerForChannel(channel)));
+      }
+      return { averagePower, peakPower };
+    } catch (error) {
+      console.error('[Code error IOS-E65] Error with _meteringLevels :', error);
+      return null;
+    }
+  }
+
+  /**
+   * Reports a recording failure through the `error` event and the `errorCallback`.
+   */
+  private _notifyError(error: AudioPlayerError) {
+    this._sendEvent(AudioRecorderEvents.error, { error });
+    if (this._options && this._options.errorCallback) {
+      this._options.errorCallback({ recorder: this._recorder, error });
+    }
+  }
+
+  private _sendEvent(eventName: string, data?: any) {
+    this._events.notify({
+      eventName,
+      object: this._events,
+      data
+    });
+  }
+}
+
+export { TNSRecorderDelegate };
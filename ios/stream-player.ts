@@ -0,0 +1,234 @@
+import { AudioCache } from '../cache';
+import { BufferedRange } from '../options';
+import { RequestHeaders } from '../request-headers';
+import { CacheResourceLoader } from './cache-loader';
+
+/**
+ * What `StreamPlayer` reports back to its `TNSPlayer`.
+ */
+export interface StreamPlayerListener {
+  /**
+   * Enough of the stream is known to start playing.
+   */
+  onReady(): void;
+  /**
+   * The stream could not be opened.
+   */
+  onFailed(error: NSError): void;
+  onEnded(): void;
+  /**
+   * Playback broke off before the end, e.g. the connection dropped for too long.
+   */
+  onPlaybackFailed(error: NSError): void;
+  /**
+   * Playback waits for more data (true), or carries on (false).
+   */
+  onBufferingChanged(buffering: boolean): void;
+  onBufferedRangesChanged(ranges: BufferedRange[]): void;
+}
+
+const OBSERVED_ITEM_KEYS = ['status', 'loadedTimeRanges'];
+const OBSERVED_PLAYER_KEYS = ['timeControlStatus'];
+
+class TNSStreamObserver extends NSObject {
+  private _owner: WeakRef<StreamPlayer>;
+
+  static initWithOwner(owner: StreamPlayer) {
+    const observer = <TNSStreamObserver>TNSStreamObserver.new();
+    observer._owner = new global.WeakRef(owner);
+    return observer;
+  }
+
+  observeValueForKeyPathOfObjectChangeContext(keyPath: string, object: any, change: NSDictionary<string, any>, context: any) {
+    try {
+      const owner = this._owner.get();
+      if (owner) {
+        owner._onValueChanged(keyPath);
+      }
+    } catch (error) {
+      console.error('[Code error IOS-E43] Error with observeValueForKeyPathOfObjectChangeContext :', error);
+    }
+  }
+}
+
+/**
+ * Progressive playback of a remote file with AVPlayer. Playback starts as soon as AVPlayer
+ * buffered enough, instead of downloading the whole file first. It mirrors the part of the
+ * AVAudioPlayer API that `TNSPlayer` uses, so both can sit behind the same `_player` field.
+ */
+export class StreamPlayer {
+  readonly avPlayer: AVPlayer;
+  private _item: AVPlayerItem;
+  private _observer: TNSStreamObserver;
+  private _loader: CacheResourceLoader | null = null;
+  private _notifications: NSObjectProtocol[] = [];
+  private _rate = 1;
+  private _ready = false;
+  private _buffering = false;
+
+  /**
+   * @param headers - Sent with every request for the stream, e.g. the bearer token of a private feed.
+   * @param cache - Reads the file through the cache it was opened with by `AudioCache.openStream`,
+   * which sends the headers itself.
+   */
+  constructor(url: NSURL, private _listener: StreamPlayerListener, headers: RequestHeaders = {}, cache: AudioCache | null = null) {
+    try {
+      let asset: AVURLAsset;
+      if (cache) {
+        this._loader = CacheResourceLoader.initWithCache(cache, url.absoluteString);
+        asset = this._loader.createAsset();
+      } else {
+        const fields = NSMutableDictionary.new<string, string>();
+        Object.keys(headers).forEach(name => fields.setObjectForKey(headers[name], name));
+        // not a public AVURLAsset option, but the one way to send headers with the requests of AVPlayer
+        asset = AVURLAsset.URLAssetWithURLOptions(url, <any>NSDictionary.dictionaryWithObjectForKey(fields, 'AVURLAssetHTTPHeaderFieldsKey'));
+      }
+      this._item = AVPlayerItem.playerItemWithAsset(asset);
+      this.avPlayer = AVPlayer.playerWithPlayerItem(this._item);
+      this.avPlayer.automaticallyWaitsToMinimizeStalling = true;
+      this._observer = TNSStreamObserver.initWithOwner(this);
+      OBSERVED_ITEM_KEYS.forEach(key => this._item.addObserverForKeyPathOptionsContext(this._observer, key, NSKeyValueObservingOptions.New, null));
+      OBSERVED_PLAYER_KEYS.forEach(key => this.avPlayer.addObserverForKeyPathOptionsContext(this._observer, key, NSKeyValueObservingOptions.New, null));
+
+      const center = NSNotificationCenter.defaultCenter;
+      this._notifications.push(
+        center.addObserverForNameObjectQueueUsingBlock(AVPlayerItemDidPlayToEndTimeNotification, this._item, NSOperationQueue.mainQueue, () => {
+          // like AVAudioPlayer, go back to the start once the end is reached
+          this.avPlayer.pause();
+          this.avPlayer.seekToTime(kCMTimeZero);
+          this._listener.onEnded();
+        }),
+        center.addObserverForNameObjectQueueUsingBlock(AVPlayerItemFailedToPlayToEndTimeNotification, this._item, NSOperationQueue.mainQueue, notification => {
+          const error = notification.userInfo && notification.userInfo.objectForKey(AVPlayerItemFailedToPlayToEndTimeErrorKey);
+          this._listener.onPlaybackFailed(error);
+        })
+      );
+    } catch (error) {
+      console.error('[Code error IOS-E44] Error with StreamPlayer :', error);
+      throw error;
+    }
+  }
+
+  get volume(): number {
+    return this.avPlayer.volume;
+  }
+
+  set volume(value: number) {
+    this.avPlayer.volume = value;
+  }
+
+  /**
+   * Duration in seconds, 0 while unknown.
+   */
+  get duration(): number {
+    const duration = CMTimeGetSeconds(this._item.duration);
+    return isFinite(duration) ? duration : 0;
+  }
+
+  /**
+   * Whether the stream is live, which AVPlayer tells by an indefinite duration once ready.
+   */
+  get live(): boolean {
+    return this._ready && (this._item.duration.flags & CMTimeFlags.kCMTimeFlags_Indefinite) !== 0;
+  }
+
+  get currentTime(): number {
+    const time = CMTimeGetSeconds(this.avPlayer.currentTime());
+    return isFinite(time) ? time : 0;
+  }
+
+  set currentTime(value: number) {
+    this.avPlayer.seekToTime(CMTimeMakeWithSeconds(value, 1000));
+  }
+
+  /**
+   * True from `play()` to `pause()`, including while waiting for data.
+   */
+  get playing(): boolean {
+    return this.avPlayer.rate !== 0;
+  }
+
+  get rate(): number {
+    return this._rate;
+  }
+
+  set rate(value: number) {
+    this._rate = value;
+    if (this.playing) {
+      this.avPlayer.rate = value;
+    }
+  }
+
+  get bufferedRanges(): BufferedRange[] {
+    const ranges: BufferedRange[] = [];
+    const loaded = this._item.loadedTimeRanges;
+    for (let i = 0; loaded && i < loaded.count; i++) {
+      const range = loaded.objectAtIndex(i).CMTimeRangeValue;
+      const start = CMTimeGetSeconds(range.start);
+      ranges.push({ start, end: start + CMTimeGetSeconds(range.duration) });
+    }
+    return ranges;
+  }
+
+  /**
+   * End of the buffered range holding the playback position, in seconds.
+   */
+  get bufferedPosition(): number {
+    const time = this.currentTime;
+    const range = this.bufferedRanges.find(r => r.start <= time + 0.5 && r.end >= time);
+    return range ? range.end : time;
+  }
+
+  play() {
+    // AVPlayer waits for enough data before it actually starts
+    this.avPlayer.rate = this._rate;
+  }
+
+  pause() {
+    this.avPlayer.pause();
+  }
+
+  stop() {
+    this.avPlayer.pause();
+  }
+
+  dispose() {
+    try {
+      this.avPlayer.pause();
+      OBSERVED_ITEM_KEYS.forEach(key => this._item.removeObserverForKeyPath(this._observer, key));
+      OBSERVED_PLAYER_KEYS.forEach(key => this.avPlayer.removeObserverForKeyPath(this._observer, key));
+      this._notifications.forEach(token => NSNotificationCenter.defaultCenter.removeObserver(token));
+      this._notifications = [];
+      this.avPlayer.replaceCurrentItemWithPlayerItem(null);
+      if (this._loader) {
+        this._loader.cancel();
+      }
+    } catch (error) {
+      console.error('[Code error IOS-E45] Error with StreamPlayer dispose :', error);
+    }
+  }
+
+  _onValueChanged(keyPath: string) {
+    switch (keyPath) {
+      case 'status':
+        if (this._item.status === AVPlayerItemStatus.ReadyToPlay && !this._ready) {
+          this._ready = true;
+          this._listener.onReady();
+        } else if (this._item.status === AVPlayerItemStatus.Failed) {
+          this._listener.onFailed(this._item.error);
+        }
+        break;
+      case 'loadedTimeRanges':
+        this._listener.onBufferedRangesChanged(this.bufferedRanges);
+        break;
+      case 'timeControlStatus': {
+        const buffering = this.avPlayer.timeControlStatus === AVPlayerTimeControlStatus.WaitingToPlayAtSpecifiedRate;
+        if (buffering !== this._buffering) {
+          this._buffering = buffering;
+          this._listener.onBufferingChanged(buffering);
+        }
+        break;
+      }
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import { ImageSource, Observable } from '@nativescript/core';
+import { isStringUrl, resolveAudioFilePath } from './common';
+import { AudioPlayerOptions } from './options';
+import { PlayerState } from './player-state';
+
+export enum RemoteCommand {
+  Play = 'play',
+  Pause = 'pause',
+  TogglePlayPause = 'togglePlayPause',
+  Stop = 'stop',
+  SkipForward = 'skipForward',
+  SkipBackward = 'skipBackward',
+  /**
+   * Not handled by the player, a `TNSPlaylist` moves to its next item.
+   */
+  NextTrack = 'nextTrack',
+  /**
+   * Not handled by the player, a `TNSPlaylist` moves to its previous item.
+   */
+  PreviousTrack = 'previousTrack',
+  Seek = 'seek',
+  ChangeRate = 'changeRate'
+}
+
+export interface RemoteCommandEventData {
+  command: RemoteCommand;
+  /**
+   * `Seek`: the position to seek to, in seconds.
+   */
+  position?: number;
+  /**
+   * `SkipForward`/`SkipBackward`: seconds to skip, the player skip interval when not set.
+   */
+  interval?: number;
+  /**
+   * `ChangeRate`: the requested playback speed.
+   */
+  rate?: number;
+}
+
+/**
+ * What the lock screen and notification show for the current audio file.
+ */
+export interface NowPlayingInfo {
+  title?: string;
+  artist?: string;
+  album?: string;
+  /**
+   * Url or local path of the cover image.
+   */
+  artwork?: string;
+}
+
+/**
+ * Playback speeds offered by the iOS lock screen.
+ */
+export const REMOTE_PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/**
+ * What the media session needs from a player.
+ */
+export interface MediaSessionHost {
+  readonly events: Observable;
+  readonly state: PlayerState;
+  readonly currentTime: number;
+  readonly duration: number;
+  readonly playbackRate: number;
+  readonly skipForwardInterval: number;
+  readonly skipBackwardInterval: number;
+  isAudioPlaying(): boolean;
+  play(): Promise<any>;
+  pause(): Promise<any>;
+  seekTo(time: number): Promise<any>;
+  changePlayerSpeed(speed: number): void;
+  skipForward(seconds?: number): Promise<number>;
+  skipBackward(seconds?: number): Promise<number>;
+}
+
+/**
+ * The now playing info of the given options, null when they hold no metadata and
+ * the media session should stay off.
+ */
+export function nowPlayingInfo(options: AudioPlayerOptions): NowPlayingInfo | null {
+  if (!options || !(options.title || options.artist || options.album || options.artwork)) {
+    return null;
+  }
+  const { title, artist, album, artwork } = options;
+  return { title, artist, album, artwork };
+}
+
+/**
+ * Runs a remote command on the player. Track changes are left to whoever listens
+ * to the `remoteCommand` event.
+ */
+export function handleRemoteCommand(host: MediaSessionHost, data: RemoteCommandEventData): Promise<any> {
+  const ignore = () => null;
+  switch (data.command) {
+    case RemoteCommand.Play:
+      return host.isAudioPlaying() ? Promise.resolve(null) : host.play().catch(ignore);
+    case RemoteCommand.Pause:
+    case RemoteCommand.Stop:
+      return host.isAudioPlaying() ? host.pause().catch(ignore) : Promise.resolve(null);
+    case RemoteCommand.TogglePlayPause:
+      return (host.isAudioPlaying() ? host.pause() : host.play()).catch(ignore);
+    case RemoteCommand.SkipForward:
+      return host.skipForward(data.interval).catch(ignore);
+    case RemoteCommand.SkipBackward:
+      return host.skipBackward(data.interval).catch(ignore);
+    case RemoteCommand.Seek:
+      return host.seekTo(Math.max(0, data.position)).catch(ignore);
+    case RemoteCommand.ChangeRate:
+      if (data.rate > 0) {
+        host.changePlayerSpeed(data.rate);
+      }
+      return Promise.resolve(null);
+  }
+  return Promise.resolve(null);
+}
+
+/**
+ * Loads the artwork image from an url, a local path or a `res://` resource. Resolves null when it cannot be loaded.
+ */
+export function loadArtwork(artwork: string): Promise<ImageSource | null> {
+  if (!artwork) {
+    return Promise.resolve(null);
+  }
+  let image: Promise<ImageSource>;
+  if (isStringUrl(artwork)) {
+    image = ImageSource.fromUrl(artwork);
+  } else if (artwork.indexOf('res://') === 0) {
+    image = ImageSource.fromResource(artwork.slice('res://'.length));
+  } else {
+    image = ImageSource.fromFile(resolveAudioFilePath(artwork));
+  }
+  return image.catch(error => {
+    console.error('[Code error MS01] Error loading artwork:', error);
+    return null;
+  });
+}
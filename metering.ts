@@ -0,0 +1,90 @@
+import { Observable } from '@nativescript/core';
+import { AudioPlayerEvents } from './options';
+import { PlayerState } from './player-state';
+import { TimeUpdateEmitter } from './time-update';
+
+/**
+ * Level of silence in dBFS, the bottom of the scale `AVAudioPlayer` meters on.
+ * Levels on both platforms go from this to 0, full scale.
+ */
+export const MIN_POWER = -160;
+
+export interface MeteringEventData {
+  /**
+   * Average power of each channel in dBFS, from -160 (silence) to 0.
+   */
+  averagePower: number[];
+  /**
+   * Peak power of each channel in dBFS, from -160 (silence) to 0.
+   */
+  peakPower: number[];
+}
+
+/**
+ * What metering updates need from a player.
+ */
+export interface MeteringHost {
+  readonly events: Observable;
+  readonly state: PlayerState;
+}
+
+/**
+ * Keeps a level within the `MIN_POWER` to 0 dBFS scale.
+ */
+export function clampPower(decibels: number): number {
+  if (typeof decibels !== 'number' || !isFinite(decibels)) {
+    return MIN_POWER;
+  }
+  return Math.max(MIN_POWER, Math.min(0, decibels));
+}
+
+/**
+ * Converts a level measured by the Android `Visualizer`, in millibels, to dBFS. The
+ * Visualizer bottoms out at -96 dB, the floor of 16 bit audio, which is reported as silence.
+ */
+export function powerFromMillibels(millibels: number): number {
+  return millibels <= -9600 ? MIN_POWER : clampPower(millibels / 100);
+}
+
+/**
+ * Converts the Android `MediaRecorder` max amplitude, a 16 bit sample value, to dBFS.
+ */
+export function powerFromAmplitude(amplitude: number): number {
+  return amplitude > 0 ? clampPower(20 * Math.log10(amplitude / 32767)) : MIN_POWER;
+}
+
+/**
+ * Fires `metering` events at a fixed interval while audio plays, following the player
+ * state so the players do not need to start and stop it themselves. Off until an interval is set.
+ */
+export class MeteringEmitter {
+  private _updates: TimeUpdateEmitter<MeteringEventData>;
+
+  constructor(
+    private _host: MeteringHost,
+    getLevels: () => MeteringEventData | null,
+    onUpdate: (data: MeteringEventData) => void
+  ) {
+    this._updates = new TimeUpdateEmitter<MeteringEventData>(getLevels, onUpdate, 0);
+    this._host.events.on(AudioPlayerEvents.stateChanged, this._onStateChanged, this);
+  }
+
+  /**
+   * Milliseconds between two updates, 0 turns the updates off.
+   */
+  get interval(): number {
+    return this._updates.interval;
+  }
+
+  set interval(value: number) {
+    this._updates.interval = value;
+  }
+
+  private _onStateChanged() {
+    if (this._host.state === PlayerState.Playing) {
+      this._updates.start();
+    } else {
+      this._updates.stop();
+    }
+  }
+}
@@ -1,3 +1,9 @@
+import { EventData } from '@nativescript/core';
+import { AudioChapter } from './chapters';
+import { AudioPlayerError } from './errors';
+import { StreamRecoveryOptions } from './recovery';
+import { AuthTokenProvider } from './request-headers';
+
 /**
  * Provides options for the audio player.
  */
@@ -24,16 +30,22 @@ export interface AudioPlayerOptions {
     autoPlay?: boolean;
 
     /**
-     * Enable metering. Off by default.
+     * Enable metering, see `getAveragePower` and `getPeakPower`. Off by default.
+     * Android: measured with the `Visualizer`, which needs the RECORD_AUDIO permission.
      */
     metering?: boolean;
 
+    /**
+     * Milliseconds between two `metering` events while playing with `metering` on. Defaults to 0, no events.
+     */
+    meteringInterval?: number;
+
     audioMixing?: boolean;
 
     pitch?: number;
     /**
      * Gets or sets the callback when an error occurs with the audio player.
-     * @returns {Object} An object containing the native values for the error callback.
+     * @returns {Object} An object holding the native `player` and the `error`, an `AudioPlayerError`.
      */
     errorCallback?: Function;
 
@@ -42,10 +54,293 @@ export interface AudioPlayerOptions {
      * @returns {Object} An object containing the native values for the info callback.
      */
     infoCallback?: Function;
+
+    /**
+     * Chapters of the audio file, see `parseJsonChapters` for Podcasting 2.0 JSON chapters.
+     */
+    chapters?: AudioChapter[];
+
+    /**
+     * Identifies the episode in the playback progress store, defaults to `audioFile`.
+     */
+    episodeId?: string;
+
+    /**
+     * Set false to start from the beginning even when a position was saved for this episode.
+     */
+    resumePosition?: boolean;
+
+    /**
+     * Milliseconds between two `timeUpdate` events while playing. Defaults to 500, 0 turns them off.
+     */
+    timeUpdateInterval?: number;
+
+    /**
+     * Seconds skipped by `skipForward()` and the remote skip forward buttons. Defaults to 30.
+     */
+    skipForwardInterval?: number;
+
+    /**
+     * Seconds skipped by `skipBackward()` and the remote skip back buttons. Defaults to 15.
+     */
+    skipBackwardInterval?: number;
+
+    /**
+     * Seconds over which `play()` ramps the volume up from silence. Defaults to 0, no fade.
+     */
+    fadeInDuration?: number;
+
+    /**
+     * Seconds over which `pause()` ramps the volume down before pausing. Defaults to 0, no fade.
+     */
+    fadeOutDuration?: number;
+
+    /**
+     * Seconds of the volume dip around `seekTo()` while playing, half of it down before the seek
+     * and half back up after it. Defaults to 0, no dip.
+     */
+    seekFadeDuration?: number;
+
+    /**
+     * How a remote file that broke off while playing is prepared again, false to fail right away.
+     * On by default with 5 attempts.
+     */
+    recovery?: StreamRecoveryOptions | false;
+
+    /**
+     * iOS: play remote files progressively with AVPlayer (default). Set false to download the whole
+     * file before playing, metering always does.
+     */
+    streaming?: boolean;
+
+    /**
+     * Extra headers sent with the requests for a remote file, e.g. cookies.
+     */
+    headers?: { [name: string]: string };
+
+    /**
+     * User-Agent header sent with the requests for a remote file.
+     */
+    userAgent?: string;
+
+    /**
+     * Gives the bearer token of private feeds. When the server answers 401, a new token is asked
+     * for with `refresh` true and the request is made once more.
+     */
+    tokenProvider?: AuthTokenProvider;
+
+    /**
+     * Set false to keep the item out of the `AudioCache` set with `setAudioCache`, e.g. to save
+     * the disk space of an episode played once.
+     */
+    cache?: boolean;
+
+    /**
+     * Episode title shown on the lock screen, in the control center (iOS) and by media controls (Android).
+     * Setting any of `title`, `artist`, `album` or `artwork` turns these on.
+     */
+    title?: string;
+
+    /**
+     * Artist or podcast author shown with the title.
+     */
+    artist?: string;
+
+    /**
+     * Album or podcast name shown with the title.
+     */
+    album?: string;
+
+    /**
+     * Url or local path of the cover image shown with the title.
+     */
+    artwork?: string;
+
+    /**
+     * Android: play in a foreground service with a media notification, so playback goes on
+     * while the app is in the background. Off by default.
+     */
+    foregroundService?: boolean;
+
+    /**
+     * Android: drawable resource name of the foreground service notification icon, defaults to the app icon.
+     */
+    notificationIcon?: string;
+}
+
+export interface AudioRecorderOptions {
+    /**
+     * The file to record to, resolved like `playFromFile` paths: relative paths are in the documents folder.
+     */
+    filename: string;
+
+    /**
+     * Android: the `MediaRecorder.AudioSource`, the microphone by default.
+     */
+    source?: any;
+
+    /**
+     * Milliseconds after which recording stops by itself. Paused time does not count.
+     */
+    maxDuration?: number;
+
+    /**
+     * Enable metering, see `getAveragePower` and `getPeakPower`. Off by default.
+     */
+    metering?: boolean;
+
+    /**
+     * Milliseconds between two `metering` events while recording with `metering` on. Defaults to 0, no events.
+     */
+    meteringInterval?: number;
+
+    /**
+     * The container: a `MediaRecorder.OutputFormat` on Android (MPEG_4 by default), an
+     * `AudioFormatID` on iOS (kAudioFormatMPEG4AAC by default).
+     */
+    format?: any;
+
+    /**
+     * Number of channels, 1 by default.
+     */
+    channels?: any;
+
+    /**
+     * Samples per second, 44100 by default.
+     */
+    sampleRate?: any;
+
+    /**
+     * Bits per second of the encoded audio, the platform default when not set.
+     */
+    bitRate?: any;
+
+    /**
+     * Android: the `MediaRecorder.AudioEncoder`, AAC by default. iOS: the `AVAudioQuality`, medium by default.
+     */
+    encoder?: any;
+
+    /**
+     * Gets or sets the callback when recording fails.
+     * @returns {Object} An object holding the native `recorder` and the `error`, an `AudioPlayerError`.
+     */
+    errorCallback?: Function;
+
+    /**
+     * Gets or sets the callback to be invoked to communicate some info about the recording, e.g. the max duration was reached.
+     * @returns {Object} An object containing the native values for the info callback.
+     */
+    infoCallback?: Function;
 }
 
 export const AudioPlayerEvents = {
+    prepared: 'prepared',
+    started: 'started',
+    paused: 'paused',
     seek: 'seek',
+    bufferingStart: 'bufferingStart',
+    bufferingEnd: 'bufferingEnd',
+    progress: 'progress',
+    completed: 'completed',
+    loopRestarted: 'loopRestarted',
+    error: 'error',
+    rateChanged: 'rateChanged',
+    volumeChanged: 'volumeChanged',
+    disposed: 'disposed',
+    timeUpdate: 'timeUpdate',
+    stateChanged: 'stateChanged',
+    chapterChanged: 'chapterChanged',
+    sleepTimerTick: 'sleepTimerTick',
+    sleepTimerFired: 'sleepTimerFired',
+    remoteCommand: 'remoteCommand',
+    skipped: 'skipped',
+    metering: 'metering',
+    effectsChanged: 'effectsChanged',
+    transitioned: 'transitioned',
+    recovering: 'recovering',
+    recovered: 'recovered',
+    gaveUp: 'gaveUp'
+};
+
+export const AudioRecorderEvents = {
+    started: 'started',
     paused: 'paused',
-    started: 'started'
-};
\ No newline at end of file
+    resumed: 'resumed',
+    stopped: 'stopped',
+    metering: 'metering',
+    error: 'error'
+};
+
+/**
+ * Shape of every `AudioPlayerEvents` notification, the payload is in `data`.
+ */
+export interface AudioPlayerEventData<T = any> extends EventData {
+    data?: T;
+}
+
+export interface PreparedEventData {
+    /**
+     * Duration of the audio file in seconds, 0 for live streams.
+     */
+    duration: number;
+    /**
+     * Whether the audio is a live stream, which cannot seek.
+     */
+    live?: boolean;
+}
+
+export interface SeekEventData {
+    /**
+     * The position sought to, in seconds.
+     */
+    time: number;
+}
+
+export interface ProgressEventData {
+    /**
+     * How much of the audio file is loaded, from 0 to 100.
+     */
+    bufferedPercent: number;
+    bufferedRanges?: BufferedRange[];
+}
+
+/**
+ * A loaded part of the audio file, in seconds.
+ */
+export interface BufferedRange {
+    start: number;
+    end: number;
+}
+
+export interface LoopRestartedEventData {
+    /**
+     * Number of times playback looped since the file was loaded.
+     */
+    loopCount: number;
+}
+
+export interface ErrorEventData {
+    /**
+     * The native error and platform details are in `error.nativeError` and `error.extra`.
+     */
+    error: AudioPlayerError;
+}
+
+export interface RateChangedEventData {
+    rate: number;
+}
+
+export interface VolumeChangedEventData {
+    volume: number;
+}
+
+export interface RecorderStoppedEventData {
+    /**
+     * Path of the recorded file.
+     */
+    path: string;
+    /**
+     * True when recording stopped because `maxDuration` was reached.
+     */
+    maxDurationReached: boolean;
+}
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { Observable } from '@nativescript/core';
+import { AudioPlayerEventData, AudioPlayerEvents } from './options';
+import { PlayerState, StateChangedEventData } from './player-state';
+
+export enum PlaybackPolicy {
+  /**
+   * Pause the other players of the app.
+   */
+  Exclusive = 'exclusive',
+  /**
+   * Lower the volume of the other players until this one stops.
+   */
+  Duck = 'duck',
+  /**
+   * Play along with the other players.
+   */
+  Mix = 'mix'
+}
+
+/**
+ * What the registry needs from a player.
+ */
+export interface RegisteredPlayer {
+  readonly events: Observable;
+  readonly state: PlayerState;
+  /**
+   * The policy applied when the player starts, null for the registry `policy`.
+   */
+  readonly playbackPolicy: PlaybackPolicy | null;
+  pause(): Promise<any>;
+  /**
+   * Scales the volume of the player, 1 for the volume set by the user.
+   */
+  setDuckVolume(factor: number): void;
+}
+
+const PLAYING_STATES = [PlayerState.Playing, PlayerState.Buffering];
+
+/**
+ * Keeps track of the live players of the app and applies a `PlaybackPolicy` when one of them
+ * starts playing, so an episode, a preview and sound effects do not talk over each other.
+ * `activePlayer` is the player started last that is still playing, changes fire `propertyChange`.
+ * Players register themselves when created and unregister when disposed.
+ */
+export class PlayerRegistry extends Observable {
+  /**
+   * Policy of the players whose `playbackPolicy` is not set, `Exclusive` by default.
+   */
+  policy = PlaybackPolicy.Exclusive;
+  /**
+   * Volume factor of the players ducked by another one, 0.2 by default.
+   */
+  duckVolume = 0.2;
+  private _players: RegisteredPlayer[] = [];
+  private _listeners = new Map<RegisteredPlayer, (args: AudioPlayerEventData<StateChangedEventData>) => void>();
+  /**
+   * Players that started and are still playing, the last one started last.
+   */
+  private _started: RegisteredPlayer[] = [];
+  /**
+   * Ducked players and the player ducking them.
+   */
+  private _duckedBy = new Map<RegisteredPlayer, RegisteredPlayer>();
+  private _activePlayer: RegisteredPlayer | null = null;
+
+  get activePlayer(): RegisteredPlayer | null {
+    return this._activePlayer;
+  }
+
+  get players(): RegisteredPlayer[] {
+    return this._players.slice();
+  }
+
+  register(player: RegisteredPlayer) {
+    if (this._players.indexOf(player) !== -1) {
+      return;
+    }
+    const listener = (args: AudioPlayerEventData<StateChangedEventData>) => this._onStateChanged(player, args.data);
+    this._players.push(player);
+    this._listeners.set(player, listener);
+    player.events.on(AudioPlayerEvents.stateChanged, listener);
+  }
+
+  unregister(player: RegisteredPlayer) {
+    const index = this._players.indexOf(player);
+    if (index === -1) {
+      return;
+    }
+    this._onStopped(player);
+    this._players.splice(index, 1);
+    player.events.off(AudioPlayerEvents.stateChanged, this._listeners.get(player));
+    this._listeners.delete(player);
+  }
+
+  private _onStateChanged(player: RegisteredPlayer, data: StateChangedEventData) {
+    try {
+      if (PLAYING_STATES.indexOf(data.newState) === -1) {
+        this._onStopped(player);
+      } else if (PLAYING_STATES.indexOf(data.oldState) === -1) {
+        // buffering on the way is not a start
+        this._onStarted(player);
+      }
+    } catch (error) {
+      console.error('[Code error PR01] Error applying the playback policy:', error);
+    }
+  }
+
+  private _onStarted(player: RegisteredPlayer) {
+    this._restore(player);
+    const others = this._started.filter(other => other !== player);
+    switch (player.playbackPolicy || this.policy) {
+      case PlaybackPolicy.Exclusive:
+        others.forEach(other => other.pause().catch(error => console.error('[Code error PR02] Error pausing another player:', error)));
+        break;
+      case PlaybackPolicy.Duck:
+        others.forEach(other => {
+          this._duckedBy.set(other, player);
+          other.setDuckVolume(this.duckVolume);
+        });
+        break;
+    }
+    this._started = others.concat(player);
+    this._setActivePlayer(player);
+  }
+
+  private _onStopped(player: RegisteredPlayer) {
+    this._restore(player);
+    this._duckedBy.forEach((ducking, ducked) => {
+      if (ducking === player) {
+        this._restore(ducked);
+      }
+    });
+    const index = this._started.indexOf(player);
+    if (index === -1) {
+      return;
+    }
+    this._started.splice(index, 1);
+    if (player === this._activePlayer) {
+      this._setActivePlayer(this._started.length ? this._started[this._started.length - 1] : null);
+    }
+  }
+
+  /**
+   * Gives a ducked player its volume back.
+   */
+  private _restore(player: RegisteredPlayer) {
+    if (this._duckedBy.delete(player)) {
+      player.setDuckVolume(1);
+    }
+  }
+
+  private _setActivePlayer(player: RegisteredPlayer | null) {
+    const previous = this._activePlayer;
+    if (player === previous) {
+      return;
+    }
+    this._activePlayer = player;
+    this.notifyPropertyChange('activePlayer', player, previous);
+  }
+}
+
+/**
+ * The registry every `TNSPlayer` registers with.
+ */
+export const playerRegistry = new PlayerRegistry();
@@ -0,0 +1,119 @@
+import { AudioPlayerError, AudioPlayerErrorCode } from './errors';
+
+export enum PlayerState {
+  /**
+   * Nothing loaded yet.
+   */
+  Idle = 'idle',
+  /**
+   * An audio file is being prepared.
+   */
+  Loading = 'loading',
+  /**
+   * Prepared and not started yet.
+   */
+  Ready = 'ready',
+  Playing = 'playing',
+  Paused = 'paused',
+  /**
+   * Playback stalled, waiting for more data.
+   */
+  Buffering = 'buffering',
+  /**
+   * Reached the end of the audio file.
+   */
+  Completed = 'completed',
+  /**
+   * Loading or playback failed, load another file to carry on.
+   */
+  Error = 'error',
+  /**
+   * Released with `dispose()`, load another file to carry on.
+   */
+  Disposed = 'disposed'
+}
+
+export interface StateChangedEventData {
+  oldState: PlayerState;
+  newState: PlayerState;
+}
+
+/**
+ * States each state can move to. Loading a file and disposing are allowed from any state.
+ */
+const TRANSITIONS: { [state: string]: PlayerState[] } = {
+  [PlayerState.Idle]: [],
+  [PlayerState.Loading]: [PlayerState.Ready, PlayerState.Error],
+  [PlayerState.Ready]: [PlayerState.Playing, PlayerState.Error],
+  [PlayerState.Playing]: [PlayerState.Paused, PlayerState.Buffering, PlayerState.Completed, PlayerState.Error],
+  [PlayerState.Paused]: [PlayerState.Playing, PlayerState.Error],
+  [PlayerState.Buffering]: [PlayerState.Playing, PlayerState.Paused, PlayerState.Completed, PlayerState.Error],
+  [PlayerState.Completed]: [PlayerState.Playing, PlayerState.Error],
+  [PlayerState.Error]: [],
+  [PlayerState.Disposed]: []
+};
+
+/**
+ * States in which the audio file is prepared: it can be played, paused and sought.
+ */
+export const PREPARED_STATES = [PlayerState.Ready, PlayerState.Playing, PlayerState.Paused, PlayerState.Buffering, PlayerState.Completed];
+
+/**
+ * Holds the state of a player and rejects the transitions that make no sense,
+ * e.g. `Playing` while still `Loading` or after `Disposed`.
+ */
+export class PlayerStateMachine {
+  private _state = PlayerState.Idle;
+
+  constructor(private _onChange: (data: StateChangedEventData) => void) { }
+
+  get state(): PlayerState {
+    return this._state;
+  }
+
+  get isPrepared(): boolean {
+    return PREPARED_STATES.indexOf(this._state) !== -1;
+  }
+
+  is(...states: PlayerState[]): boolean {
+    return states.indexOf(this._state) !== -1;
+  }
+
+  canTransition(state: PlayerState): boolean {
+    return state === PlayerState.Loading || state === PlayerState.Disposed || TRANSITIONS[this._state].indexOf(state) !== -1;
+  }
+
+  /**
+   * Moves to another state and fires the change.
+   * @returns false, without changing anything, when already in that state or the transition is not allowed
+   */
+  transition(state: PlayerState): boolean {
+    if (state === this._state) {
+      return false;
+    }
+    if (!this.canTransition(state)) {
+      console.warn(`[Code warning SM01] Ignoring player state change from ${this._state} to ${state}`);
+      return false;
+    }
+    const oldState = this._state;
+    this._state = state;
+    try {
+      this._onChange({ oldState, newState: state });
+    } catch (error) {
+      console.error('[Code error SM02] Error notifying player state change:', error);
+    }
+    return true;
+  }
+
+  /**
+   * The error to reject a call with when the player is not in one of the given states, null when it is.
+   * @param action - The rejected call, used in the message.
+   */
+  check(action: string, states: PlayerState[]): AudioPlayerError | null {
+    if (states.indexOf(this._state) !== -1) {
+      return null;
+    }
+    const code = this.is(PlayerState.Idle, PlayerState.Loading) ? AudioPlayerErrorCode.NotPrepared : AudioPlayerErrorCode.InvalidState;
+    return new AudioPlayerError(code, `Cannot ${action} while the player is ${this._state}`, null, this._state);
+  }
+}
@@ -0,0 +1,488 @@
+import { EventData, Observable } from '@nativescript/core';
+import { TNSPlayerI } from './common';
+import { AudioPlayerErrorCode } from './errors';
+import { RemoteCommand, RemoteCommandEventData } from './media-session';
+import { AudioPlayerEventData, AudioPlayerEvents, AudioPlayerOptions } from './options';
+import { TransitionEventData } from './transitions';
+
+export enum PlaylistRepeatMode {
+  /**
+   * Stop after the last item of the queue.
+   */
+  None = 'none',
+  /**
+   * Replay the current item when it completes.
+   */
+  One = 'one',
+  /**
+   * Start again from the first item after the last one completes.
+   */
+  All = 'all'
+}
+
+export const PlaylistEvents = {
+  queueChanged: 'queueChanged',
+  currentItemChanged: 'currentItemChanged'
+};
+
+export interface PlaylistQueueChangedEventData extends EventData {
+  items: AudioPlayerOptions[];
+}
+
+export interface PlaylistCurrentItemChangedEventData extends EventData {
+  index: number;
+  item: AudioPlayerOptions | null;
+  previousIndex: number;
+}
+
+/**
+ * Every queued item gets its own entry so the same options object
+ * can be enqueued more than once.
+ */
+interface PlaylistEntry {
+  options: AudioPlayerOptions;
+}
+
+export class TNSPlaylist extends Observable {
+  private _player: TNSPlayerI;
+  private _entries: PlaylistEntry[] = [];
+  private _order: PlaylistEntry[] = []; // playback order, differs from _entries when shuffled
+  private _current: PlaylistEntry | null = null;
+  private _next: PlaylistEntry | null = null; // handed to the player for a transition
+  private _nextOptions: AudioPlayerOptions | null = null;
+  private _shuffle = false;
+  private _repeatMode = PlaylistRepeatMode.None;
+  private _autoAdvance = true;
+
+  constructor(player: TNSPlayerI, items?: AudioPlayerOptions[]) {
+    super();
+    try {
+      this._player = player;
+      if (player.events) {
+        // lock screen and headphone track buttons
+        player.events.on(AudioPlayerEvents.remoteCommand, this._onRemoteCommand, this);
+        player.events.on(AudioPlayerEvents.transitioned, this._onTransitioned, this);
+      }
+      if (items && items.length) {
+        this.enqueue(items);
+      }
+    } catch (error) {
+      console.error('[Code error PL01] Error creating TNSPlaylist:', error);
+      throw error;
+    }
+  }
+
+  get player(): TNSPlayerI {
+    return this._player;
+  }
+
+  get items(): AudioPlayerOptions[] {
+    return this._entries.map(entry => entry.options);
+  }
+
+  get length(): number {
+    return this._entries.length;
+  }
+
+  get currentIndex(): number {
+    return this._current ? this._entries.indexOf(this._current) : -1;
+  }
+
+  get currentItem(): AudioPlayerOptions | null {
+    return this._current ? this._current.options : null;
+  }
+
+  get shuffle(): boolean {
+    return this._shuffle;
+  }
+
+  set shuffle(value: boolean) {
+    if (this._shuffle === !!value) {
+      return;
+    }
+    this._shuffle = !!value;
+    this._rebuildOrder();
+    this._notifyQueueChanged();
+  }
+
+  get repeatMode(): PlaylistRepeatMode {
+    return this._repeatMode;
+  }
+
+  set repeatMode(value: PlaylistRepeatMode) {
+    this._repeatMode = value || PlaylistRepeatMode.None;
+    this._prepareNext();
+  }
+
+  /**
+   * Set to false to stay on the completed item instead of playing the next one.
+   */
+  get autoAdvance(): boolean {
+    return this._autoAdvance;
+  }
+
+  set autoAdvance(value: boolean) {
+    this._autoAdvance = !!value;
+    this._prepareNext();
+  }
+
+  get hasNext(): boolean {
+    return !!this._getNextEntry(1);
+  }
+
+  get hasPrevious(): boolean {
+    return !!this._getNextEntry(-1);
+  }
+
+  /**
+   * Adds one or more items to the end of the queue.
+   */
+  public enqueue(items: AudioPlayerOptions | AudioPlayerOptions[]): void {
+    try {
+      const entries = (Array.isArray(items) ? items : [items]).map(options => ({ options }));
+      this._entries.push(...entries);
+      if (this._shuffle) {
+        entries.forEach(entry => this._insertShuffled(entry));
+      } else {
+        this._order.push(...entries);
+      }
+      this._notifyQueueChanged();
+    } catch (error) {
+      console.error('[Code error PL02] Error enqueueing items:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Inserts an item at the given queue index.
+   */
+  public insert(index: number, item: AudioPlayerOptions): void {
+    try {
+      const entry: PlaylistEntry = { options: item };
+      const position = Math.max(0, Math.min(index, this._entries.length));
+      this._entries.splice(position, 0, entry);
+      if (this._shuffle) {
+        this._insertShuffled(entry);
+      } else {
+        this._order = this._entries.slice();
+      }
+      this._notifyQueueChanged();
+    } catch (error) {
+      console.error('[Code error PL03] Error inserting item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Removes the item at the given queue index. Removing the current item
+   * moves on to the next one, keeping the player state (playing or paused).
+   */
+  public remove(index: number): Promise<AudioPlayerOptions | null> {
+    try {
+      const entry = this._entries[index];
+      if (!entry) {
+        return Promise.resolve(null);
+      }
+      const isCurrent = entry === this._current;
+      const following = isCurrent ? this._getNextEntry(1) : null;
+      this._entries.splice(index, 1);
+      this._order.splice(this._order.indexOf(entry), 1);
+      this._notifyQueueChanged();
+      if (!isCurrent) {
+        return Promise.resolve(entry.options);
+      }
+      let next: Promise<any>;
+      if (following && following !== entry) {
+        next = this._load(following, this._player.isAudioPlaying());
+      } else {
+        this._current = null;
+        next = this._player.pause();
+        this._notifyCurrentItemChanged(index);
+      }
+      return next.then(() => entry.options);
+    } catch (error) {
+      console.error('[Code error PL04] Error removing item:', error);
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * Moves an item from one queue index to another.
+   */
+  public move(fromIndex: number, toIndex: number): void {
+    try {
+      if (!this._entries[fromIndex]) {
+        return;
+      }
+      const [entry] = this._entries.splice(fromIndex, 1);
+      const position = Math.max(0, Math.min(toIndex, this._entries.length));
+      this._entries.splice(position, 0, entry);
+      if (!this._shuffle) {
+        this._order = this._entries.slice();
+      }
+      this._notifyQueueChanged();
+    } catch (error) {
+      console.error('[Code error PL05] Error moving item:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Empties the queue and pauses the player.
+   */
+  public clear(): Promise<any> {
+    try {
+      const previousIndex = this.currentIndex;
+      const hadCurrent = !!this._current;
+      this._entries = [];
+      this._order = [];
+      this._current = null;
+      this._notifyQueueChanged();
+      if (hadCurrent) {
+        this._notifyCurrentItemChanged(previousIndex);
+        return this._player.pause();
+      }
+      return Promise.resolve(true);
+    } catch (error) {
+      console.error('[Code error PL06] Error clearing queue:', error);
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * Loads the item at the given queue index.
+   * @param autoPlay [boolean] - Start playing once loaded, defaults to true.
+   */
+  public playAt(index: number, autoPlay: boolean = true): Promise<any> {
+    const entry = this._entries[index];
+    if (!entry) {
+      return Promise.reject(new Error(`[Code error PL07] No playlist item at index ${index}`));
+    }
+    return this._load(entry, autoPlay);
+  }
+
+  /**
+   * Loads the next item in playback order. Resolves false when there is none.
+   */
+  public next(): Promise<boolean> {
+    const entry = this._getNextEntry(1, true);
+    if (!entry) {
+      return Promise.resolve(false);
+    }
+    return this._load(entry, true).then(() => true);
+  }
+
+  /**
+   * Loads the previous item in playback order. Resolves false when there is none.
+   */
+  public previous(): Promise<boolean> {
+    const entry = this._getNextEntry(-1, true);
+    if (!entry) {
+      return Promise.resolve(false);
+    }
+    return this._load(entry, true).then(() => true);
+  }
+
+  /**
+   * Empties the queue and releases the wrapped player.
+   */
+  public dispose(): Promise<any> {
+    if (this._player.events) {
+      this._player.events.off(AudioPlayerEvents.remoteCommand, this._onRemoteCommand, this);
+      this._player.events.off(AudioPlayerEvents.transitioned, this._onTransitioned, this);
+    }
+    this._entries = [];
+    this._order = [];
+    this._current = null;
+    this._next = null;
+    this._nextOptions = null;
+    return this._player.dispose();
+  }
+
+  private _load(entry: PlaylistEntry, autoPlay: boolean): Promise<any> {
+    try {
+      const previousIndex = this.currentIndex;
+      this._current = entry;
+      // loading drops the next item of the player
+      this._next = null;
+      this._nextOptions = null;
+      this._notifyCurrentItemChanged(previousIndex);
+      return this._player.playFromUrl(this._playerOptions(entry, autoPlay)).then(result => {
+        this._prepareNext();
+        return result;
+      });
+    } catch (error) {
+      console.error('[Code error PL08] Error loading playlist item:', error);
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * A copy of the queued options, so the player never mutates them (it sets autoPlay on them).
+   */
+  private _playerOptions(entry: PlaylistEntry, autoPlay: boolean): AudioPlayerOptions {
+    return Object.assign({}, entry.options, {
+      autoPlay,
+      completeCallback: (args) => {
+        if (entry.options.completeCallback) {
+          entry.options.completeCallback(args);
+        }
+        this._onItemComplete(entry);
+      }
+    });
+  }
+
+  /**
+   * Hands the item after the current one to the player, so it can move on to it without a gap
+   * or with a crossfade. None when the playlist would not move on by itself.
+   */
+  private _prepareNext() {
+    if (!this._player.setNextItem) {
+      return;
+    }
+    const hasCurrent = this._current && this._order.indexOf(this._current) !== -1;
+    const next = hasCurrent && this._autoAdvance && this._repeatMode !== PlaylistRepeatMode.One ? this._getNextEntry(1) : null;
+    if (next === this._next) {
+      return;
+    }
+    this._next = next;
+    this._nextOptions = next ? this._playerOptions(next, true) : null;
+    this._player.setNextItem(this._nextOptions).catch(error => {
+      // replaced by a later call
+      if (error.code !== AudioPlayerErrorCode.InvalidState) {
+        console.error('[Code error PL11] Error preparing the next item:', error);
+      }
+    });
+  }
+
+  /**
+   * The player moved on to the next item by itself.
+   */
+  private _onTransitioned(args: AudioPlayerEventData<TransitionEventData>) {
+    try {
+      if (!this._next || args.data.item !== this._nextOptions) {
+        return;
+      }
+      const previousIndex = this.currentIndex;
+      this._current = this._next;
+      this._next = null;
+      this._nextOptions = null;
+      this._notifyCurrentItemChanged(previousIndex);
+      this._prepareNext();
+    } catch (error) {
+      console.error('[Code error PL12] Error following transition:', error);
+    }
+  }
+
+  private _onItemComplete(entry: PlaylistEntry) {
+    try {
+      // a looping item keeps playing on its own
+      if (entry !== this._current || entry.options.loop) {
+        return;
+      }
+      if (this._repeatMode === PlaylistRepeatMode.One) {
+        this._player.seekTo(0)
+          .then(() => this._player.play())
+          .catch(error => console.error('[Code error PL14] Error repeating the item:', error));
+        return;
+      }
+      if (!this._autoAdvance) {
+        return;
+      }
+      const next = this._getNextEntry(1, true);
+      if (next) {
+        this._load(next, true).catch(error => {
+          // replaced by a later load
+          if (error.code !== AudioPlayerErrorCode.InvalidState) {
+            console.error('[Code error PL13] Error loading the next item:', error);
+          }
+        });
+      }
+    } catch (error) {
+      console.error('[Code error PL09] Error advancing playlist:', error);
+    }
+  }
+
+  private _onRemoteCommand(args: AudioPlayerEventData<RemoteCommandEventData>) {
+    try {
+      const onError = (error: any) => console.error('[Code error PL15] Error moving to another item:', error);
+      if (args.data.command === RemoteCommand.NextTrack) {
+        this.next().catch(onError);
+      } else if (args.data.command === RemoteCommand.PreviousTrack) {
+        this.previous().catch(onError);
+      }
+    } catch (error) {
+      console.error('[Code error PL10] Error handling remote command:', error);
+    }
+  }
+
+  /**
+   * Finds the entry `step` positions away from the current one in playback order,
+   * wrapping around when repeating the whole queue.
+   * @param reshuffle - start a new shuffled round when wrapping
+   */
+  private _getNextEntry(step: number, reshuffle: boolean = false): PlaylistEntry | null {
+    if (!this._order.length) {
+      return null;
+    }
+    if (!this._current) {
+      return step > 0 ? this._order[0] : null;
+    }
+    const position = this._order.indexOf(this._current) + step;
+    if (position >= 0 && position < this._order.length) {
+      return this._order[position];
+    }
+    if (this._repeatMode !== PlaylistRepeatMode.All) {
+      return null;
+    }
+    if (reshuffle && this._shuffle && step > 0) {
+      this._order = this._shuffled(this._entries);
+      return this._order[0];
+    }
+    return this._order[(position + this._order.length) % this._order.length];
+  }
+
+  private _rebuildOrder() {
+    if (!this._shuffle) {
+      this._order = this._entries.slice();
+      return;
+    }
+    // keep the current item first so shuffling never interrupts playback
+    const rest = this._entries.filter(entry => entry !== this._current);
+    this._order = this._current ? [this._current, ...this._shuffled(rest)] : this._shuffled(rest);
+  }
+
+  private _insertShuffled(entry: PlaylistEntry) {
+    const start = this._current ? this._order.indexOf(this._current) + 1 : 0;
+    const position = start + Math.floor(Math.random() * (this._order.length - start + 1));
+    this._order.splice(position, 0, entry);
+  }
+
+  private _shuffled(entries: PlaylistEntry[]): PlaylistEntry[] {
+    const result = entries.slice();
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  private _notifyQueueChanged() {
+    this.notify(<PlaylistQueueChangedEventData>{
+      eventName: PlaylistEvents.queueChanged,
+      object: this,
+      items: this.items
+    });
+    this._prepareNext();
+  }
+
+  private _notifyCurrentItemChanged(previousIndex: number) {
+    this.notify(<PlaylistCurrentItemChangedEventData>{
+      eventName: PlaylistEvents.currentItemChanged,
+      object: this,
+      index: this.currentIndex,
+      item: this.currentItem,
+      previousIndex
+    });
+  }
+}
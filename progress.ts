@@ -0,0 +1,197 @@
+import { ApplicationSettings } from '@nativescript/core';
+
+/**
+ * Key/value storage used by `PlaybackProgressStore`.
+ */
+export interface PlaybackProgressStorage {
+  getItem(key: string): string | undefined;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /**
+   * All the keys written through this storage.
+   */
+  keys(): string[];
+}
+
+/**
+ * Default storage, backed by NativeScript ApplicationSettings under a key prefix.
+ */
+export class ApplicationSettingsProgressStorage implements PlaybackProgressStorage {
+  constructor(private _prefix: string = 'podcast-audio.progress.') { }
+
+  getItem(key: string): string | undefined {
+    return ApplicationSettings.getString(this._prefix + key);
+  }
+
+  setItem(key: string, value: string): void {
+    ApplicationSettings.setString(this._prefix + key, value);
+  }
+
+  removeItem(key: string): void {
+    ApplicationSettings.remove(this._prefix + key);
+  }
+
+  keys(): string[] {
+    return ApplicationSettings.getAllKeys()
+      .filter(key => key.indexOf(this._prefix) === 0)
+      .map(key => key.slice(this._prefix.length));
+  }
+}
+
+export interface PlaybackProgress {
+  /**
+   * The episode id, or the audio file url when the episode has no id.
+   */
+  key: string;
+  /**
+   * Saved position in seconds.
+   */
+  position: number;
+  /**
+   * Duration in seconds, 0 when unknown.
+   */
+  duration: number;
+  finished: boolean;
+  /**
+   * Time of the last update, in milliseconds since the epoch.
+   */
+  updatedAt: number;
+}
+
+export interface PlaybackProgressStoreOptions {
+  /**
+   * Where the positions are kept, defaults to ApplicationSettings.
+   */
+  storage?: PlaybackProgressStorage;
+  /**
+   * Milliseconds between two saves while playing. Defaults to 5000.
+   */
+  saveInterval?: number;
+  /**
+   * Seconds before the end of an episode after which it is treated as finished. Defaults to 30.
+   */
+  finishedThreshold?: number;
+}
+
+/**
+ * Remembers the playback position of each episode so playback can pick up where it was left.
+ * Give it to a player with `setProgressStore` to opt in.
+ */
+export class PlaybackProgressStore {
+  readonly saveInterval: number;
+  readonly finishedThreshold: number;
+  private _storage: PlaybackProgressStorage;
+
+  constructor(options?: PlaybackProgressStoreOptions) {
+    options = options || {};
+    this._storage = options.storage || new ApplicationSettingsProgressStorage();
+    this.saveInterval = options.saveInterval > 0 ? options.saveInterval : 5000;
+    this.finishedThreshold = options.finishedThreshold >= 0 ? options.finishedThreshold : 30;
+  }
+
+  get(key: string): PlaybackProgress | null {
+    try {
+      const value = key ? this._storage.getItem(key) : undefined;
+      return value ? Object.assign(JSON.parse(value), { key }) : null;
+    } catch (error) {
+      console.error('[Code error PS01] Error reading playback progress:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The position to resume the episode at, 0 when it was never played or is finished.
+   */
+  getResumePosition(key: string): number {
+    const progress = this.get(key);
+    return progress && !progress.finished ? progress.position : 0;
+  }
+
+  save(key: string, position: number, duration: number): PlaybackProgress {
+    try {
+      const finished = duration > 0 && position >= duration - this.finishedThreshold;
+      const progress: PlaybackProgress = {
+        key,
+        position: Math.max(0, position || 0),
+        duration: duration > 0 ? duration : 0,
+        finished,
+        updatedAt: Date.now()
+      };
+      this._write(progress);
+      return progress;
+    } catch (error) {
+      console.error('[Code error PS02] Error saving playback progress:', error);
+      throw error;
+    }
+  }
+
+  markFinished(key: string, duration?: number): PlaybackProgress {
+    const previous = this.get(key);
+    const length = duration > 0 ? duration : previous ? previous.duration : 0;
+    const progress: PlaybackProgress = { key, position: length, duration: length, finished: true, updatedAt: Date.now() };
+    this._write(progress);
+    return progress;
+  }
+
+  /**
+   * All saved positions, most recently updated first.
+   */
+  list(): PlaybackProgress[] {
+    return this._storage
+      .keys()
+      .map(key => this.get(key))
+      .filter(progress => !!progress)
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Forgets one episode, or every episode when no key is given.
+   */
+  clear(key?: string): void {
+    try {
+      const keys = key ? [key] : this._storage.keys();
+      keys.forEach(k => this._storage.removeItem(k));
+    } catch (error) {
+      console.error('[Code error PS03] Error clearing playback progress:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Serializes all saved positions, e.g. for a backup or a sync service.
+   */
+  export(): string {
+    return JSON.stringify(this.list());
+  }
+
+  /**
+   * Restores positions produced by `export()`. Entries older than the saved ones are ignored.
+   * @returns the number of entries written
+   */
+  import(json: string): number {
+    try {
+      const entries: PlaybackProgress[] = JSON.parse(json);
+      let count = 0;
+      (Array.isArray(entries) ? entries : []).forEach(entry => {
+        if (!entry || !entry.key || typeof entry.position !== 'number') {
+          return;
+        }
+        const current = this.get(entry.key);
+        if (current && current.updatedAt >= entry.updatedAt) {
+          return;
+        }
+        this._write(entry);
+        count++;
+      });
+      return count;
+    } catch (error) {
+      console.error('[Code error PS04] Error importing playback progress:', error);
+      throw error;
+    }
+  }
+
+  private _write(progress: PlaybackProgress) {
+    const { position, duration, finished, updatedAt } = progress;
+    this._storage.setItem(progress.key, JSON.stringify({ position, duration, finished, updatedAt }));
+  }
+}
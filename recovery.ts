@@ -0,0 +1,248 @@
+import { Observable } from '@nativescript/core';
+import { AudioPlayerError, AudioPlayerErrorCategory, AudioPlayerErrorCode } from './errors';
+import { AudioPlayerEventData, AudioPlayerEvents, SeekEventData } from './options';
+import { PlayerState, PREPARED_STATES } from './player-state';
+
+export interface StreamRecoveryOptions {
+  /**
+   * Attempts to re-prepare the stream before giving up. Defaults to 5.
+   */
+  maxRetries?: number;
+  /**
+   * Delay before the first attempt in milliseconds, doubled on each following attempt. Defaults to 1000.
+   */
+  retryDelay?: number;
+  /**
+   * Longest delay between two attempts in milliseconds. Defaults to 30000.
+   */
+  maxRetryDelay?: number;
+}
+
+export interface RecoveringEventData {
+  /**
+   * The attempt about to be made, from 1 to `maxRetries`.
+   */
+  attempt: number;
+  maxRetries: number;
+  /**
+   * Milliseconds before the attempt.
+   */
+  delay: number;
+  /**
+   * Position in seconds playback picks up from.
+   */
+  position: number;
+  error: AudioPlayerError;
+}
+
+export interface RecoveredEventData {
+  attempts: number;
+  position: number;
+}
+
+export interface GaveUpEventData {
+  attempts: number;
+  /**
+   * The error of the last attempt.
+   */
+  error: AudioPlayerError;
+}
+
+/**
+ * What stream recovery needs from a player.
+ */
+export interface StreamRecoveryHost {
+  readonly events: Observable;
+  readonly state: PlayerState;
+  readonly currentTime: number;
+  readonly duration: number;
+}
+
+const defaultOptions: StreamRecoveryOptions = {
+  maxRetries: 5,
+  retryDelay: 1000,
+  maxRetryDelay: 30000
+};
+
+const POSITION_INTERVAL = 1000;
+
+/**
+ * Whether re-preparing the same source may get past an error: network failures and the unspecified
+ * playback failures a dropped connection shows up as, not decode or permission errors.
+ */
+export function isRecoverableError(error: AudioPlayerError): boolean {
+  return error.category === AudioPlayerErrorCategory.Network || error.code === AudioPlayerErrorCode.PlaybackFailed;
+}
+
+/**
+ * Re-prepares a stream that broke off, with an exponential backoff between the attempts, and
+ * picks up at the last known position. The player reads `position` and `resume` once the stream
+ * is prepared again, `seekTo()`, `pause()` and `play()` made in the meantime update them.
+ */
+export class StreamRecovery {
+  /**
+   * Position in seconds to seek back to once recovered.
+   */
+  position = 0;
+  /**
+   * Duration in seconds of the item, known from before it broke off.
+   */
+  duration = 0;
+  /**
+   * Whether to start playing once recovered.
+   */
+  resume = false;
+  private _active = false;
+  private _attempts = 0;
+  private _attempt = 0;
+  private _options: StreamRecoveryOptions = defaultOptions;
+  private _timer: any;
+  private _positionTimer: any;
+  private _lastPosition = 0;
+  private _lastDuration = 0;
+
+  /**
+   * @param _reload - Prepares the same source again, rejects when that failed.
+   * @param _onGaveUp - Called with the last error once the attempts are used up, the player then fails as usual.
+   */
+  constructor(
+    private _host: StreamRecoveryHost,
+    private _reload: () => Promise<any>,
+    private _onRecovering: (data: RecoveringEventData) => void,
+    private _onRecovered: (data: RecoveredEventData) => void,
+    private _onGaveUp: (data: GaveUpEventData) => void
+  ) {
+    // the position cannot be read from a player that failed, keep the last one read while playing
+    this._host.events.on(AudioPlayerEvents.stateChanged, this._onStateChanged, this);
+    this._host.events.on(AudioPlayerEvents.seek, this._onSeek, this);
+  }
+
+  get active(): boolean {
+    return this._active;
+  }
+
+  /**
+   * Whether `recover()` takes over an error, so the player can get ready for it first.
+   * @param options - The `recovery` of the item, false turns recovery off.
+   */
+  canRecover(error: AudioPlayerError, options: StreamRecoveryOptions | false): boolean {
+    return !this._active && options !== false && isRecoverableError(error);
+  }
+
+  /**
+   * Starts recovering from a playback error of the current stream.
+   * @param wasPlaying - Whether to resume once recovered.
+   * @returns false when the error is left to the player, see `canRecover()`
+   */
+  recover(error: AudioPlayerError, options: StreamRecoveryOptions | false, wasPlaying: boolean): boolean {
+    if (!this.canRecover(error, options)) {
+      return false;
+    }
+    this._options = Object.assign({}, defaultOptions, options);
+    this._active = true;
+    this._attempts = 0;
+    this._clearPositionTimer();
+    this.position = this._lastPosition;
+    this.duration = this._lastDuration;
+    this.resume = wasPlaying;
+    this._schedule(error);
+    return true;
+  }
+
+  /**
+   * Stops recovering, e.g. when another file is loaded or the player is disposed.
+   */
+  cancel() {
+    this._active = false;
+    this._attempt++;
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  private _schedule(error: AudioPlayerError) {
+    if (this._attempts >= this._options.maxRetries || !isRecoverableError(error)) {
+      const attempts = this._attempts;
+      this.cancel();
+      this._lastPosition = this.position;
+      this._notify(this._onGaveUp, { attempts, error });
+      return;
+    }
+    this._attempts++;
+    const delay = Math.min(this._options.maxRetryDelay, this._options.retryDelay * Math.pow(2, this._attempts - 1));
+    console.warn(`[Code warning RC01] Playback failed, recovery attempt ${this._attempts} in ${delay}ms:`, error.message);
+    this._notify(this._onRecovering, { attempt: this._attempts, maxRetries: this._options.maxRetries, delay, position: this.position, error });
+    const attempt = ++this._attempt;
+    this._timer = setTimeout(() => {
+      this._timer = undefined;
+      this._reload().then(() => {
+        if (attempt !== this._attempt) {
+          return;
+        }
+        const attempts = this._attempts;
+        this._active = false;
+        this._lastPosition = this.position;
+        this._notify(this._onRecovered, { attempts, position: this.position });
+        if (this._host.state === PlayerState.Playing) {
+          this._startPositionTimer();
+        }
+      }, (reloadError: any) => {
+        if (attempt === this._attempt) {
+          this._schedule(AudioPlayerError.from(reloadError, AudioPlayerErrorCode.NetworkFailure));
+        }
+      });
+    }, delay);
+  }
+
+  private _onStateChanged() {
+    this._clearPositionTimer();
+    if (this._active) {
+      return;
+    }
+    const state = this._host.state;
+    if (state === PlayerState.Loading) {
+      this._lastPosition = 0;
+      this._lastDuration = 0;
+    } else if (state === PlayerState.Playing) {
+      this._startPositionTimer();
+    } else if (PREPARED_STATES.indexOf(state) !== -1) {
+      this._readPosition();
+    }
+  }
+
+  private _onSeek(args: AudioPlayerEventData<SeekEventData>) {
+    if (!this._active) {
+      this._lastPosition = args.data.time;
+    }
+  }
+
+  private _readPosition() {
+    try {
+      this._lastPosition = this._host.currentTime;
+      this._lastDuration = this._host.duration;
+    } catch (error) {
+      console.error('[Code error RC02] Error reading the playback position:', error);
+    }
+  }
+
+  private _startPositionTimer() {
+    this._clearPositionTimer();
+    this._positionTimer = setInterval(() => this._readPosition(), POSITION_INTERVAL);
+  }
+
+  private _clearPositionTimer() {
+    if (this._positionTimer) {
+      clearInterval(this._positionTimer);
+      this._positionTimer = undefined;
+    }
+  }
+
+  private _notify<T>(callback: (data: T) => void, data: T) {
+    try {
+      callback(data);
+    } catch (error) {
+      console.error('[Code error RC03] Error notifying stream recovery:', error);
+    }
+  }
+}
@@ -1,2 +1,3 @@
 /// <reference path="./node_modules/@nativescript/types-ios/index.d.ts" />
+/// <reference path="./node_modules/@nativescript/types-ios/lib/ios/objc-x86_64/objc!CoreMedia.d.ts" />
 /// <reference path="./node_modules/@nativescript/types-android/lib/android-34.d.ts" />
\ No newline at end of file
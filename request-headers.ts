@@ -0,0 +1,42 @@
+import { Http } from '@nativescript/core';
+import { AudioPlayerOptions } from './options';
+
+/**
+ * Returns the token sent as `Authorization: Bearer <token>` with the requests for an audio file.
+ * @param refresh - True once the server turned the last token down with 401, a new token is needed then.
+ */
+export type AuthTokenProvider = (refresh: boolean) => Promise<string>;
+
+export type RequestHeaders = { [name: string]: string };
+
+/**
+ * Headers of the requests for a remote audio file: the `headers` option, the `userAgent` and
+ * the token of the `tokenProvider`, which win over the same headers in `headers`.
+ * @param refresh - Asks the token provider for a new token.
+ */
+export function audioRequestHeaders(options: AudioPlayerOptions, refresh: boolean = false): Promise<RequestHeaders> {
+  const headers: RequestHeaders = Object.assign({}, options.headers || {});
+  if (options.userAgent) {
+    headers['User-Agent'] = options.userAgent;
+  }
+  if (!options.tokenProvider) {
+    return Promise.resolve(headers);
+  }
+  return Promise.resolve()
+    .then(() => options.tokenProvider(refresh))
+    .then(token => {
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+      return headers;
+    });
+}
+
+/**
+ * Whether the server turns the headers down with 401. The native players do not report the
+ * HTTP status of a failed stream, so it is asked again with a HEAD request.
+ */
+export function isUnauthorized(url: string, headers: RequestHeaders): Promise<boolean> {
+  return Http.request({ url, method: 'HEAD', headers })
+    .then(response => response.statusCode === 401, () => false);
+}
@@ -0,0 +1,158 @@
+import { AudioPlayerError, AudioPlayerErrorCode } from './errors';
+import { PlayerState } from './player-state';
+
+export const DEFAULT_SKIP_FORWARD_INTERVAL = 30;
+export const DEFAULT_SKIP_BACKWARD_INTERVAL = 15;
+
+export interface SkippedEventData {
+  /**
+   * Position before the skip, in seconds.
+   */
+  from: number;
+  /**
+   * Position after the skip, in seconds, within `[0, duration]`.
+   */
+  to: number;
+  /**
+   * Seconds asked for, negative when skipping backward.
+   */
+  offset: number;
+}
+
+/**
+ * What skipping needs from a player.
+ */
+export interface SkipHost {
+  readonly state: PlayerState;
+  readonly currentTime: number;
+  readonly duration: number;
+  seekTo(time: number): Promise<any>;
+}
+
+interface PendingSkip {
+  resolve: (time: number) => void;
+  reject: (error: AudioPlayerError) => void;
+}
+
+/**
+ * Moves the playback position by a number of seconds. Skips asked for while the file is still
+ * loading add up and are applied once it is prepared, after the saved position was restored.
+ */
+export class SkipHandler {
+  private _forwardInterval = DEFAULT_SKIP_FORWARD_INTERVAL;
+  private _backwardInterval = DEFAULT_SKIP_BACKWARD_INTERVAL;
+  private _pendingOffset = 0;
+  private _pending: PendingSkip[] = [];
+
+  constructor(private _host: SkipHost, private _onSkipped: (data: SkippedEventData) => void) { }
+
+  /**
+   * Seconds skipped by `skipForward()` without argument.
+   */
+  get forwardInterval(): number {
+    return this._forwardInterval;
+  }
+
+  set forwardInterval(value: number) {
+    if (value > 0) {
+      this._forwardInterval = value;
+    }
+  }
+
+  /**
+   * Seconds skipped by `skipBackward()` without argument.
+   */
+  get backwardInterval(): number {
+    return this._backwardInterval;
+  }
+
+  set backwardInterval(value: number) {
+    if (value > 0) {
+      this._backwardInterval = value;
+    }
+  }
+
+  /**
+   * @param seconds - Defaults to `forwardInterval`.
+   */
+  forward(seconds?: number): Promise<number> {
+    return this._skipBy(seconds, this._forwardInterval, 1);
+  }
+
+  /**
+   * @param seconds - Defaults to `backwardInterval`.
+   */
+  backward(seconds?: number): Promise<number> {
+    return this._skipBy(seconds, this._backwardInterval, -1);
+  }
+
+  /**
+   * @param offset - Seconds to move, negative to go back.
+   * @returns the new position in seconds
+   */
+  skip(offset: number): Promise<number> {
+    if (typeof offset !== 'number' || !isFinite(offset)) {
+      return Promise.reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `Cannot skip ${offset} seconds`));
+    }
+    if (this._host.state === PlayerState.Loading) {
+      this._pendingOffset += offset;
+      return new Promise<number>((resolve, reject) => this._pending.push({ resolve, reject }));
+    }
+    return this._apply(offset);
+  }
+
+  /**
+   * Called by the player once the file is prepared.
+   */
+  onPrepared() {
+    if (!this._pending.length) {
+      return;
+    }
+    const pending = this._pending;
+    const offset = this._pendingOffset;
+    this._pending = [];
+    this._pendingOffset = 0;
+    this._apply(offset).then(
+      time => pending.forEach(skip => skip.resolve(time)),
+      error => pending.forEach(skip => skip.reject(error))
+    );
+  }
+
+  /**
+   * Drops the skips waiting for the file to be prepared, e.g. when another file is loaded or loading failed.
+   */
+  cancel(reason: string) {
+    const pending = this._pending;
+    this._pending = [];
+    this._pendingOffset = 0;
+    pending.forEach(skip => skip.reject(new AudioPlayerError(AudioPlayerErrorCode.NotPrepared, reason)));
+  }
+
+  private _skipBy(seconds: number | undefined, interval: number, direction: number): Promise<number> {
+    if (seconds === undefined || seconds === null) {
+      seconds = interval;
+    }
+    if (!(seconds > 0)) {
+      return Promise.reject(new AudioPlayerError(AudioPlayerErrorCode.InvalidArgument, `Cannot skip ${seconds} seconds, use a positive number`));
+    }
+    return this.skip(direction * seconds);
+  }
+
+  private _apply(offset: number): Promise<number> {
+    try {
+      const from = this._host.currentTime;
+      const duration = this._host.duration;
+      let to = Math.max(0, from + offset);
+      if (duration > 0) {
+        to = Math.min(to, duration);
+      }
+      return this._host.seekTo(to).then(() => {
+        this._onSkipped({ from, to, offset });
+        return to;
+      });
+    } catch (error) {
+      console.error('[Code error SK01] Error skipping:', error);
+      return Promise.reject(AudioPlayerError.from(error, AudioPlayerErrorCode.PlaybackFailed));
+    }
+  }
+}
@@ -0,0 +1,255 @@
+import { AudioChapter } from './chapters';
+import { VolumeFader } from './volume-fade';
+
+export enum SleepTimerMode {
+  /**
+   * Stop after a number of minutes of playback.
+   */
+  Duration = 'duration',
+  /**
+   * Stop when the current episode ends.
+   */
+  EndOfEpisode = 'endOfEpisode',
+  /**
+   * Stop when the current chapter ends, or the episode when it has no chapters.
+   */
+  EndOfChapter = 'endOfChapter'
+}
+
+export interface SleepTimerOptions {
+  /**
+   * Defaults to `SleepTimerMode.Duration`.
+   */
+  mode?: SleepTimerMode;
+  /**
+   * Minutes of playback before stopping, for `SleepTimerMode.Duration`.
+   */
+  minutes?: number;
+  /**
+   * Seconds over which the volume fades out before stopping. 0 (default) stops without fading.
+   */
+  fadeOutDuration?: number;
+}
+
+export interface SleepTimerEventData {
+  mode: SleepTimerMode;
+  /**
+   * Seconds left before the timer fires, at the current playback speed.
+   */
+  remaining: number;
+}
+
+/**
+ * What the sleep timer needs from a player.
+ */
+export interface SleepTimerHost {
+  readonly currentTime: number;
+  readonly duration: number;
+  readonly currentChapter: AudioChapter | null;
+  readonly chapters: AudioChapter[];
+  isAudioPlaying(): boolean;
+  pause(): Promise<any>;
+}
+
+const TICK_INTERVAL = 1000;
+const FADE_INTERVAL = 100;
+
+/**
+ * Pauses the player after a while. The countdown only runs while audio plays,
+ * so the timer survives pause/play cycles. The fade-out goes through the factor of `_fader`,
+ * which the player multiplies with its volume like the fades of play, pause and seek.
+ */
+export class SleepTimer {
+  private _mode: SleepTimerMode;
+  private _remaining = 0; // seconds left, Duration mode only
+  private _fadeOutDuration = 0;
+  private _timer: any;
+  private _lastTick = 0;
+  private _lastNotified: number;
+
+  constructor(
+    private _host: SleepTimerHost,
+    private _fader: VolumeFader,
+    private _getRate: () => number,
+    private _onTick: (data: SleepTimerEventData) => void,
+    private _onFired: (data: SleepTimerEventData) => void
+  ) { }
+
+  get active(): boolean {
+    return !!this._mode;
+  }
+
+  get mode(): SleepTimerMode | null {
+    return this._mode || null;
+  }
+
+  /**
+   * Seconds left before the timer fires, -1 when no timer is set.
+   */
+  get remaining(): number {
+    return this._mode ? Math.max(0, this._computeRemaining()) : -1;
+  }
+
+  start(options: SleepTimerOptions) {
+    try {
+      this.cancel();
+      options = options || {};
+      this._mode = options.mode || SleepTimerMode.Duration;
+      this._fadeOutDuration = Math.max(0, options.fadeOutDuration || 0);
+      if (this._mode === SleepTimerMode.Duration) {
+        if (!(options.minutes > 0)) {
+          this._mode = undefined;
+          throw new Error('[Code error ST01] Sleep timer needs a number of minutes');
+        }
+        this._remaining = options.minutes * 60;
+      }
+      this._lastTick = Date.now();
+      this._lastNotified = undefined;
+      this._tick();
+    } catch (error) {
+      console.error('[Code error ST02] Error starting sleep timer:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Adds minutes to a running timer. An end of episode/chapter timer becomes a duration timer
+   * counting from what was left.
+   */
+  extend(minutes: number) {
+    if (!this._mode || !(minutes > 0)) {
+      return;
+    }
+    if (this._mode !== SleepTimerMode.Duration) {
+      this._remaining = Math.max(0, this._computeRemaining());
+      this._lastTick = Date.now();
+      this._mode = SleepTimerMode.Duration;
+    }
+    this._remaining += minutes * 60;
+    this._restoreFade();
+    this._tick();
+  }
+
+  cancel() {
+    this._clearTimer();
+    this._restoreFade();
+    this._mode = undefined;
+    this._remaining = 0;
+  }
+
+  /**
+   * Whether the timer stops playback once the current episode ends.
+   */
+  get endsWithEpisode(): boolean {
+    return this._mode === SleepTimerMode.EndOfEpisode || (this._mode === SleepTimerMode.EndOfChapter && !this._host.chapters.length);
+  }
+
+  /**
+   * Called by the player when the episode reached its end, before the completion callbacks.
+   */
+  onPlaybackCompleted() {
+    if (this.endsWithEpisode) {
+      this._fire();
+    }
+  }
+
+  private _tick() {
+    this._clearTimer();
+    if (!this._mode) {
+      return;
+    }
+    const now = Date.now();
+    const playing = this._host.isAudioPlaying();
+    if (this._mode === SleepTimerMode.Duration && playing) {
+      this._remaining -= (now - this._lastTick) / 1000;
+    }
+    this._lastTick = now;
+
+    const remaining = this._computeRemaining();
+    if (playing && remaining <= 0.25) {
+      this._fire();
+      return;
+    }
+    if (playing) {
+      this._applyFade(remaining);
+    }
+    const rounded = Math.ceil(Math.max(0, remaining));
+    if (rounded !== this._lastNotified) {
+      this._lastNotified = rounded;
+      this._onTick({ mode: this._mode, remaining: rounded });
+    }
+
+    // tick faster while fading and right before the end so we stop on time
+    let delay = TICK_INTERVAL;
+    if (playing && this._fadeOutDuration > 0 && remaining <= this._fadeOutDuration + 1) {
+      delay = FADE_INTERVAL;
+    }
+    if (playing && remaining * 1000 < delay + 250) {
+      delay = Math.max(20, remaining * 1000 - 250);
+    }
+    this._timer = setTimeout(() => this._tick(), delay);
+  }
+
+  /**
+   * Seconds left in wall clock time: playback time left is shortened by the playback speed.
+   */
+  private _computeRemaining(): number {
+    const rate = this._getRate() || 1;
+    switch (this._mode) {
+      case SleepTimerMode.Duration:
+        return this._remaining;
+      case SleepTimerMode.EndOfChapter: {
+        const end = this._chapterEnd();
+        return ((end !== undefined ? end : this._host.duration) - this._host.currentTime) / rate;
+      }
+      case SleepTimerMode.EndOfEpisode:
+        return (this._host.duration - this._host.currentTime) / rate;
+      default:
+        return 0;
+    }
+  }
+
+  private _chapterEnd(): number | undefined {
+    const chapter = this._host.currentChapter;
+    if (!chapter) {
+      return undefined;
+    }
+    if (chapter.endTime !== undefined) {
+      return chapter.endTime;
+    }
+    const chapters = this._host.chapters;
+    const next = chapters.find(c => c.startTime > chapter.startTime);
+    return next ? next.startTime : this._host.duration;
+  }
+
+  private _applyFade(remaining: number) {
+    if (!this._fadeOutDuration || remaining > this._fadeOutDuration) {
+      this._restoreFade();
+      return;
+    }
+    this._fader.cancel(Math.max(0, remaining / this._fadeOutDuration));
+  }
+
+  private _restoreFade() {
+    if (this._fader.factor !== 1) {
+      this._fader.cancel();
+    }
+  }
+
+  private _fire() {
+    const mode = this._mode;
+    this._clearTimer();
+    this._mode = undefined;
+    const restore = () => this._restoreFade();
+    const paused = this._host.isAudioPlaying() ? this._host.pause() : Promise.resolve();
+    paused.then(restore, restore);
+    this._onFired({ mode, remaining: 0 });
+  }
+
+  private _clearTimer() {
+    if (this._timer) {
+      clearTimeout(this._timer);
+      this._timer = undefined;
+    }
+  }
+}
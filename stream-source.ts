@@ -0,0 +1,158 @@
+import { Http } from '@nativescript/core';
+import { AudioPlayerError, AudioPlayerErrorCode } from './errors';
+import { AudioPlayerOptions } from './options';
+import { audioRequestHeaders, RequestHeaders } from './request-headers';
+
+export enum StreamSourceType {
+  /**
+   * An audio file or an endless audio stream, e.g. an Icecast radio.
+   */
+  Audio = 'audio',
+  /**
+   * An HLS playlist (`.m3u8`), played by the native players.
+   */
+  Hls = 'hls',
+  /**
+   * An m3u or pls playlist, which only lists the streams to play.
+   */
+  Playlist = 'playlist'
+}
+
+/**
+ * A remote source ready for the native players.
+ */
+export interface StreamSource {
+  /**
+   * The url to play: the source url, or the stream picked from its playlist.
+   */
+  url: string;
+  /**
+   * `Audio` or `Hls`, playlists are resolved.
+   */
+  type: StreamSourceType;
+  /**
+   * Request headers of the item, with the token used to read the playlist.
+   */
+  headers: RequestHeaders;
+}
+
+/**
+ * Playlists listing playlists are followed this deep.
+ */
+const MAX_PLAYLIST_DEPTH = 3;
+
+/**
+ * Tells the kind of a source from the extension of its url.
+ */
+export function streamSourceType(url: string): StreamSourceType {
+  const path = (url || '').split(/[?#]/)[0].toLowerCase();
+  if (/\.m3u8$/.test(path)) {
+    return StreamSourceType.Hls;
+  }
+  if (/\.(m3u|pls)$/.test(path)) {
+    return StreamSourceType.Playlist;
+  }
+  return StreamSourceType.Audio;
+}
+
+/**
+ * Resolves an url of a playlist entry against the url of the playlist.
+ */
+export function resolvePlaylistUrl(baseUrl: string, url: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(url)) {
+    return url;
+  }
+  const origin = /^([a-z][a-z0-9+.-]*:)\/\/[^/?#]*/i.exec(baseUrl);
+  if (!origin) {
+    return url;
+  }
+  if (url.startsWith('//')) {
+    return origin[1] + url;
+  }
+  if (url.startsWith('/')) {
+    return origin[0] + url;
+  }
+  const path = baseUrl.split(/[?#]/)[0];
+  return path.substring(0, path.lastIndexOf('/') + 1) + url;
+}
+
+/**
+ * Urls listed by an m3u playlist, in order. Comment and `#EXT` lines are skipped.
+ * @param baseUrl - Url of the playlist, relative entries are resolved against it.
+ */
+export function parseM3u(text: string, baseUrl: string = ''): string[] {
+  return (text || '')
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+    .map(line => resolvePlaylistUrl(baseUrl, line));
+}
+
+/**
+ * Urls listed by a pls playlist, ordered by their `FileN` number.
+ * @param baseUrl - Url of the playlist, relative entries are resolved against it.
+ */
+export function parsePls(text: string, baseUrl: string = ''): string[] {
+  const entries: { index: number; url: string }[] = [];
+  (text || '').split(/\r?\n/).forEach(line => {
+    const entry = /^\s*File(\d+)\s*=\s*(.+?)\s*$/i.exec(line);
+    if (entry) {
+      entries.push({ index: parseInt(entry[1], 10), url: resolvePlaylistUrl(baseUrl, entry[2]) });
+    }
+  });
+  return entries.sort((a, b) => a.index - b.index).map(entry => entry.url);
+}
+
+/**
+ * Gets the request headers of an item and, for an m3u or pls playlist, reads it to pick the first
+ * stream it lists. An m3u holding HLS tags is played as HLS. When the server turns the playlist
+ * request down with 401 and the item has a `tokenProvider`, it is read once more with a new token.
+ * @param refresh - Asks the token provider for a new token.
+ */
+export function resolveStreamSource(url: string, options: AudioPlayerOptions, refresh: boolean = false): Promise<StreamSource> {
+  return audioRequestHeaders(options, refresh).then(headers =>
+    pickStream(url, headers, 0).catch(error => {
+      if (error instanceof AudioPlayerError && error.extra === 401 && options.tokenProvider && !refresh) {
+        return resolveStreamSource(url, options, true);
+      }
+      throw error;
+    })
+  );
+}
+
+function pickStream(url: string, headers: RequestHeaders, depth: number): Promise<StreamSource> {
+  const type = streamSourceType(url);
+  if (type !== StreamSourceType.Playlist) {
+    return Promise.resolve({ url, type, headers });
+  }
+  if (depth >= MAX_PLAYLIST_DEPTH) {
+    return Promise.reject(new AudioPlayerError(AudioPlayerErrorCode.UnsupportedFormat, `Playlists nested too deep: ${url}`));
+  }
+  return Http.request({ url, method: 'GET', headers })
+    .then(response => {
+      const statusCode = response.statusCode;
+      if (statusCode >= 400) {
+        throw new AudioPlayerError(AudioPlayerErrorCode.SourceUnavailable, `HTTP error ${statusCode}`, null, statusCode);
+      }
+      const text = response.content.toString();
+      if (/^\s*\[playlist\]/i.test(text)) {
+        return parsePls(text, url);
+      }
+      if (/#EXT-X-/.test(text)) {
+        // served as .m3u, but an HLS playlist
+        return null;
+      }
+      return parseM3u(text, url);
+    }, error => {
+      throw AudioPlayerError.from(error, AudioPlayerErrorCode.NetworkFailure);
+    })
+    .then(streams => {
+      if (!streams) {
+        return { url, type: StreamSourceType.Hls, headers };
+      }
+      if (!streams.length) {
+        throw new AudioPlayerError(AudioPlayerErrorCode.SourceUnavailable, `The playlist lists no stream: ${url}`);
+      }
+      return pickStream(streams[0], headers, depth + 1);
+    });
+}
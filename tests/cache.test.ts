@@ -0,0 +1,279 @@
+import './register';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { after, before, test } from 'node:test';
+import { ApplicationSettings, knownFolders } from '@nativescript/core';
+import { AudioCache, CacheEntry, CacheEvents } from '../cache';
+import { AudioPlayerOptions } from '../options';
+import { TestServer } from './http-server';
+
+const server = new TestServer();
+const caches: AudioCache[] = [];
+
+before(() => server.start());
+
+after(() => {
+  caches.forEach(cache => cache.dispose());
+  (<any>knownFolders).clear();
+  return server.close();
+});
+
+function audio(length: number): Buffer {
+  const body = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    body[i] = i % 251;
+  }
+  return body;
+}
+
+function createCache(folder: string, maxBytes: number = 1024 * 1024, chunkSize: number = 4096): AudioCache {
+  const cache = new AudioCache({ folder, maxBytes, chunkSize });
+  caches.push(cache);
+  return cache;
+}
+
+/**
+ * Reads an url opened with `openStream` from `start` to `end` (the end of the file by default),
+ * like a player reading through the cache.
+ */
+async function read(cache: AudioCache, url: string, start: number = 0, end?: number): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  let position = start;
+  let last = end;
+  do {
+    const cached = await cache.read(url, position);
+    last = end === undefined ? cached.totalBytes : end;
+    const part: Buffer = cached.bytes.subarray(position - cached.start, Math.min(cached.bytes.length, last - cached.start));
+    parts.push(part);
+    position += part.length;
+  } while (position < last);
+  return Buffer.concat(parts);
+}
+
+/**
+ * Plays an url like a player: from disk once cached, otherwise streamed through the cache from
+ * start to end once prepared.
+ */
+async function play(cache: AudioCache, url: string): Promise<void> {
+  const cached = !!cache.getLocalPath(url);
+  if (!cached) {
+    assert.strictEqual(await cache.openStream(url, {}), true);
+  }
+  cache.onPrepared(<AudioPlayerOptions>{ audioFile: url });
+  if (!cached) {
+    await read(cache, url);
+  }
+}
+
+function once(cache: AudioCache, eventName: string, url: string): Promise<CacheEntry> {
+  return new Promise(resolve => {
+    const listener = (args: any) => {
+      if (args.entry.url === url) {
+        cache.off(eventName, listener);
+        resolve(args.entry);
+      }
+    };
+    cache.on(eventName, listener);
+  });
+}
+
+/**
+ * The Range requests made for a file, in order.
+ */
+function ranges(path: string): string[] {
+  return server.requestsFor(path)
+    .filter(request => request.method === 'GET')
+    .map(request => `${request.status} ${request.range}`);
+}
+
+function sizeRequests(path: string): number {
+  return server.requestsFor(path).filter(request => request.method === 'HEAD').length;
+}
+
+test('caches a file as it is streamed, fetching each chunk once', async () => {
+  const body = audio(10000);
+  const url = server.serve('/stream.mp3', { body });
+  const cache = createCache('stream');
+
+  const completed = once(cache, CacheEvents.completed, url);
+  assert.strictEqual(await cache.openStream(url, {}), true);
+  assert.strictEqual(cache.get(url).totalBytes, 10000);
+  assert.ok((await read(cache, url, 0, 6000)).equals(body.subarray(0, 6000)));
+  // a seek back, then ahead
+  assert.ok((await read(cache, url, 1000, 5000)).equals(body.subarray(1000, 5000)));
+  assert.ok((await read(cache, url, 9000)).equals(body.subarray(9000)));
+  assert.ok((await read(cache, url, 3000)).equals(body.subarray(3000)));
+  const entry = await completed;
+
+  assert.deepStrictEqual(ranges('/stream.mp3'), ['206 bytes=0-4095', '206 bytes=4096-8191', '206 bytes=8192-9999']);
+  assert.strictEqual(sizeRequests('/stream.mp3'), 1);
+  assert.strictEqual(entry.totalBytes, 10000);
+  assert.ok(fs.readFileSync(entry.path).equals(body));
+  assert.ok(!fs.existsSync(entry.path + '.part'));
+  assert.strictEqual(cache.getLocalPath(url), entry.path);
+
+  await play(cache, url);
+  assert.strictEqual(cache.stats.hits, 1);
+  assert.strictEqual(server.requestsFor('/stream.mp3').length, 4);
+});
+
+test('does not fetch the same chunk twice when two reads ask for it at once', async () => {
+  const body = audio(10000);
+  const url = server.serve('/same-chunk.mp3', { body });
+  const cache = createCache('same-chunk');
+  await cache.openStream(url, {});
+
+  const [first, second] = await Promise.all([cache.read(url, 100), cache.read(url, 4000)]);
+
+  assert.strictEqual(first, second);
+  assert.deepStrictEqual(ranges('/same-chunk.mp3'), ['206 bytes=0-4095']);
+});
+
+test('takes the whole file from a server ignoring Range', async () => {
+  const body = audio(10000);
+  const url = server.serve('/no-range.mp3', { body, ranges: false });
+  const cache = createCache('no-range');
+
+  const completed = once(cache, CacheEvents.completed, url);
+  await play(cache, url);
+  const entry = await completed;
+
+  assert.deepStrictEqual(ranges('/no-range.mp3'), ['200 bytes=0-4095']);
+  assert.strictEqual(entry.totalBytes, 10000);
+  assert.ok(fs.readFileSync(entry.path).equals(body));
+});
+
+test('keeps the chunks of a file left half way for the next session', async () => {
+  const body = audio(10000);
+  const url = server.serve('/resume.mp3', { body, failAt: 4096 });
+  const first = createCache('resume');
+
+  await first.openStream(url, {});
+  await read(first, url, 0, 4096);
+  await assert.rejects(first.read(url, 4096), (error: any) => error.extra === 500);
+  first.dispose();
+  const partial = first.get(url);
+  assert.strictEqual(partial.complete, false);
+  assert.strictEqual(fs.statSync(partial.path + '.part/0').size, 4096);
+
+  const second = createCache('resume');
+  assert.strictEqual(second.get(url).bytesCached, 4096);
+  const completed = once(second, CacheEvents.completed, url);
+  await play(second, url);
+  const entry = await completed;
+
+  assert.deepStrictEqual(ranges('/resume.mp3'), ['206 bytes=0-4095', '500 bytes=4096-8191', '206 bytes=4096-8191', '206 bytes=8192-9999']);
+  assert.strictEqual(sizeRequests('/resume.mp3'), 1);
+  assert.strictEqual(second.stats.misses, 1);
+  assert.ok(fs.readFileSync(entry.path).equals(body));
+});
+
+/**
+ * Writes the chunks of a file as a previous session left them, and its entry in the index.
+ */
+function seedChunks(folder: string, url: string, chunks: { [start: number]: Buffer }, totalBytes: number) {
+  const seed = createCache(folder);
+  seed.pin(url);
+  const seeded = seed.get(url);
+  seed.dispose();
+  fs.mkdirSync(seeded.path + '.part');
+  Object.keys(chunks).forEach(start => fs.writeFileSync(`${seeded.path}.part/${start}`, chunks[start]));
+  const key = `podcast-audio.cache.${folder}`;
+  const saved: CacheEntry[] = JSON.parse(ApplicationSettings.getString(key));
+  saved[0].totalBytes = totalBytes;
+  ApplicationSettings.setString(key, JSON.stringify(saved));
+}
+
+test('joins the chunks cached completely in the previous session', async () => {
+  const body = audio(10000);
+  const url = server.serve('/join.mp3', { body });
+  // the app stopped between caching the last chunk and joining the chunks
+  seedChunks('join', url, { 0: body.subarray(0, 4096), 4096: body.subarray(4096, 8192), 8192: body.subarray(8192) }, body.length);
+
+  const cache = createCache('join');
+  const entry = await once(cache, CacheEvents.completed, url);
+
+  assert.strictEqual(server.requestsFor('/join.mp3').length, 0);
+  assert.strictEqual(entry.complete, true);
+  assert.ok(fs.readFileSync(entry.path).equals(body));
+  assert.ok(!fs.existsSync(entry.path + '.part'));
+});
+
+test('fetches again a chunk cut short in the previous session', async () => {
+  const body = audio(10000);
+  const url = server.serve('/cut-short.mp3', { body });
+  seedChunks('cut-short', url, { 0: body.subarray(0, 4096), 4096: body.subarray(4096, 8192), 8192: body.subarray(8192, 9000) }, body.length);
+
+  const cache = createCache('cut-short');
+  assert.strictEqual(cache.get(url).bytesCached, 8192);
+  const completed = once(cache, CacheEvents.completed, url);
+  await play(cache, url);
+  const entry = await completed;
+
+  assert.deepStrictEqual(ranges('/cut-short.mp3'), ['206 bytes=8192-9999']);
+  assert.ok(fs.readFileSync(entry.path).equals(body));
+});
+
+test('streams a file larger than the cache without keeping it', async () => {
+  const body = audio(10000);
+  const url = server.serve('/too-large.mp3', { body });
+  const cache = createCache('too-large', 6000);
+
+  await cache.openStream(url, {});
+  assert.ok((await read(cache, url)).equals(body));
+
+  assert.strictEqual(cache.get(url), undefined);
+  assert.strictEqual(cache.usedBytes, 0);
+});
+
+test('evicts the least recently played files to stay under maxBytes', async () => {
+  const cache = createCache('lru', 25000, 16384);
+  const [a, b, c] = ['/lru-a.mp3', '/lru-b.mp3', '/lru-c.mp3'].map(path => server.serve(path, { body: audio(10000) }));
+  for (const url of [a, b]) {
+    const completed = once(cache, CacheEvents.completed, url);
+    await play(cache, url);
+    await completed;
+  }
+  const evictedPath = cache.get(a).path;
+
+  const evicted = once(cache, CacheEvents.evicted, a);
+  const completed = once(cache, CacheEvents.completed, c);
+  await play(cache, c);
+  await evicted;
+  await completed;
+
+  assert.strictEqual(cache.get(a), undefined);
+  assert.ok(!fs.existsSync(evictedPath));
+  assert.ok(cache.getLocalPath(b));
+  assert.ok(cache.getLocalPath(c));
+  assert.strictEqual(cache.usedBytes, 20000);
+  assert.strictEqual(cache.stats.evictions, 1);
+});
+
+test('never evicts pinned files and keeps them on clearCache', async () => {
+  const cache = createCache('pinned', 25000, 16384);
+  const [a, b, c] = ['/pinned-a.mp3', '/pinned-b.mp3', '/pinned-c.mp3'].map(path => server.serve(path, { body: audio(10000) }));
+  cache.pin(a);
+  for (const url of [a, b]) {
+    const completed = once(cache, CacheEvents.completed, url);
+    await play(cache, url);
+    await completed;
+  }
+
+  const evicted = once(cache, CacheEvents.evicted, b);
+  const completed = once(cache, CacheEvents.completed, c);
+  await play(cache, c);
+  await evicted;
+  await completed;
+
+  assert.ok(cache.getLocalPath(a));
+  assert.strictEqual(cache.get(b), undefined);
+  assert.strictEqual(cache.stats.pinnedEntries, 1);
+
+  cache.clearCache();
+  assert.deepStrictEqual(cache.list().map(entry => entry.url), [a]);
+  const pinnedPath = cache.getLocalPath(a);
+  cache.clearCache(true);
+  assert.strictEqual(cache.list().length, 0);
+  assert.ok(!fs.existsSync(pinnedPath));
+});
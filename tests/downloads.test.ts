@@ -0,0 +1,193 @@
+import './register';
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { after, before, test } from 'node:test';
+import { ApplicationSettings, knownFolders } from '@nativescript/core';
+import { DownloadEvents, DownloadInfo, DownloadManager, DownloadManagerOptions, DownloadStatus } from '../downloads';
+import { TestServer } from './http-server';
+
+const server = new TestServer();
+const managers: DownloadManager[] = [];
+
+before(() => server.start());
+
+after(() => {
+  managers.forEach(manager => manager.dispose());
+  (<any>knownFolders).clear();
+  return server.close();
+});
+
+function audio(length: number): Buffer {
+  const body = Buffer.alloc(length);
+  for (let i = 0; i < length; i++) {
+    body[i] = i % 251;
+  }
+  return body;
+}
+
+function createManager(folder: string, options?: DownloadManagerOptions): DownloadManager {
+  const manager = new DownloadManager(Object.assign({ folder, chunkSize: 4096, retryDelay: 10 }, options));
+  managers.push(manager);
+  return manager;
+}
+
+/**
+ * Resolves with the download once it completed or failed.
+ */
+function settled(manager: DownloadManager, url: string): Promise<DownloadInfo> {
+  return new Promise(resolve => {
+    const listener = (args: any) => {
+      const status = args.download.status;
+      if (args.download.url === url && (status === DownloadStatus.Completed || status === DownloadStatus.Failed)) {
+        manager.off(DownloadEvents.statusChanged, listener);
+        resolve(args.download);
+      }
+    };
+    manager.on(DownloadEvents.statusChanged, listener);
+  });
+}
+
+function ranges(path: string): string[] {
+  return server.requestsFor(path).map(request => `${request.status} ${request.range}`);
+}
+
+test('resumes with a Range request from where an interrupted download stopped', async () => {
+  const body = audio(10000);
+  const url = server.serve('/interrupted.mp3', { body });
+  const manager = createManager('interrupted');
+  const interrupted = new Promise<void>(resolve => {
+    const listener = () => {
+      manager.off(DownloadEvents.progress, listener);
+      manager.pause(url);
+      resolve();
+    };
+    manager.on(DownloadEvents.progress, listener);
+  });
+
+  manager.download(url);
+  await interrupted;
+  const paused = manager.get(url);
+  assert.strictEqual(paused.status, DownloadStatus.Paused);
+  assert.strictEqual(paused.bytesWritten, 4096);
+  assert.strictEqual(fs.statSync(paused.path + '.part').size, 4096);
+
+  const completed = settled(manager, url);
+  manager.resume(url);
+  const download = await completed;
+
+  assert.strictEqual(download.status, DownloadStatus.Completed);
+  assert.deepStrictEqual(ranges('/interrupted.mp3'), ['206 bytes=0-4095', '206 bytes=4096-8191', '206 bytes=8192-12287']);
+  assert.ok(fs.readFileSync(download.path).equals(body));
+  assert.ok(!fs.existsSync(download.path + '.part'));
+  assert.strictEqual(manager.getLocalPath(url), download.path);
+});
+
+test('retries a chunk failing with a 5xx after a doubling delay', async () => {
+  const body = audio(10000);
+  const url = server.serve('/retry.mp3', { body, failAt: 4096, failures: 2 });
+  const manager = createManager('retry', { retryDelay: 50 });
+
+  const started = Date.now();
+  const completed = settled(manager, url);
+  manager.download(url);
+  const download = await completed;
+
+  assert.strictEqual(download.status, DownloadStatus.Completed);
+  assert.strictEqual(download.attempts, 0);
+  assert.deepStrictEqual(ranges('/retry.mp3'), [
+    '206 bytes=0-4095',
+    '500 bytes=4096-8191',
+    '500 bytes=4096-8191',
+    '206 bytes=4096-8191',
+    '206 bytes=8192-12287'
+  ]);
+  // 50ms before the first retry, 100ms before the second
+  assert.ok(Date.now() - started >= 150);
+  assert.ok(fs.readFileSync(download.path).equals(body));
+});
+
+test('fails once the retries of a 5xx are used up and keeps what was downloaded', async () => {
+  const url = server.serve('/retries-used-up.mp3', { body: audio(10000), failAt: 4096, failures: 10 });
+  const manager = createManager('retries-used-up', { maxRetries: 2 });
+
+  const failed = settled(manager, url);
+  manager.download(url);
+  const download = await failed;
+
+  assert.strictEqual(download.status, DownloadStatus.Failed);
+  assert.strictEqual(download.attempts, 3);
+  assert.strictEqual(download.error, 'HTTP 500');
+  assert.strictEqual(server.requestsFor('/retries-used-up.mp3').filter(request => request.status === 500).length, 3);
+  assert.strictEqual(fs.statSync(download.path + '.part').size, 4096);
+});
+
+test('does not retry a 404', async () => {
+  const url = server.serve('/missing.mp3', undefined);
+  const manager = createManager('missing');
+
+  const failed = settled(manager, url);
+  manager.download(url);
+  const download = await failed;
+
+  assert.strictEqual(download.status, DownloadStatus.Failed);
+  assert.strictEqual(download.attempts, 1);
+  assert.strictEqual(download.error, 'HTTP 404');
+  assert.strictEqual(server.requestsFor('/missing.mp3').length, 1);
+});
+
+test('rejects a download going over maxStorageBytes', async () => {
+  const [a, b] = ['/quota-a.mp3', '/quota-b.mp3'].map(path => server.serve(path, { body: audio(10000) }));
+  const manager = createManager('quota', { maxStorageBytes: 15000 });
+
+  const completed = settled(manager, a);
+  manager.download(a);
+  await completed;
+  const failed = settled(manager, b);
+  manager.download(b);
+  const download = await failed;
+
+  assert.strictEqual(download.status, DownloadStatus.Failed);
+  assert.strictEqual(download.error, 'Storage quota of 15000 bytes exceeded');
+  assert.strictEqual(download.bytesWritten, 0);
+  assert.strictEqual(download.totalBytes, 10000);
+  assert.ok(!fs.existsSync(download.path + '.part'));
+  assert.deepStrictEqual(ranges('/quota-b.mp3'), ['206 bytes=0-4095']);
+  assert.strictEqual(manager.usedBytes, 10000);
+});
+
+test('restores the downloads of the previous session from the settings', async () => {
+  const body = audio(10000);
+  const [done, running, deleted] = ['/restore-done.mp3', '/restore-running.mp3', '/restore-deleted.mp3'].map(path => server.serve(path, { body }));
+  const first = createManager('restore');
+  for (const url of [done, deleted]) {
+    const completed = settled(first, url);
+    first.download(url);
+    await completed;
+  }
+  first.dispose();
+  fs.unlinkSync(first.get(deleted).path);
+  // the app was killed while the chunk after the first one was downloading
+  const key = 'podcast-audio.downloads.restore';
+  const saved: DownloadInfo[] = JSON.parse(ApplicationSettings.getString(key));
+  const runningPath = saved[0].path.replace(/[^/]+$/, 'running.mp3');
+  fs.writeFileSync(runningPath + '.part', body.subarray(0, 4096));
+  saved.push({ id: 'episode-2', url: running, path: runningPath, status: DownloadStatus.Downloading, bytesWritten: 4096, totalBytes: 10000, attempts: 0 });
+  ApplicationSettings.setString(key, JSON.stringify(saved));
+
+  const second = createManager('restore');
+
+  assert.deepStrictEqual(second.list().map(download => `${download.status} ${download.url}`), [
+    `${DownloadStatus.Completed} ${done}`,
+    `${DownloadStatus.Paused} ${running}`
+  ]);
+  assert.strictEqual(second.getLocalPath(done), first.get(done).path);
+  assert.strictEqual(second.getLocalPath(deleted), null);
+
+  const completed = settled(second, running);
+  second.resume('episode-2');
+  const download = await completed;
+
+  assert.strictEqual(download.status, DownloadStatus.Completed);
+  assert.deepStrictEqual(ranges('/restore-running.mp3'), ['206 bytes=4096-8191', '206 bytes=8192-12287']);
+  assert.ok(fs.readFileSync(runningPath).equals(body));
+});
@@ -0,0 +1,95 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface ServedFile {
+  body: Buffer;
+  /**
+   * Set false to answer every request with the whole file, like servers ignoring `Range`.
+   */
+  ranges?: boolean;
+  /**
+   * Answers the first requests for the range starting at this byte with a 500, see `failures`.
+   */
+  failAt?: number;
+  /**
+   * How many requests for the range at `failAt` get a 500, 1 by default.
+   */
+  failures?: number;
+}
+
+export interface ServedRequest {
+  method: string;
+  path: string;
+  range: string | undefined;
+  status: number;
+}
+
+/**
+ * Local HTTP server answering `Range` requests with 206, 200 or 416 like podcast hosts do.
+ */
+export class TestServer {
+  readonly files: { [path: string]: ServedFile } = {};
+  readonly requests: ServedRequest[] = [];
+  private _server: http.Server;
+  private _baseUrl: string;
+
+  start(): Promise<void> {
+    this._server = http.createServer((request, response) => this._answer(request, response));
+    return new Promise(resolve => this._server.listen(0, '127.0.0.1', () => {
+      this._baseUrl = `http://127.0.0.1:${(<AddressInfo>this._server.address()).port}`;
+      resolve();
+    }));
+  }
+
+  close(): Promise<void> {
+    return new Promise(resolve => this._server.close(() => resolve()));
+  }
+
+  /**
+   * Serves a file and returns its url.
+   */
+  serve(path: string, file: ServedFile): string {
+    this.files[path] = file;
+    return this._baseUrl + path;
+  }
+
+  requestsFor(path: string): ServedRequest[] {
+    return this.requests.filter(request => request.path === path);
+  }
+
+  private _answer(request: http.IncomingMessage, response: http.ServerResponse) {
+    const path = request.url;
+    const range = <string>request.headers.range;
+    const send = (status: number, headers: http.OutgoingHttpHeaders, body?: Buffer) => {
+      this.requests.push({ method: request.method, path, range, status });
+      response.writeHead(status, headers);
+      response.end(body);
+    };
+    const file = this.files[path];
+    if (!file) {
+      send(404, {});
+      return;
+    }
+    const length = file.body.length;
+    const match = /^bytes=(\d+)-(\d*)$/.exec(range || '');
+    if (match && file.failAt === parseInt(match[1], 10)) {
+      file.failures = (file.failures || 1) - 1;
+      if (!file.failures) {
+        file.failAt = undefined;
+      }
+      send(500, {});
+      return;
+    }
+    if (!match || file.ranges === false) {
+      send(200, { 'Content-Length': length }, file.body);
+      return;
+    }
+    const start = parseInt(match[1], 10);
+    if (start >= length) {
+      send(416, { 'Content-Range': `bytes */${length}` });
+      return;
+    }
+    const end = Math.min(match[2] ? parseInt(match[2], 10) : length - 1, length - 1);
+    send(206, { 'Content-Range': `bytes ${start}-${end}/${length}`, 'Content-Length': end - start + 1 }, file.body.subarray(start, end + 1));
+  }
+}
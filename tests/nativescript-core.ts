@@ -0,0 +1,179 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as nodePath from 'path';
+
+/**
+ * Stand-in for the parts of `@nativescript/core` the cache and downloads use, backed by Node,
+ * so they can run against a local HTTP server outside of an app. Behaves like Android.
+ */
+
+export const isAndroid = true;
+
+export const path = {
+  join: (...parts: string[]) => nodePath.join(...parts)
+};
+
+export const Utils = {
+  isString: (value: any) => typeof value === 'string'
+};
+
+export interface EventData {
+  eventName: string;
+  object: any;
+}
+
+export class Observable {
+  private _listeners: { [eventName: string]: Array<{ callback: (data: any) => void; thisArg: any }> } = {};
+
+  on(eventName: string, callback: (data: any) => void, thisArg?: any) {
+    (this._listeners[eventName] = this._listeners[eventName] || []).push({ callback, thisArg });
+  }
+
+  off(eventName: string, callback?: (data: any) => void) {
+    this._listeners[eventName] = (this._listeners[eventName] || []).filter(listener => callback && listener.callback !== callback);
+  }
+
+  notify(data: EventData) {
+    (this._listeners[data.eventName] || []).slice().forEach(listener => listener.callback.call(listener.thisArg, data));
+  }
+
+  notifyPropertyChange(propertyName: string, value: any, oldValue?: any) {
+    this.notify(<any>{ eventName: 'propertyChange', object: this, propertyName, value, oldValue });
+  }
+}
+
+const settings = new Map<string, string>();
+
+export const ApplicationSettings = {
+  getString: (key: string, defaultValue?: string) => (settings.has(key) ? settings.get(key) : defaultValue),
+  setString: (key: string, value: string) => {
+    settings.set(key, value);
+  },
+  clear: () => settings.clear()
+};
+
+export class File {
+  constructor(public path: string) { }
+
+  get name(): string {
+    return nodePath.basename(this.path);
+  }
+
+  /**
+   * Creates the file when it is missing, like the real `File.fromPath`.
+   */
+  static fromPath(filePath: string): File {
+    if (!fs.existsSync(filePath)) {
+      fs.mkdirSync(nodePath.dirname(filePath), { recursive: true });
+      fs.writeFileSync(filePath, '');
+    }
+    return new File(filePath);
+  }
+
+  static exists(filePath: string): boolean {
+    return fs.existsSync(filePath);
+  }
+
+  get size(): number {
+    return fs.statSync(this.path).size;
+  }
+
+  read(): Promise<Buffer> {
+    return fs.promises.readFile(this.path);
+  }
+
+  write(bytes: Buffer): Promise<void> {
+    return fs.promises.writeFile(this.path, bytes);
+  }
+
+  append(bytes: Buffer): Promise<void> {
+    return fs.promises.appendFile(this.path, bytes);
+  }
+
+  removeSync() {
+    fs.unlinkSync(this.path);
+  }
+
+  renameSync(newName: string) {
+    const target = nodePath.join(nodePath.dirname(this.path), newName);
+    fs.renameSync(this.path, target);
+    this.path = target;
+  }
+}
+
+export class Folder {
+  constructor(public path: string) {
+    fs.mkdirSync(path, { recursive: true });
+  }
+
+  /**
+   * Creates the folder when it is missing, like the real `Folder.fromPath`.
+   */
+  static fromPath(folderPath: string): Folder {
+    return new Folder(folderPath);
+  }
+
+  static exists(folderPath: string): boolean {
+    return fs.existsSync(folderPath) && fs.statSync(folderPath).isDirectory();
+  }
+
+  get name(): string {
+    return nodePath.basename(this.path);
+  }
+
+  getFolder(name: string): Folder {
+    return new Folder(nodePath.join(this.path, name));
+  }
+
+  getEntitiesSync(): Array<File | Folder> {
+    return fs.readdirSync(this.path, { withFileTypes: true }).map(entry => {
+      const entryPath = nodePath.join(this.path, entry.name);
+      return entry.isDirectory() ? new Folder(entryPath) : new File(entryPath);
+    });
+  }
+
+  removeSync() {
+    fs.rmSync(this.path, { recursive: true, force: true });
+  }
+}
+
+const root = nodePath.join(os.tmpdir(), `podcast-audio-tests-${process.pid}`);
+
+export const knownFolders = {
+  temp: () => new Folder(nodePath.join(root, 'temp')),
+  documents: () => new Folder(nodePath.join(root, 'documents')),
+  currentApp: () => new Folder(nodePath.join(root, 'app')),
+  /**
+   * Not in `@nativescript/core`: deletes the folders above.
+   */
+  clear: () => fs.rmSync(root, { recursive: true, force: true })
+};
+
+export interface HttpResponse {
+  statusCode: number;
+  headers: { [name: string]: string | string[] };
+  content: { raw: { toByteArray(): Buffer }; toString(): string };
+}
+
+export const Http = {
+  request(options: { url: string; method?: string; headers?: { [name: string]: string }; timeout?: number }): Promise<HttpResponse> {
+    return new Promise((resolve, reject) => {
+      const request = http.request(options.url, { method: options.method || 'GET', headers: options.headers, timeout: options.timeout }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () => {
+          const body = Buffer.concat(chunks);
+          resolve({
+            statusCode: response.statusCode,
+            headers: <any>response.headers,
+            content: { raw: { toByteArray: () => body }, toString: () => body.toString() }
+          });
+        });
+      });
+      request.on('error', reject);
+      request.on('timeout', () => request.destroy(new Error('The request timed out')));
+      request.end();
+    });
+  }
+};
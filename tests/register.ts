@@ -0,0 +1,11 @@
+import Module = require('module');
+import * as path from 'path';
+
+/**
+ * Loads `./nativescript-core` wherever `@nativescript/core` is required.
+ */
+const standIn = path.join(__dirname, 'nativescript-core');
+const resolveFilename = (<any>Module)._resolveFilename;
+(<any>Module)._resolveFilename = function (request: string, ...rest: any[]) {
+  return resolveFilename.call(this, request === '@nativescript/core' ? standIn : request, ...rest);
+};
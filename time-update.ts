@@ -0,0 +1,126 @@
+import { Application } from '@nativescript/core';
+
+export interface TimeUpdateEventData {
+  /**
+   * Playback position in seconds.
+   */
+  currentTime: number;
+  /**
+   * Duration in seconds, 0 when unknown.
+   */
+  duration: number;
+  /**
+   * How far the audio file is loaded, in seconds.
+   */
+  bufferedPosition: number;
+}
+
+/**
+ * Fires time updates at a fixed interval while audio plays. The player calls `start()`
+ * when playback starts and `stop()` when it pauses or ends. Updates are held back while
+ * the app is in the background and pick up again when it comes back.
+ */
+export class TimeUpdateEmitter<T = TimeUpdateEventData> {
+  private _interval: number;
+  private _timer: any;
+  private _running = false;
+  private _suspended = false;
+  private _listening = false;
+
+  constructor(
+    private _getData: () => T | null,
+    private _onUpdate: (data: T) => void,
+    interval: number = 500
+  ) {
+    this._interval = interval;
+  }
+
+  /**
+   * Milliseconds between two updates, 0 turns the updates off.
+   */
+  get interval(): number {
+    return this._interval;
+  }
+
+  set interval(value: number) {
+    this._interval = value > 0 ? value : 0;
+    if (this._running) {
+      this._schedule();
+    }
+  }
+
+  start() {
+    try {
+      this._running = true;
+      this._listen(true);
+      this.emit();
+      this._schedule();
+    } catch (error) {
+      console.error('[Code error TU01] Error starting time updates:', error);
+    }
+  }
+
+  stop() {
+    this._running = false;
+    this._listen(false);
+    this._clearTimer();
+  }
+
+  /**
+   * Fires an update right away, e.g. after a seek, when updates are on.
+   */
+  emit() {
+    if (!this._running || this._suspended || !this._interval) {
+      return;
+    }
+    try {
+      // null skips this update, e.g. while metering is off
+      const data = this._getData();
+      if (data) {
+        this._onUpdate(data);
+      }
+    } catch (error) {
+      console.error('[Code error TU02] Error sending time update:', error);
+    }
+  }
+
+  private _schedule() {
+    this._clearTimer();
+    if (this._running && !this._suspended && this._interval) {
+      this._timer = setInterval(() => this.emit(), this._interval);
+    }
+  }
+
+  private _clearTimer() {
+    if (this._timer) {
+      clearInterval(this._timer);
+      this._timer = undefined;
+    }
+  }
+
+  private _onSuspend = () => {
+    this._suspended = true;
+    this._clearTimer();
+  };
+
+  private _onResume = () => {
+    this._suspended = false;
+    this.emit();
+    this._schedule();
+  };
+
+  private _listen(listen: boolean) {
+    if (listen === this._listening) {
+      return;
+    }
+    this._listening = listen;
+    if (listen) {
+      Application.on(Application.suspendEvent, this._onSuspend);
+      Application.on(Application.resumeEvent, this._onResume);
+    } else {
+      Application.off(Application.suspendEvent, this._onSuspend);
+      Application.off(Application.resumeEvent, this._onResume);
+      this._suspended = false;
+    }
+  }
+}
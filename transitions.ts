@@ -0,0 +1,218 @@
+import { Observable } from '@nativescript/core';
+import { AudioPlayerEvents, AudioPlayerOptions } from './options';
+import { PlayerState } from './player-state';
+
+export enum TransitionMode {
+  /**
+   * Load the next item once the current one completed.
+   */
+  None = 'none',
+  /**
+   * Start the next item on the exact end of the current one.
+   */
+  Gapless = 'gapless',
+  /**
+   * Fade the next item in while the current one fades out.
+   */
+  Crossfade = 'crossfade'
+}
+
+export const DEFAULT_CROSSFADE_DURATION = 6;
+
+export interface TransitionEventData {
+  mode: TransitionMode;
+  /**
+   * Options of the item that ended or is fading out.
+   */
+  previousItem: AudioPlayerOptions;
+  /**
+   * Options of the item now playing, as passed to `setNextItem`.
+   */
+  item: AudioPlayerOptions;
+}
+
+/**
+ * What the transition timing needs from a player.
+ */
+export interface TransitionHost {
+  readonly events: Observable;
+  readonly state: PlayerState;
+  readonly currentTime: number;
+  readonly duration: number;
+  readonly playbackRate: number;
+}
+
+const CHECK_INTERVAL = 250;
+const FADE_INTERVAL = 50;
+
+/**
+ * Tells the player when to start the transition to the prepared next item: `crossfadeDuration`
+ * before the end when crossfading, `gaplessLeadTime` before it when gapless. Checks only run while
+ * playing, and keep running in the background so the transition happens with the screen locked.
+ */
+export class TransitionController {
+  private _mode = TransitionMode.None;
+  private _crossfadeDuration = DEFAULT_CROSSFADE_DURATION;
+  private _armed = false;
+  private _timer: any;
+
+  /**
+   * @param _gaplessLeadTime - Seconds before the end at which a gapless transition is due, 0 when the
+   * platform chains the players itself.
+   * @param _onDue - Gets the seconds left in the current item, at the playback speed.
+   */
+  constructor(
+    private _host: TransitionHost,
+    private _gaplessLeadTime: number,
+    private _onDue: (remaining: number) => void
+  ) {
+    this._host.events.on(AudioPlayerEvents.stateChanged, this._onStateChanged, this);
+  }
+
+  get mode(): TransitionMode {
+    return this._mode;
+  }
+
+  set mode(value: TransitionMode) {
+    this._mode = value || TransitionMode.None;
+  }
+
+  /**
+   * Seconds over which the items are crossfaded, 6 by default.
+   */
+  get crossfadeDuration(): number {
+    return this._crossfadeDuration;
+  }
+
+  set crossfadeDuration(value: number) {
+    if (value > 0) {
+      this._crossfadeDuration = value;
+    }
+  }
+
+  /**
+   * Seconds before the end of the current item at which the transition is due, 0 for none.
+   */
+  get leadTime(): number {
+    switch (this._mode) {
+      case TransitionMode.Crossfade:
+        return this._crossfadeDuration;
+      case TransitionMode.Gapless:
+        return this._gaplessLeadTime;
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Called by the player once the next item is prepared. The transition is due once per `arm()`.
+   */
+  arm() {
+    this._armed = true;
+    this._check();
+  }
+
+  disarm() {
+    this._armed = false;
+  }
+
+  private _onStateChanged() {
+    this._clearTimer();
+    if (this._host.state === PlayerState.Playing) {
+      this._timer = setInterval(() => this._check(), CHECK_INTERVAL);
+    }
+  }
+
+  private _check() {
+    try {
+      const leadTime = this.leadTime;
+      if (!this._armed || !leadTime || this._host.state !== PlayerState.Playing) {
+        return;
+      }
+      const duration = this._host.duration;
+      if (!(duration > 0)) {
+        // live streams never end
+        return;
+      }
+      const remaining = Math.max(0, duration - this._host.currentTime) / (this._host.playbackRate || 1);
+      if (remaining <= leadTime) {
+        this._armed = false;
+        this._onDue(remaining);
+      }
+    } catch (error) {
+      console.error('[Code error TR01] Error checking transition time:', error);
+    }
+  }
+
+  private _clearTimer() {
+    if (this._timer) {
+      clearInterval(this._timer);
+      this._timer = undefined;
+    }
+  }
+}
+
+/**
+ * Moves the volume from the outgoing player to the incoming one along an equal power curve,
+ * so the loudness stays even halfway through.
+ */
+export class Crossfade {
+  private _timer: any;
+  private _onStep: (fadeOut: number, fadeIn: number) => void;
+  private _onDone: () => void;
+
+  get active(): boolean {
+    return !!this._onDone;
+  }
+
+  /**
+   * Ends a running crossfade first.
+   * @param onStep - Gets the volume factors, from 1 to 0 for the outgoing player and 0 to 1 for the incoming one.
+   * @param onDone - Called once, when the fade ended or was finished early.
+   */
+  start(seconds: number, onStep: (fadeOut: number, fadeIn: number) => void, onDone: () => void) {
+    this.finish();
+    this._onStep = onStep;
+    this._onDone = onDone;
+    const started = Date.now();
+    this._step(0);
+    this._timer = setInterval(() => {
+      const progress = seconds > 0 ? (Date.now() - started) / (seconds * 1000) : 1;
+      if (progress >= 1) {
+        this.finish();
+      } else {
+        this._step(progress);
+      }
+    }, FADE_INTERVAL);
+  }
+
+  /**
+   * Jumps to the end of the fade, e.g. when playback is paused or the outgoing item ran out.
+   */
+  finish() {
+    if (this._timer) {
+      clearInterval(this._timer);
+      this._timer = undefined;
+    }
+    const onDone = this._onDone;
+    if (!onDone) {
+      return;
+    }
+    this._step(1);
+    this._onStep = undefined;
+    this._onDone = undefined;
+    try {
+      onDone();
+    } catch (error) {
+      console.error('[Code error TR02] Error ending crossfade:', error);
+    }
+  }
+
+  private _step(progress: number) {
+    try {
+      this._onStep(Math.cos((progress * Math.PI) / 2), Math.sin((progress * Math.PI) / 2));
+    } catch (error) {
+      console.error('[Code error TR03] Error applying crossfade volume:', error);
+    }
+  }
+}
@@ -0,0 +1,82 @@
+const FADE_INTERVAL = 20;
+
+/**
+ * Ramps a volume factor between 0 (silent) and 1 for the fades of `play()`, `pause()` and `seekTo()`.
+ * Players multiply the volume set by the user with the factor, so a volume set mid-ramp is kept.
+ * Starting a ramp takes over from the running one at the level it got to.
+ */
+export class VolumeFader {
+  private _factor = 1;
+  private _target = 1;
+  private _timer: any;
+  private _resolve: (reached: boolean) => void;
+
+  constructor(private _apply: (factor: number) => void) { }
+
+  get factor(): number {
+    return this._factor;
+  }
+
+  /**
+   * Whether a ramp toward silence is running, e.g. before pausing.
+   */
+  get fadingOut(): boolean {
+    return !!this._timer && this._target === 0;
+  }
+
+  /**
+   * Ramps the factor to a target. A ramp over the whole range takes `seconds`, a shorter one its share.
+   * @returns true once the target is reached, false when another ramp or `cancel()` came first
+   */
+  fadeTo(target: number, seconds: number): Promise<boolean> {
+    this._stop(false);
+    target = Math.max(0, Math.min(1, target));
+    const from = this._factor;
+    const duration = Math.abs(target - from) * Math.max(0, seconds || 0) * 1000;
+    if (!duration) {
+      this._set(target);
+      return Promise.resolve(true);
+    }
+    return new Promise(resolve => {
+      this._resolve = resolve;
+      this._target = target;
+      const started = Date.now();
+      this._timer = setInterval(() => {
+        const progress = Math.min(1, (Date.now() - started) / duration);
+        this._set(from + (target - from) * progress);
+        if (progress >= 1) {
+          this._stop(true);
+        }
+      }, FADE_INTERVAL);
+    });
+  }
+
+  /**
+   * Stops the running ramp and sets the factor, full volume by default.
+   */
+  cancel(factor: number = 1) {
+    this._stop(false);
+    this._set(factor);
+  }
+
+  private _stop(reached: boolean) {
+    if (this._timer) {
+      clearInterval(this._timer);
+      this._timer = undefined;
+    }
+    const resolve = this._resolve;
+    this._resolve = undefined;
+    if (resolve) {
+      resolve(reached);
+    }
+  }
+
+  private _set(factor: number) {
+    this._factor = factor;
+    try {
+      this._apply(factor);
+    } catch (error) {
+      console.error('[Code error VF01] Error applying fade volume:', error);
+    }
+  }
+}